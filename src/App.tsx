@@ -1,74 +1,265 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { ApiKeyInput } from './components/ApiKeyInput';
+import { SignInForm } from './components/SignInForm';
+import { UnlockApiKey } from './components/UnlockApiKey';
 import { GeneratorPage } from './pages/GeneratorPage';
 import { TestPage } from './pages/TestPage';
-import { VideoService } from './lib/video-service';
+import { ComparePage } from './pages/ComparePage';
+import { SequencePage } from './pages/SequencePage';
+import { VideoService, VideoServiceOptions } from './lib/video-service';
+import { REQUEST_CONCURRENCY_STORAGE_KEY } from './lib/request-scheduler';
+import { MockSoraServer, MOCK_SORA_BASE_URL } from './lib/mock-sora-server';
+import { AuthUser, createPersistence } from './lib/persistence';
+import { parseCompareIds } from './lib/video-compare';
+import { createProxyTransport, PROXY_API_KEY_PLACEHOLDER } from './lib/sora-proxy';
+import {
+  ApiKeyProfile,
+  ApiKeyStorageMode,
+  clearStoredProfiles,
+  EncryptedProfiles,
+  getActiveProfileId,
+  getAutoLockMinutes,
+  loadStoredProfiles,
+  ProfileEncryption,
+  saveProfiles,
+  SaveProfilesOptions,
+  setActiveProfileId as storeActiveProfileId,
+  unlockProfiles,
+} from './lib/api-key-storage';
 
-type Page = 'generator' | 'test';
+type Page = 'generator' | 'test' | 'compare' | 'sequence';
 
-const normalizeApiKey = (key: string | null | undefined) => key?.trim() || '';
+// Any of these counts as activity for the auto-lock timer
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+// VITE_SORA_MOCK=true swaps the OpenAI API for an in-browser mock so the app
+// can be exercised offline without spending credits
+const mockSoraServer = import.meta.env.VITE_SORA_MOCK === 'true' ? new MockSoraServer() : null;
+
+// Shared by sign-in and every VideoService so they see the same session
+const persistence = createPersistence();
+
+// VITE_SORA_PROXY_URL routes OpenAI calls through the sora-proxy edge function,
+// which holds the API key; users only sign in
+const soraProxyUrl = import.meta.env.VITE_SORA_PROXY_URL?.trim() || null;
+if (soraProxyUrl && !persistence.auth) {
+  throw new Error('VITE_SORA_PROXY_URL requires the Supabase backend so users can sign in.');
+}
+
+function soraConnection(): Pick<VideoServiceOptions, 'baseUrl' | 'transport'> {
+  if (mockSoraServer) {
+    return { baseUrl: MOCK_SORA_BASE_URL, transport: mockSoraServer.fetch };
+  }
+  if (soraProxyUrl && persistence.auth) {
+    return { baseUrl: soraProxyUrl, transport: createProxyTransport(persistence.auth) };
+  }
+  return { baseUrl: import.meta.env.VITE_OPENAI_API_BASE_URL };
+}
 
 function App() {
-  const [apiKey, setApiKey] = useState<string | null>(null);
+  // null while there are none or they are locked
+  const [profiles, setProfiles] = useState<ApiKeyProfile[] | null>(null);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(getActiveProfileId);
+  const [keyMode, setKeyMode] = useState<ApiKeyStorageMode | null>(null);
+  // Kept while unlocked so the profiles can be locked again without re-entering them
+  const [encryptedProfiles, setEncryptedProfiles] = useState<EncryptedProfiles | null>(null);
+  // Lets edits to unlocked profiles be saved without asking for the passphrase
+  const [encryption, setEncryption] = useState<ProfileEncryption | null>(null);
+  const [managingProfiles, setManagingProfiles] = useState(false);
   const [videoService, setVideoService] = useState<VideoService | null>(null);
-  const [currentPage, setCurrentPage] = useState<Page>('generator');
+  // A shared ?compare= link opens straight into the compare view
+  const [currentPage, setCurrentPage] = useState<Page>(() =>
+    parseCompareIds(new URLSearchParams(window.location.search)).length > 0 ? 'compare' : 'generator'
+  );
+  // undefined until the stored session has been read
+  const [authUser, setAuthUser] = useState<AuthUser | null | undefined>(persistence.auth ? undefined : null);
+  const userId = authUser?.id ?? null;
+  // Falls back to the first profile if the remembered one was removed
+  const activeProfile = useMemo(
+    () => profiles?.find((profile) => profile.id === activeProfileId) ?? profiles?.[0] ?? null,
+    [profiles, activeProfileId]
+  );
+  // In proxy mode there is no key to collect
+  const serviceKey = soraProxyUrl ? PROXY_API_KEY_PLACEHOLDER : activeProfile?.apiKey ?? null;
 
   useEffect(() => {
-    const storedKey = normalizeApiKey(localStorage.getItem('openai_api_key'));
-    if (storedKey) {
-      localStorage.setItem('openai_api_key', storedKey);
-      setApiKey(storedKey);
-    } else {
-      localStorage.removeItem('openai_api_key');
+    const auth = persistence.auth;
+    if (!auth) return;
+
+    auth
+      .getUser()
+      .then(setAuthUser)
+      .catch((error) => {
+        console.error('Failed to restore sign-in session:', error);
+        setAuthUser(null);
+      });
+    return auth.subscribe(setAuthUser);
+  }, []);
+
+  useEffect(() => {
+    if (soraProxyUrl) {
+      // Drop any keys left from before the deployment switched to the proxy
+      clearStoredProfiles();
+      return;
+    }
+
+    // Encrypted profiles stay locked until the passphrase is entered
+    const stored = loadStoredProfiles();
+    if (!stored) return;
+
+    setKeyMode(stored.mode);
+    if (stored.mode === 'encrypted') {
+      setEncryptedProfiles(stored.encrypted);
+    } else if (stored.profiles.length > 0) {
+      setProfiles(stored.profiles);
     }
   }, []);
 
   useEffect(() => {
-    if (!apiKey) {
+    const minutes = getAutoLockMinutes();
+    if (keyMode !== 'encrypted' || !profiles || minutes === 0) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        console.log(`Locking API keys after ${minutes} minutes of inactivity`);
+        setProfiles(null);
+        setEncryption(null);
+        setManagingProfiles(false);
+      }, minutes * 60 * 1000);
+    };
+
+    restart();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, restart, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, restart));
+    };
+  }, [keyMode, profiles]);
+
+  const organization = activeProfile?.organization;
+  const project = activeProfile?.project;
+  const profileName = activeProfile?.name;
+
+  // A new service per user and profile so subscriptions and caches don't carry over
+  useEffect(() => {
+    if (!serviceKey || (persistence.auth && !userId)) {
       setVideoService(null);
       return;
     }
 
     try {
-      setVideoService(new VideoService(apiKey));
+      const storedConcurrency = Number(localStorage.getItem(REQUEST_CONCURRENCY_STORAGE_KEY));
+      setVideoService(
+        new VideoService(serviceKey, {
+          scheduler: { concurrency: storedConcurrency > 0 ? storedConcurrency : undefined },
+          persistence,
+          organization,
+          project,
+          apiProfile: profileName,
+          ...soraConnection(),
+        })
+      );
     } catch (error) {
       console.error('Failed to initialize video service with provided API key:', error);
       setVideoService(null);
     }
-  }, [apiKey]);
+  }, [serviceKey, userId, organization, project, profileName]);
 
-  const handleApiKeySubmit = (key: string) => {
-    const normalizedKey = normalizeApiKey(key);
+  const handleProfilesSubmit = async (nextProfiles: ApiKeyProfile[], options: SaveProfilesOptions) => {
+    const saved = await saveProfiles(nextProfiles, { ...options, encryption });
+    setKeyMode(saved.stored.mode);
+    setEncryptedProfiles(saved.stored.mode === 'encrypted' ? saved.stored.encrypted : null);
+    setEncryption(saved.encryption);
+    setProfiles(nextProfiles);
+    setManagingProfiles(false);
+  };
 
-    if (!normalizedKey) {
-      localStorage.removeItem('openai_api_key');
-      setApiKey(null);
-      setVideoService(null);
-      return;
-    }
+  const handleUnlock = async (passphrase: string) => {
+    if (!encryptedProfiles) return;
+    const unlocked = await unlockProfiles(encryptedProfiles, passphrase);
+    setEncryption(unlocked.encryption);
+    setProfiles(unlocked.profiles.length > 0 ? unlocked.profiles : null);
+  };
+
+  const handleSwitchProfile = (id: string) => {
+    storeActiveProfileId(id);
+    setActiveProfileId(id);
+  };
 
-    localStorage.setItem('openai_api_key', normalizedKey);
-    setApiKey(normalizedKey);
+  const forgetApiKey = () => {
+    clearStoredProfiles();
+    setKeyMode(null);
+    setEncryptedProfiles(null);
+    setEncryption(null);
+    setProfiles(null);
+    setManagingProfiles(false);
+  };
+
+  const handleSignOut = () => {
+    persistence.auth?.signOut().catch((error) => console.error('Failed to sign out:', error));
   };
 
   const handleLogout = () => {
-    localStorage.removeItem('openai_api_key');
-    setApiKey(null);
+    forgetApiKey();
     setVideoService(null);
     setCurrentPage('generator');
+    handleSignOut();
   };
 
-  if (!apiKey || !videoService) {
-    return <ApiKeyInput onSubmit={handleApiKeySubmit} />;
+  if (persistence.auth && authUser === undefined) {
+    // Reading the stored session is quick; avoid flashing the sign-in form
+    return null;
+  }
+
+  if (persistence.auth && !authUser) {
+    return <SignInForm auth={persistence.auth} />;
+  }
+
+  if (managingProfiles && profiles) {
+    return (
+      <ApiKeyInput
+        onSubmit={handleProfilesSubmit}
+        initialProfiles={profiles}
+        initialMode={keyMode ?? undefined}
+        canKeepPassphrase={!!encryption}
+        onCancel={() => setManagingProfiles(false)}
+      />
+    );
+  }
+
+  if (!serviceKey || !videoService) {
+    if (soraProxyUrl) {
+      return null;
+    }
+    if (encryptedProfiles && !profiles) {
+      return <UnlockApiKey onUnlock={handleUnlock} onForget={forgetApiKey} />;
+    }
+    return (
+      <ApiKeyInput
+        onSubmit={handleProfilesSubmit}
+        signedInAs={authUser?.email ?? undefined}
+        onSignOut={authUser ? handleSignOut : undefined}
+      />
+    );
   }
 
   return (
     <>
-      {currentPage === 'generator' ? (
+      {currentPage === 'compare' ? (
+        <ComparePage videoService={videoService} onNavigate={setCurrentPage} onLogout={handleLogout} />
+      ) : currentPage === 'sequence' ? (
+        <SequencePage videoService={videoService} onNavigate={setCurrentPage} onLogout={handleLogout} />
+      ) : currentPage === 'generator' ? (
         <GeneratorPage
           videoService={videoService}
           onNavigate={setCurrentPage}
           onLogout={handleLogout}
+          profiles={soraProxyUrl ? [] : profiles ?? []}
+          activeProfileId={activeProfile?.id ?? null}
+          onSwitchProfile={handleSwitchProfile}
+          onManageProfiles={soraProxyUrl ? undefined : () => setManagingProfiles(true)}
         />
       ) : (
         <TestPage
@@ -1,18 +1,129 @@
 import { useState } from 'react';
-import { Key, Eye, EyeOff } from 'lucide-react';
+import { Key, Eye, EyeOff, Lock, Plus, Trash2 } from 'lucide-react';
+import {
+  ApiKeyProfile,
+  ApiKeyStorageMode,
+  AUTO_LOCK_CHOICES,
+  createProfile,
+  DEFAULT_AUTO_LOCK_MINUTES,
+  getAutoLockMinutes,
+  SaveProfilesOptions,
+} from '../lib/api-key-storage';
 
 interface ApiKeyInputProps {
-  onSubmit: (apiKey: string) => void;
+  // A blank passphrase with 'encrypted' means "keep the current one"
+  onSubmit: (profiles: ApiKeyProfile[], options: SaveProfilesOptions) => Promise<void>;
+  // Set when editing saved profiles rather than entering the first key
+  initialProfiles?: ApiKeyProfile[];
+  initialMode?: ApiKeyStorageMode;
+  // True while encrypted profiles are unlocked, so the passphrase is optional
+  canKeepPassphrase?: boolean;
+  onCancel?: () => void;
+  signedInAs?: string;
+  onSignOut?: () => void;
 }
 
-export function ApiKeyInput({ onSubmit }: ApiKeyInputProps) {
-  const [apiKey, setApiKey] = useState('');
-  const [showKey, setShowKey] = useState(false);
+const MIN_PASSPHRASE_LENGTH = 8;
 
-  const handleSubmit = (e: React.FormEvent) => {
+const STORAGE_CHOICES: { value: ApiKeyStorageMode; label: string; description: string }[] = [
+  {
+    value: 'encrypted',
+    label: 'Encrypt with a passphrase',
+    description: 'Saved encrypted on this device. You enter the passphrase to unlock it.',
+  },
+  {
+    value: 'session',
+    label: 'Forget when this tab closes',
+    description: 'Kept in session storage only; nothing stays on the device.',
+  },
+  {
+    value: 'plain',
+    label: 'Remember on this device',
+    description: 'Saved unencrypted in local storage. Anyone with access to this browser can read it.',
+  },
+];
+
+export function ApiKeyInput({
+  onSubmit,
+  initialProfiles,
+  initialMode,
+  canKeepPassphrase = false,
+  onCancel,
+  signedInAs,
+  onSignOut,
+}: ApiKeyInputProps) {
+  const [profiles, setProfiles] = useState<ApiKeyProfile[]>(
+    initialProfiles && initialProfiles.length > 0 ? initialProfiles : [createProfile({ name: 'Default' })]
+  );
+  const [visibleKeys, setVisibleKeys] = useState<Set<string>>(new Set());
+  const [storageMode, setStorageMode] = useState<ApiKeyStorageMode>(initialMode || 'encrypted');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [autoLockMinutes, setAutoLockMinutes] = useState(
+    initialMode === 'encrypted' ? getAutoLockMinutes() : DEFAULT_AUTO_LOCK_MINUTES
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const keepPassphrase = canKeepPassphrase && storageMode === 'encrypted' && !passphrase;
+
+  const updateProfile = (id: string, fields: Partial<ApiKeyProfile>) => {
+    setProfiles((prev) => prev.map((profile) => (profile.id === id ? { ...profile, ...fields } : profile)));
+  };
+
+  const toggleKeyVisibility = (id: string) => {
+    setVisibleKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (apiKey.trim()) {
-      onSubmit(apiKey.trim());
+
+    const cleaned = profiles.map((profile) => ({
+      ...profile,
+      name: profile.name.trim(),
+      apiKey: profile.apiKey.trim(),
+      organization: profile.organization?.trim() || undefined,
+      project: profile.project?.trim() || undefined,
+    }));
+    if (cleaned.some((profile) => !profile.name || !profile.apiKey)) {
+      setError('Every profile needs a name and an API key');
+      return;
+    }
+    if (new Set(cleaned.map((profile) => profile.name.toLowerCase())).size !== cleaned.length) {
+      setError('Profile names must be unique');
+      return;
+    }
+
+    if (storageMode === 'encrypted' && !keepPassphrase) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setError('The passphrases do not match');
+        return;
+      }
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit(cleaned, {
+        mode: storageMode,
+        passphrase: storageMode === 'encrypted' && passphrase ? passphrase : undefined,
+        autoLockMinutes: storageMode === 'encrypted' ? autoLockMinutes : undefined,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the API keys');
+      setSaving(false);
     }
   };
 
@@ -27,44 +138,172 @@ export function ApiKeyInput({ onSubmit }: ApiKeyInputProps) {
             Sora 2 Video Generator
           </h1>
           <p className="text-gray-600">
-            Enter your OpenAI API key to get started
+            {initialProfiles ? 'Manage your OpenAI API key profiles' : 'Enter your OpenAI API key to get started'}
           </p>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
-          <div>
-            <label htmlFor="apiKey" className="block text-sm font-medium text-gray-700 mb-2">
-              OpenAI API Key
-            </label>
-            <div className="relative">
-              <input
-                id="apiKey"
-                type={showKey ? 'text' : 'password'}
-                value={apiKey}
-                onChange={(e) => setApiKey(e.target.value)}
-                placeholder="sk-..."
-                className="w-full px-4 py-3 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-                required
-              />
-              <button
-                type="button"
-                onClick={() => setShowKey(!showKey)}
-                className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
-              >
-                {showKey ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-              </button>
-            </div>
-            <p className="mt-2 text-xs text-gray-500">
-              Your API key is stored locally and never sent to our servers
+          <div className="space-y-4">
+            {profiles.map((profile, index) => (
+              <div key={profile.id} className="p-4 border border-gray-200 rounded-lg space-y-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    aria-label="Profile name"
+                    value={profile.name}
+                    onChange={(e) => updateProfile(profile.id, { name: e.target.value })}
+                    placeholder={index === 0 ? 'Personal' : 'Project name'}
+                    className="flex-1 px-3 py-2 text-sm font-medium border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    required
+                  />
+                  {profiles.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setProfiles((prev) => prev.filter((p) => p.id !== profile.id))}
+                      className="p-2 text-gray-400 hover:text-red-600"
+                      title="Remove profile"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                <div className="relative">
+                  <input
+                    aria-label="OpenAI API Key"
+                    type={visibleKeys.has(profile.id) ? 'text' : 'password'}
+                    value={profile.apiKey}
+                    onChange={(e) => updateProfile(profile.id, { apiKey: e.target.value })}
+                    placeholder="sk-..."
+                    className="w-full px-4 py-3 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                    required
+                  />
+                  <button
+                    type="button"
+                    onClick={() => toggleKeyVisibility(profile.id)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
+                  >
+                    {visibleKeys.has(profile.id) ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                  </button>
+                </div>
+                <div className="grid md:grid-cols-2 gap-3">
+                  <input
+                    aria-label="OpenAI organization"
+                    value={profile.organization || ''}
+                    onChange={(e) => updateProfile(profile.id, { organization: e.target.value })}
+                    placeholder="Organization (org-..., optional)"
+                    className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <input
+                    aria-label="OpenAI project"
+                    value={profile.project || ''}
+                    onChange={(e) => updateProfile(profile.id, { project: e.target.value })}
+                    placeholder="Project (proj_..., optional)"
+                    className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setProfiles((prev) => [...prev, createProfile()])}
+              className="flex items-center gap-1.5 text-sm text-blue-700 hover:text-blue-900"
+            >
+              <Plus className="w-4 h-4" />
+              Add profile
+            </button>
+            <p className="text-xs text-gray-500">
+              Your API keys are stored locally and never sent to our servers
             </p>
           </div>
 
+          <fieldset className="space-y-2">
+            <legend className="block text-sm font-medium text-gray-700 mb-2">Storage</legend>
+            {STORAGE_CHOICES.map((choice) => (
+              <label
+                key={choice.value}
+                className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer transition-colors ${
+                  storageMode === choice.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="storageMode"
+                  value={choice.value}
+                  checked={storageMode === choice.value}
+                  onChange={() => setStorageMode(choice.value)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-800">{choice.label}</span>
+                  <span className="block text-xs text-gray-500">{choice.description}</span>
+                </span>
+              </label>
+            ))}
+          </fieldset>
+
+          {storageMode === 'encrypted' && (
+            <div className="grid md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="passphrase" className="block text-sm font-medium text-gray-700 mb-2">
+                  Passphrase
+                </label>
+                <input
+                  id="passphrase"
+                  type="password"
+                  autoComplete="new-password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder={canKeepPassphrase ? 'Leave blank to keep the current one' : undefined}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  required={!canKeepPassphrase}
+                />
+              </div>
+              <div>
+                <label htmlFor="confirmPassphrase" className="block text-sm font-medium text-gray-700 mb-2">
+                  Confirm passphrase
+                </label>
+                <input
+                  id="confirmPassphrase"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                  required={!keepPassphrase}
+                />
+              </div>
+              <label className="md:col-span-2 flex items-center gap-2 text-sm text-gray-700">
+                <Lock className="w-4 h-4 text-gray-500" />
+                Lock after
+                <select
+                  value={autoLockMinutes}
+                  onChange={(e) => setAutoLockMinutes(Number(e.target.value))}
+                  className="border border-gray-200 rounded-lg px-2 py-1"
+                >
+                  {AUTO_LOCK_CHOICES.map((minutes) => (
+                    <option key={minutes} value={minutes}>
+                      {minutes === 0 ? 'never' : `${minutes} minutes idle`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
           <button
             type="submit"
-            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-4 px-6 rounded-lg transition-all shadow-lg hover:shadow-xl"
+            disabled={saving}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white font-medium py-4 px-6 rounded-lg transition-all shadow-lg hover:shadow-xl"
           >
-            Continue
+            {saving && storageMode === 'encrypted' ? 'Encrypting…' : initialProfiles ? 'Save profiles' : 'Continue'}
           </button>
+
+          {onCancel && (
+            <button type="button" onClick={onCancel} className="w-full text-sm text-gray-500 hover:text-gray-700">
+              Cancel
+            </button>
+          )}
         </form>
 
         <div className="mt-8 p-4 bg-blue-50 rounded-lg">
@@ -82,6 +321,15 @@ export function ApiKeyInput({ onSubmit }: ApiKeyInputProps) {
             . Note: Sora 2 API access requires an invitation from OpenAI.
           </p>
         </div>
+
+        {onSignOut && (
+          <p className="mt-6 text-center text-sm text-gray-500">
+            Signed in{signedInAs ? ` as ${signedInAs}` : ''}.{' '}
+            <button type="button" onClick={onSignOut} className="text-blue-700 hover:text-blue-900 underline">
+              Sign out
+            </button>
+          </p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { KeyRound, ChevronDown, Check, Settings } from 'lucide-react';
+import { ApiKeyProfile } from '../lib/api-key-storage';
+
+interface ApiProfileSwitcherProps {
+  profiles: ApiKeyProfile[];
+  activeProfileId: string | null;
+  onSwitch: (id: string) => void;
+  onManage?: () => void;
+}
+
+// Renders nothing when there are no profiles, e.g. in proxy mode
+export function ApiProfileSwitcher({ profiles, activeProfileId, onSwitch, onManage }: ApiProfileSwitcherProps) {
+  const [open, setOpen] = useState(false);
+  const active = profiles.find((profile) => profile.id === activeProfileId) ?? profiles[0];
+
+  if (!active) {
+    return null;
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg text-sm transition-colors"
+        title="API key used for new generations"
+      >
+        <KeyRound className="w-4 h-4" />
+        <span className="font-medium max-w-[10rem] truncate">{active.name}</span>
+        <ChevronDown className={`w-3.5 h-3.5 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 bg-white border border-gray-200 rounded-xl shadow-xl z-20 py-1">
+          {profiles.map((profile) => (
+            <button
+              key={profile.id}
+              onClick={() => {
+                setOpen(false);
+                if (profile.id !== active.id) onSwitch(profile.id);
+              }}
+              className="w-full px-4 py-2 flex items-center gap-2 text-left text-sm hover:bg-gray-50"
+            >
+              <Check className={`w-4 h-4 shrink-0 ${profile.id === active.id ? 'text-blue-600' : 'invisible'}`} />
+              <span className="min-w-0">
+                <span className="block font-medium text-gray-700 truncate">{profile.name}</span>
+                {(profile.organization || profile.project) && (
+                  <span className="block text-xs text-gray-500 truncate">
+                    {[profile.organization, profile.project].filter(Boolean).join(' · ')}
+                  </span>
+                )}
+              </span>
+            </button>
+          ))}
+          {onManage && (
+            <button
+              onClick={() => {
+                setOpen(false);
+                onManage();
+              }}
+              className="w-full px-4 py-2 flex items-center gap-2 text-left text-sm text-gray-600 border-t border-gray-100 hover:bg-gray-50"
+            >
+              <Settings className="w-4 h-4" />
+              Manage profiles…
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,534 @@
+import { useState, useMemo } from 'react';
+import { Layers, FileText, Table, Braces, Image, Upload, CheckCircle, XCircle, AlertTriangle, X } from 'lucide-react';
+import {
+  SoraModel,
+  Resolution,
+  VideoDuration,
+  RESOLUTION_OPTIONS,
+  DURATION_OPTIONS,
+  MODEL_OPTIONS,
+} from '../lib/sora-api';
+import { BatchInputFormat, BatchRow, parseBatchInput, parseTemplateBatch } from '../lib/batch-parser';
+import { PromptTemplate, VideoGeneration } from '../lib/supabase';
+import { extractTemplateVariables } from '../lib/prompt-templates';
+import { PricingModel, formatCost } from '../lib/pricing';
+
+export interface BatchJob {
+  prompt: string;
+  model: SoraModel;
+  resolution: Resolution;
+  duration: VideoDuration;
+  imageFile?: File;
+}
+
+interface BatchRowResult {
+  row: number;
+  prompt: string;
+  status: 'queued' | 'failed' | 'skipped';
+  message: string;
+}
+
+interface BatchGenerationFormProps {
+  onSubmitRow: (job: BatchJob) => Promise<VideoGeneration>;
+  isGenerating: boolean;
+  onBatchStateChange?: (isRunning: boolean) => void;
+  pricing?: PricingModel | null;
+  // Enables the template format; omitted when the backend can't store templates
+  templates?: PromptTemplate[];
+}
+
+const CSV_PLACEHOLDER = `prompt,model,resolution,duration,image
+"A red fox trotting through fresh snow, tracking shot",sora-2,1280x720,8,
+"Aerial view of a lighthouse at dusk",sora-2-pro,1792x1024,12,lighthouse.jpg`;
+
+const LINES_PLACEHOLDER = `A red fox trotting through fresh snow, tracking shot
+Aerial view of a lighthouse at dusk
+Macro shot of coffee being poured into a glass cup`;
+
+export function BatchGenerationForm({
+  onSubmitRow,
+  isGenerating,
+  onBatchStateChange,
+  pricing,
+  templates,
+}: BatchGenerationFormProps) {
+  const [format, setFormat] = useState<BatchInputFormat>('lines');
+  const [input, setInput] = useState('');
+  const [model, setModel] = useState<SoraModel>('sora-2');
+  const [resolution, setResolution] = useState<Resolution>('1280x720');
+  const [duration, setDuration] = useState<VideoDuration>(4);
+  const [images, setImages] = useState<Map<string, File>>(new Map());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [results, setResults] = useState<BatchRowResult[] | null>(null);
+  const [templateId, setTemplateId] = useState('');
+
+  const availableResolutions = RESOLUTION_OPTIONS.filter((option) => option.model.includes(model));
+  const template = templates?.find((t) => t.id === templateId) ?? null;
+  const templateVariables = useMemo(() => (template ? extractTemplateVariables(template.prompt) : []), [template]);
+
+  const rows = useMemo<BatchRow[]>(() => {
+    const defaults = { model, resolution, duration };
+    const availableImages = new Set(images.keys());
+    if (format === 'template') {
+      return template ? parseTemplateBatch(template.prompt, input, defaults, availableImages) : [];
+    }
+    return parseBatchInput(input, format, defaults, availableImages);
+  }, [input, format, template, model, resolution, duration, images]);
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const invalidCount = rows.length - validRows.length;
+  const estimatedTotal = pricing
+    ? validRows.reduce((sum, row) => sum + (pricing.estimate(row.model, row.resolution, row.duration) ?? 0), 0)
+    : null;
+
+  const handleModelChange = (value: SoraModel) => {
+    setModel(value);
+    const option = RESOLUTION_OPTIONS.find((o) => o.value === resolution);
+    if (option && !option.model.includes(value)) {
+      setResolution('1280x720');
+    }
+  };
+
+  // The template's saved settings become the defaults for every row
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const selected = templates?.find((t) => t.id === id);
+    if (!selected) return;
+
+    setModel(selected.model);
+    setResolution(selected.resolution as Resolution);
+    setDuration(selected.duration as VideoDuration);
+    if (!input.trim()) {
+      setInput(`${extractTemplateVariables(selected.prompt).join(',')}\n`);
+    }
+  };
+
+  const handleCsvFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setInput(await file.text());
+    if (format !== 'template') {
+      setFormat('csv');
+    }
+    setResults(null);
+  };
+
+  const handleImageFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    const oversized = files.filter((file) => file.size > 50 * 1024 * 1024);
+    if (oversized.length > 0) {
+      alert(`Images must be less than 50MB: ${oversized.map((f) => f.name).join(', ')}`);
+    }
+
+    setImages((prev) => {
+      const next = new Map(prev);
+      files
+        .filter((file) => file.size <= 50 * 1024 * 1024)
+        .forEach((file) => next.set(file.name, file));
+      return next;
+    });
+  };
+
+  const handleRemoveImage = (name: string) => {
+    setImages((prev) => {
+      const next = new Map(prev);
+      next.delete(name);
+      return next;
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (validRows.length === 0) return;
+
+    setIsSubmitting(true);
+    onBatchStateChange?.(true);
+    setProgress({ done: 0, total: validRows.length });
+
+    const rowResults: BatchRowResult[] = rows
+      .filter((row) => row.errors.length > 0)
+      .map((row) => ({
+        row: row.row,
+        prompt: row.prompt,
+        status: 'skipped',
+        message: row.errors.join('; '),
+      }));
+
+    // Rows are submitted one at a time so a bad row never takes the rest down
+    for (const [index, row] of validRows.entries()) {
+      try {
+        const generation = await onSubmitRow({
+          prompt: row.prompt,
+          model: row.model,
+          resolution: row.resolution,
+          duration: row.duration,
+          imageFile: row.imageFilename ? images.get(row.imageFilename) : undefined,
+        });
+        rowResults.push({
+          row: row.row,
+          prompt: row.prompt,
+          status: generation.status === 'failed' ? 'failed' : 'queued',
+          message: generation.error_message || `Generation ${generation.id.slice(0, 8)} ${generation.status}`,
+        });
+      } catch (error) {
+        rowResults.push({
+          row: row.row,
+          prompt: row.prompt,
+          status: 'failed',
+          message: error instanceof Error ? error.message : 'Failed to start video generation',
+        });
+      }
+      setProgress({ done: index + 1, total: validRows.length });
+    }
+
+    setResults(rowResults.sort((a, b) => a.row - b.row));
+    setIsSubmitting(false);
+    onBatchStateChange?.(false);
+    setProgress(null);
+  };
+
+  const handleReset = () => {
+    setInput('');
+    setImages(new Map());
+    setResults(null);
+  };
+
+  const disabled = isGenerating || isSubmitting;
+
+  if (results) {
+    const queued = results.filter((r) => r.status === 'queued').length;
+    const failed = results.filter((r) => r.status === 'failed').length;
+    const skipped = results.filter((r) => r.status === 'skipped').length;
+
+    return (
+      <div className="space-y-6">
+        <div className="grid grid-cols-3 gap-4">
+          <div className="p-4 bg-green-50 rounded-lg border border-green-100">
+            <p className="text-2xl font-bold text-green-700">{queued}</p>
+            <p className="text-xs font-medium text-green-700 uppercase tracking-wide">Queued</p>
+          </div>
+          <div className="p-4 bg-red-50 rounded-lg border border-red-100">
+            <p className="text-2xl font-bold text-red-700">{failed}</p>
+            <p className="text-xs font-medium text-red-700 uppercase tracking-wide">Failed</p>
+          </div>
+          <div className="p-4 bg-amber-50 rounded-lg border border-amber-100">
+            <p className="text-2xl font-bold text-amber-700">{skipped}</p>
+            <p className="text-xs font-medium text-amber-700 uppercase tracking-wide">Skipped</p>
+          </div>
+        </div>
+
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs uppercase tracking-wide text-gray-500">
+              <tr>
+                <th className="px-4 py-2 w-16">Line</th>
+                <th className="px-4 py-2">Prompt</th>
+                <th className="px-4 py-2">Result</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {results.map((result) => (
+                <tr key={result.row}>
+                  <td className="px-4 py-2 text-gray-500">{result.row}</td>
+                  <td className="px-4 py-2 text-gray-800 max-w-xs truncate" title={result.prompt}>
+                    {result.prompt || <span className="italic text-gray-400">empty</span>}
+                  </td>
+                  <td className="px-4 py-2">
+                    <span
+                      className={`flex items-center gap-1.5 ${
+                        result.status === 'queued'
+                          ? 'text-green-700'
+                          : result.status === 'failed'
+                          ? 'text-red-600'
+                          : 'text-amber-700'
+                      }`}
+                    >
+                      {result.status === 'queued' ? (
+                        <CheckCircle className="w-4 h-4 flex-shrink-0" />
+                      ) : result.status === 'failed' ? (
+                        <XCircle className="w-4 h-4 flex-shrink-0" />
+                      ) : (
+                        <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                      )}
+                      <span className="text-xs">{result.message}</span>
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <button
+          type="button"
+          onClick={handleReset}
+          className="w-full bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium py-3 px-6 rounded-lg transition-colors"
+        >
+          Start Another Batch
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <div className="inline-flex bg-gray-100 rounded-lg p-1">
+            <button
+              type="button"
+              onClick={() => setFormat('lines')}
+              disabled={disabled}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                format === 'lines' ? 'bg-white shadow text-gray-900' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <FileText className="w-4 h-4" />
+              Prompt list
+            </button>
+            <button
+              type="button"
+              onClick={() => setFormat('csv')}
+              disabled={disabled}
+              className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                format === 'csv' ? 'bg-white shadow text-gray-900' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <Table className="w-4 h-4" />
+              CSV
+            </button>
+            {templates && (
+              <button
+                type="button"
+                onClick={() => setFormat('template')}
+                disabled={disabled}
+                className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                  format === 'template' ? 'bg-white shadow text-gray-900' : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                <Braces className="w-4 h-4" />
+                Template
+              </button>
+            )}
+          </div>
+          <label className="flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-700 cursor-pointer">
+            <Upload className="w-4 h-4" />
+            Load CSV file
+            <input type="file" accept=".csv,text/csv" onChange={handleCsvFile} disabled={disabled} className="hidden" />
+          </label>
+        </div>
+        {format === 'template' && templates && (
+          <div className="mb-2">
+            <select
+              value={templateId}
+              onChange={(e) => handleTemplateChange(e.target.value)}
+              disabled={disabled}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">
+                {templates.length > 0 ? 'Choose a template…' : 'Save a template from the single video form first'}
+              </option>
+              {templates.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+            {template && (
+              <p className="mt-1 text-xs text-gray-600 font-mono truncate" title={template.prompt}>
+                {template.prompt}
+              </p>
+            )}
+          </div>
+        )}
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={
+            format === 'template'
+              ? templateVariables.length > 0
+                ? `${templateVariables.join(',')}\n${templateVariables.map((name) => `${name} 1`).join(',')}`
+                : 'Choose a template with {placeholders}'
+              : format === 'csv'
+              ? CSV_PLACEHOLDER
+              : LINES_PLACEHOLDER
+          }
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y transition-all font-mono text-sm"
+          rows={6}
+          disabled={disabled}
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          {format === 'template'
+            ? 'One row of placeholder values per video, with the placeholder names as the header. Optional model, resolution, duration and image columns override the template\'s settings.'
+            : format === 'csv'
+            ? 'Columns: prompt, model, resolution, duration, image. Only prompt is required; empty cells use the defaults below.'
+            : 'One prompt per line. Every prompt uses the defaults below.'}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="batch-model" className="block text-sm font-medium text-gray-700 mb-2">
+            Default model
+          </label>
+          <select
+            id="batch-model"
+            value={model}
+            onChange={(e) => handleModelChange(e.target.value as SoraModel)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            disabled={disabled}
+          >
+            {MODEL_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="batch-resolution" className="block text-sm font-medium text-gray-700 mb-2">
+            Default resolution
+          </label>
+          <select
+            id="batch-resolution"
+            value={resolution}
+            onChange={(e) => setResolution(e.target.value as Resolution)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            disabled={disabled}
+          >
+            {availableResolutions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="batch-duration" className="block text-sm font-medium text-gray-700 mb-2">
+            Default duration
+          </label>
+          <select
+            id="batch-duration"
+            value={duration}
+            onChange={(e) => setDuration(Number(e.target.value) as VideoDuration)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            disabled={disabled}
+          >
+            {DURATION_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {format !== 'lines' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            <Image className="inline w-4 h-4 mr-1" />
+            Starting images referenced by the CSV
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            {Array.from(images.keys()).map((name) => (
+              <span
+                key={name}
+                className="inline-flex items-center gap-1 pl-3 pr-1 py-1 bg-gray-100 rounded-full text-xs text-gray-700"
+              >
+                {name}
+                <button
+                  type="button"
+                  onClick={() => handleRemoveImage(name)}
+                  disabled={disabled}
+                  className="p-0.5 hover:bg-gray-200 rounded-full"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            <label className="inline-flex items-center gap-1 px-3 py-1 border border-dashed border-gray-300 rounded-full text-xs text-gray-600 hover:bg-gray-50 cursor-pointer">
+              <Upload className="w-3 h-3" />
+              Add images
+              <input
+                type="file"
+                accept="image/jpeg,image/jpg,image/png,image/webp"
+                multiple
+                onChange={handleImageFiles}
+                disabled={disabled}
+                className="hidden"
+              />
+            </label>
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            Images are matched to rows by file name and resized to each row's resolution.
+          </p>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-medium text-gray-700">Preview</h3>
+            <span className="text-xs text-gray-500">
+              {validRows.length} ready
+              {estimatedTotal !== null && validRows.length > 0 && (
+                <span> · est. {formatCost(estimatedTotal)}</span>
+              )}
+              {invalidCount > 0 && <span className="text-red-600"> · {invalidCount} with errors will be skipped</span>}
+            </span>
+          </div>
+          <div className="border border-gray-200 rounded-lg overflow-hidden max-h-80 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs uppercase tracking-wide text-gray-500 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 w-12">Line</th>
+                  <th className="px-3 py-2">Prompt</th>
+                  <th className="px-3 py-2">Model</th>
+                  <th className="px-3 py-2">Resolution</th>
+                  <th className="px-3 py-2">Duration</th>
+                  <th className="px-3 py-2">Image</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {rows.map((row) => (
+                  <tr key={row.row} className={row.errors.length > 0 ? 'bg-red-50' : ''}>
+                    <td className="px-3 py-2 text-gray-500 align-top">{row.row}</td>
+                    <td className="px-3 py-2 align-top">
+                      <p className="text-gray-800 line-clamp-2" title={row.prompt}>
+                        {row.prompt || <span className="italic text-gray-400">empty</span>}
+                      </p>
+                      {row.errors.map((error) => (
+                        <p key={error} className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                          <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                          {error}
+                        </p>
+                      ))}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600 align-top whitespace-nowrap">{row.model}</td>
+                    <td className="px-3 py-2 text-gray-600 align-top">{row.resolution}</td>
+                    <td className="px-3 py-2 text-gray-600 align-top">{row.duration}s</td>
+                    <td className="px-3 py-2 text-gray-600 align-top text-xs">{row.imageFilename || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleSubmit}
+        disabled={validRows.length === 0 || disabled}
+        className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-4 px-6 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg hover:shadow-xl"
+      >
+        <Layers className="w-5 h-5" />
+        {progress
+          ? `Queuing ${progress.done} of ${progress.total}...`
+          : `Queue ${validRows.length} Video${validRows.length === 1 ? '' : 's'}`}
+      </button>
+    </div>
+  );
+}
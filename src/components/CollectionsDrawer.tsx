@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowLeft, ArrowUp, Library, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Collection, VideoGeneration } from '../lib/supabase';
+import { VideoService } from '../lib/video-service';
+
+interface CollectionsDrawerProps {
+  videoService: VideoService;
+  collections: Collection[];
+  onCreate: (name: string) => Promise<void>;
+  onRename: (collection: Collection, name: string) => Promise<void>;
+  onDelete: (collection: Collection) => Promise<void>;
+  onReorder: (collection: Collection, generationIds: string[]) => Promise<void>;
+  onClose: () => void;
+}
+
+export function CollectionsDrawer({
+  videoService,
+  collections,
+  onCreate,
+  onRename,
+  onDelete,
+  onReorder,
+  onClose,
+}: CollectionsDrawerProps) {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [items, setItems] = useState<VideoGeneration[] | null>(null);
+  const open = collections.find((c) => c.id === openId) ?? null;
+
+  // Reloaded whenever the contents change, including from a history card
+  useEffect(() => {
+    if (!open) {
+      setItems(null);
+      return;
+    }
+    let cancelled = false;
+    videoService
+      .listCollectionGenerations(open)
+      .then((generations) => !cancelled && setItems(generations))
+      .catch((error) => {
+        console.error('[CollectionsDrawer] Failed to load collection:', error);
+        if (!cancelled) setItems([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [videoService, open]);
+
+  const handleCreate = async () => {
+    const name = window.prompt('Collection name')?.trim();
+    if (name) await onCreate(name);
+  };
+
+  const handleRename = async (collection: Collection) => {
+    const name = window.prompt('Collection name', collection.name)?.trim();
+    if (name && name !== collection.name) await onRename(collection, name);
+  };
+
+  const handleDelete = async (collection: Collection) => {
+    if (!confirm(`Delete the collection "${collection.name}"? The videos in it are kept.`)) return;
+    await onDelete(collection);
+    if (collection.id === openId) setOpenId(null);
+  };
+
+  // Works on the loaded rows, so ids of deleted videos drop out too
+  const move = (collection: Collection, loaded: VideoGeneration[], index: number, offset: number) => {
+    const ids = loaded.map((g) => g.id);
+    const [id] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, id);
+    onReorder(collection, ids);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/20" onClick={onClose} />
+      <aside className="relative w-full max-w-md h-full bg-white shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200">
+          <div className="flex items-center gap-2 min-w-0">
+            {open ? (
+              <button
+                type="button"
+                onClick={() => setOpenId(null)}
+                className="p-1 text-gray-500 hover:text-gray-700 rounded"
+                title="All collections"
+              >
+                <ArrowLeft className="w-5 h-5" />
+              </button>
+            ) : (
+              <Library className="w-5 h-5 text-gray-700" />
+            )}
+            <h2 className="text-lg font-semibold text-gray-800 truncate">{open ? open.name : 'Collections'}</h2>
+          </div>
+          <button type="button" onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 rounded">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {open ? (
+          <div className="flex-1 overflow-y-auto divide-y divide-gray-100">
+            {items === null ? (
+              <p className="px-5 py-6 text-sm text-gray-500 text-center">Loading…</p>
+            ) : items.length === 0 ? (
+              <p className="px-5 py-6 text-sm text-gray-500 text-center">
+                Add videos with "Add to collection" on their history cards
+              </p>
+            ) : (
+              items.map((generation, index) => (
+                <div key={generation.id} className="px-5 py-3 flex items-center gap-3">
+                  <span className="w-5 text-xs text-gray-400 text-right">{index + 1}</span>
+                  {generation.thumbnail_url ? (
+                    <img src={generation.thumbnail_url} alt="" className="w-16 h-9 object-cover rounded bg-black" />
+                  ) : (
+                    <div className="w-16 h-9 rounded bg-gray-100" />
+                  )}
+                  <p className="flex-1 min-w-0 text-sm text-gray-800 line-clamp-2">{generation.prompt}</p>
+                  <div className="flex items-center">
+                    <button
+                      type="button"
+                      onClick={() => move(open, items, index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => move(open, items, index, 1)}
+                      disabled={index === items.length - 1}
+                      className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onReorder(open, open.generation_ids.filter((id) => id !== generation.id))}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="Remove from collection"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto divide-y divide-gray-100">
+              {collections.length === 0 ? (
+                <p className="px-5 py-6 text-sm text-gray-500 text-center">
+                  Collections are ordered sets of videos, like final picks for a client
+                </p>
+              ) : (
+                collections.map((collection) => (
+                  <div key={collection.id} className="px-5 py-3 flex items-center gap-3 hover:bg-gray-50">
+                    <button
+                      type="button"
+                      onClick={() => setOpenId(collection.id)}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <p className="text-sm font-medium text-gray-800 truncate">{collection.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {collection.generation_ids.length} video{collection.generation_ids.length === 1 ? '' : 's'}
+                      </p>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRename(collection)}
+                      className="p-1 text-gray-400 hover:text-gray-700"
+                      title="Rename"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(collection)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="Delete collection"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+            <div className="px-5 py-4 border-t border-gray-200">
+              <button
+                type="button"
+                onClick={handleCreate}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                New collection
+              </button>
+            </div>
+          </>
+        )}
+      </aside>
+    </div>
+  );
+}
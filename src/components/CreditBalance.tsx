@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import { Wallet, ChevronDown } from 'lucide-react';
+import { VideoService } from '../lib/video-service';
+import { CreditAccount, CreditTransaction, CreditTransactionType } from '../lib/supabase';
+import { formatCost } from '../lib/pricing';
+
+interface CreditBalanceProps {
+  videoService: VideoService;
+  // Bump to reload, e.g. when a generation is submitted or finishes
+  refreshKey?: string | number;
+}
+
+const TRANSACTION_LABELS: Record<CreditTransactionType, string> = {
+  credit: 'Credit',
+  reservation: 'Reserved',
+  settlement: 'Settled',
+  refund: 'Refund',
+  adjustment: 'Adjustment',
+};
+
+const HISTORY_LIMIT = 20;
+
+// Renders nothing unless the signed-in user has a credit account
+export function CreditBalance({ videoService, refreshKey }: CreditBalanceProps) {
+  const [account, setAccount] = useState<CreditAccount | null>(null);
+  const [transactions, setTransactions] = useState<CreditTransaction[]>([]);
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    videoService
+      .getCreditAccount()
+      .then(async (data) => {
+        const history = data && open ? await videoService.listCreditTransactions(HISTORY_LIMIT) : [];
+        if (cancelled) return;
+        setAccount(data);
+        setTransactions(history);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error('[CreditBalance] Failed to load credits:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load credits');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [videoService, refreshKey, open]);
+
+  if (!account) {
+    return null;
+  }
+
+  const balance = Number(account.balance);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+          balance <= 0 ? 'bg-red-50 text-red-700 hover:bg-red-100' : 'bg-gray-100 hover:bg-gray-200'
+        }`}
+        title="Credits available for new generations"
+      >
+        <Wallet className="w-4 h-4" />
+        <span className="font-medium">{formatCost(balance)}</span>
+        <ChevronDown className={`w-3.5 h-3.5 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-96 bg-white border border-gray-200 rounded-xl shadow-xl z-20">
+          <div className="px-4 py-3 border-b border-gray-100">
+            <p className="text-xs text-gray-500">Available balance</p>
+            <p className="text-lg font-semibold text-gray-800">{formatCost(balance)}</p>
+          </div>
+          {error && <p className="px-4 py-2 text-sm text-red-600">{error}</p>}
+          <div className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+            {transactions.length === 0 ? (
+              <p className="px-4 py-3 text-sm text-gray-500">No transactions yet</p>
+            ) : (
+              transactions.map((transaction) => {
+                const amount = Number(transaction.amount);
+                return (
+                  <div key={transaction.id} className="px-4 py-2 flex items-center justify-between gap-3 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-700">{TRANSACTION_LABELS[transaction.type]}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {new Date(transaction.created_at).toLocaleString()}
+                        {transaction.description ? ` · ${transaction.description}` : ''}
+                      </p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className={amount < 0 ? 'text-red-600' : 'text-green-600'}>
+                        {amount < 0 ? '−' : '+'}
+                        {formatCost(Math.abs(amount))}
+                      </p>
+                      <p className="text-xs text-gray-400">{formatCost(Number(transaction.balance_after))}</p>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Folder, Library, Tag, X } from 'lucide-react';
+import { Collection, Project, VideoGeneration } from '../lib/supabase';
+import { MAX_TAG_LENGTH, normalizeTag } from '../lib/generation-tags';
+
+interface GenerationOrganizerProps {
+  generation: VideoGeneration;
+  onSetTags?: (generation: VideoGeneration, tags: string[]) => void;
+  // Clicking a tag filters the history by it
+  onSelectTag?: (tag: string) => void;
+  // Omitted when the backend has no projects or collections
+  projects?: Project[];
+  onSetProject?: (generation: VideoGeneration, projectId: string | null) => void;
+  collections?: Collection[];
+  onToggleCollection?: (collection: Collection, generation: VideoGeneration) => void;
+}
+
+// Project, tags and collections of a history card
+export function GenerationOrganizer({
+  generation,
+  onSetTags,
+  onSelectTag,
+  projects,
+  onSetProject,
+  collections,
+  onToggleCollection,
+}: GenerationOrganizerProps) {
+  const [newTag, setNewTag] = useState('');
+  const [showCollections, setShowCollections] = useState(false);
+  const tags = generation.tags ?? [];
+
+  const addTag = () => {
+    const tag = normalizeTag(newTag);
+    setNewTag('');
+    if (tag && onSetTags && !tags.includes(tag)) {
+      onSetTags(generation, [...tags, tag]);
+    }
+  };
+
+  const memberships = collections?.filter((c) => c.generation_ids.includes(generation.id)).length ?? 0;
+
+  return (
+    <div className="mt-4 space-y-2">
+      {(projects && onSetProject) || (collections && onToggleCollection) ? (
+        <div className="flex items-center gap-2">
+          {projects && onSetProject && (
+            <label className="flex items-center gap-1.5 text-xs text-gray-600">
+              <Folder className="w-3.5 h-3.5" />
+              <select
+                value={generation.project_id ?? ''}
+                onChange={(e) => onSetProject(generation, e.target.value || null)}
+                className="px-2 py-1 text-xs border border-gray-200 rounded-lg bg-white"
+                title="Project"
+              >
+                <option value="">No project</option>
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {collections && onToggleCollection && (
+            <div className="relative">
+              <button
+                type="button"
+                onClick={() => setShowCollections(!showCollections)}
+                className="flex items-center gap-1.5 px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <Library className="w-3.5 h-3.5" />
+                {memberships > 0 ? `In ${memberships} collection${memberships === 1 ? '' : 's'}` : 'Add to collection'}
+              </button>
+              {showCollections && (
+                <div className="absolute left-0 top-full mt-1 z-20 w-56 bg-white border border-gray-200 rounded-lg shadow-xl py-1">
+                  {collections.length === 0 ? (
+                    <p className="px-3 py-2 text-xs text-gray-500">Create a collection from Collections in the nav</p>
+                  ) : (
+                    collections.map((collection) => (
+                      <label
+                        key={collection.id}
+                        className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={collection.generation_ids.includes(generation.id)}
+                          onChange={() => onToggleCollection(collection, generation)}
+                        />
+                        <span className="truncate">{collection.name}</span>
+                      </label>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      ) : null}
+
+      {(tags.length > 0 || onSetTags) && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Tag className="w-3.5 h-3.5 text-gray-400" />
+          {tags.map((tag) => (
+            <span
+              key={tag}
+              className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-gray-100 text-gray-700 rounded-full text-xs"
+            >
+              <button
+                type="button"
+                onClick={() => onSelectTag?.(tag)}
+                disabled={!onSelectTag}
+                className="hover:underline disabled:no-underline"
+                title={onSelectTag ? `Show videos tagged "${tag}"` : undefined}
+              >
+                {tag}
+              </button>
+              {onSetTags && (
+                <button
+                  type="button"
+                  onClick={() => onSetTags(generation, tags.filter((t) => t !== tag))}
+                  className="text-gray-400 hover:text-gray-600"
+                  title="Remove tag"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          ))}
+          {onSetTags && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                addTag();
+              }}
+              className="flex items-center"
+            >
+              <input
+                value={newTag}
+                onChange={(e) => setNewTag(e.target.value)}
+                onBlur={addTag}
+                maxLength={MAX_TAG_LENGTH}
+                placeholder="Add tag"
+                className="w-24 px-2 py-0.5 text-xs border border-transparent hover:border-gray-200 focus:border-gray-300 rounded-full focus:outline-none"
+              />
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
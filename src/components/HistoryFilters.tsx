@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { DURATION_OPTIONS, MODEL_OPTIONS, RESOLUTION_OPTIONS } from '../lib/sora-api';
+import {
+  EMPTY_HISTORY_QUERY,
+  GENERATION_SORT_LABELS,
+  GENERATION_STATUSES,
+  HistoryImageFilter,
+  HistoryQuery,
+  isHistoryQueryFiltered,
+} from '../lib/generation-query';
+import { GenerationSort } from '../lib/persistence';
+import { Project } from '../lib/supabase';
+
+interface HistoryFiltersProps {
+  query: HistoryQuery;
+  onChange: (query: HistoryQuery) => void;
+  // Profile names seen in the history; the profile select hides with fewer than two
+  profileOptions: string[];
+  // Omitted when the backend has no projects
+  projects?: Project[];
+  // Tags seen in the history so far
+  tagOptions: string[];
+}
+
+// Typing in the search box waits this long before the history is refetched
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function HistoryFilters({ query, onChange, profileOptions, projects, tagOptions }: HistoryFiltersProps) {
+  const [search, setSearch] = useState(query.search);
+
+  // Follow outside changes, e.g. "Clear filters"
+  useEffect(() => {
+    setSearch(query.search);
+  }, [query.search]);
+
+  useEffect(() => {
+    if (search === query.search) {
+      return;
+    }
+    const timer = setTimeout(() => onChange({ ...query, search }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search, query, onChange]);
+
+  const update = (changes: Partial<HistoryQuery>) => onChange({ ...query, ...changes });
+
+  const toggleStatus = (status: HistoryQuery['statuses'][number]) =>
+    update({
+      statuses: query.statuses.includes(status)
+        ? query.statuses.filter((s) => s !== status)
+        : [...query.statuses, status],
+    });
+
+  const selectClass = 'px-2 py-1.5 text-sm border border-gray-300 rounded-lg bg-white';
+
+  return (
+    <div className="mb-6 bg-white rounded-xl shadow p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[16rem]">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder='Search prompts, e.g. "golden hour" -rain'
+            className="w-full pl-9 pr-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <select
+          value={query.sort}
+          onChange={(e) => update({ sort: e.target.value as GenerationSort })}
+          className={selectClass}
+        >
+          {(Object.keys(GENERATION_SORT_LABELS) as GenerationSort[]).map((sort) => (
+            <option key={sort} value={sort}>
+              {GENERATION_SORT_LABELS[sort]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {GENERATION_STATUSES.map((status) => (
+          <button
+            key={status}
+            type="button"
+            onClick={() => toggleStatus(status)}
+            className={`px-2.5 py-1 rounded-full text-xs font-medium capitalize transition-colors ${
+              query.statuses.includes(status)
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {status}
+          </button>
+        ))}
+
+        <select
+          value={query.model}
+          onChange={(e) => update({ model: e.target.value as HistoryQuery['model'] })}
+          className={selectClass}
+        >
+          <option value="">Any model</option>
+          {MODEL_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={query.resolution}
+          onChange={(e) => update({ resolution: e.target.value })}
+          className={selectClass}
+        >
+          <option value="">Any resolution</option>
+          {RESOLUTION_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.value}
+            </option>
+          ))}
+        </select>
+        <select
+          value={query.duration}
+          onChange={(e) => update({ duration: e.target.value })}
+          className={selectClass}
+        >
+          <option value="">Any duration</option>
+          {DURATION_OPTIONS.map((option) => (
+            <option key={option.value} value={String(option.value)}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={query.image}
+          onChange={(e) => update({ image: e.target.value as HistoryImageFilter })}
+          className={selectClass}
+        >
+          <option value="">With or without image</option>
+          <option value="with">Image to video</option>
+          <option value="without">Text only</option>
+        </select>
+        {projects && projects.length > 0 && (
+          <select
+            value={query.project}
+            onChange={(e) => update({ project: e.target.value })}
+            className={selectClass}
+          >
+            <option value="">All projects</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+        )}
+        {(tagOptions.length > 0 || query.tag) && (
+          <select value={query.tag} onChange={(e) => update({ tag: e.target.value })} className={selectClass}>
+            <option value="">Any tag</option>
+            {[...new Set([...tagOptions, query.tag].filter(Boolean))].map((tag) => (
+              <option key={tag} value={tag}>
+                {tag}
+              </option>
+            ))}
+          </select>
+        )}
+        {profileOptions.length > 1 && (
+          <select
+            value={query.profile}
+            onChange={(e) => update({ profile: e.target.value })}
+            className={selectClass}
+            title="Only show videos created with this API key profile"
+          >
+            <option value="">All profiles</option>
+            {profileOptions.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <label className="flex items-center gap-1 text-gray-600">
+          From
+          <input
+            type="date"
+            value={query.from}
+            max={query.to || undefined}
+            onChange={(e) => update({ from: e.target.value })}
+            className={selectClass}
+          />
+        </label>
+        <label className="flex items-center gap-1 text-gray-600">
+          to
+          <input
+            type="date"
+            value={query.to}
+            min={query.from || undefined}
+            onChange={(e) => update({ to: e.target.value })}
+            className={selectClass}
+          />
+        </label>
+
+        {isHistoryQueryFiltered(query) && (
+          <button
+            type="button"
+            onClick={() => onChange({ ...EMPTY_HISTORY_QUERY, sort: query.sort })}
+            className="flex items-center gap-1 px-2 py-1 text-gray-500 hover:text-gray-700"
+          >
+            <X className="w-4 h-4" />
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import { AlertTriangle, XCircle } from 'lucide-react';
+import { PreflightIssue } from '../lib/prompt-preflight';
+
+interface PreflightIssuesProps {
+  issues: PreflightIssue[];
+}
+
+// Errors first; they block submission, warnings don't
+export function PreflightIssues({ issues }: PreflightIssuesProps) {
+  if (issues.length === 0) {
+    return null;
+  }
+
+  const sorted = [...issues].sort((a, b) => Number(b.severity === 'error') - Number(a.severity === 'error'));
+
+  return (
+    <ul className="mt-2 space-y-1">
+      {sorted.map((issue) => (
+        <li
+          key={`${issue.rule}:${issue.message}`}
+          className={`flex items-start gap-1.5 text-xs ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}`}
+        >
+          {issue.severity === 'error' ? (
+            <XCircle className="w-3.5 h-3.5 mt-px flex-shrink-0" />
+          ) : (
+            <AlertTriangle className="w-3.5 h-3.5 mt-px flex-shrink-0" />
+          )}
+          <span>{issue.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { ShieldCheck, X } from 'lucide-react';
+import { DEFAULT_PREFLIGHT_RULES, PreflightRules } from '../lib/prompt-preflight';
+
+interface PreflightRulesEditorProps {
+  rules: PreflightRules;
+  // Resolves to false when saving failed; the caller reports why
+  onSave: (rules: PreflightRules) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const splitLines = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+export function PreflightRulesEditor({ rules, onSave, onClose }: PreflightRulesEditorProps) {
+  const [maxPromptLength, setMaxPromptLength] = useState(String(rules.maxPromptLength));
+  const [minPromptLength, setMinPromptLength] = useState(String(rules.minPromptLength));
+  const [blockedTerms, setBlockedTerms] = useState(rules.blockedTerms.join('\n'));
+  const [watchedNames, setWatchedNames] = useState(rules.watchedNames.join('\n'));
+  const [warnOnPersonNames, setWarnOnPersonNames] = useState(rules.warnOnPersonNames);
+  const [warnOnOrientation, setWarnOnOrientation] = useState(rules.warnOnOrientation);
+  const [minSecondsPerShot, setMinSecondsPerShot] = useState(String(rules.minSecondsPerShot));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const max = Number(maxPromptLength);
+    const min = Number(minPromptLength);
+    const secondsPerShot = Number(minSecondsPerShot);
+    if (!Number.isInteger(max) || max <= 0 || !Number.isInteger(min) || min < 0 || min >= max) {
+      setError('Lengths must be whole numbers, with the minimum below the maximum');
+      return;
+    }
+    if (!Number.isFinite(secondsPerShot) || secondsPerShot < 0) {
+      setError('Seconds per shot must be 0 or more');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const saved = await onSave({
+      maxPromptLength: max,
+      minPromptLength: min,
+      blockedTerms: splitLines(blockedTerms),
+      watchedNames: splitLines(watchedNames),
+      warnOnPersonNames,
+      warnOnOrientation,
+      minSecondsPerShot: secondsPerShot,
+    });
+    if (saved) {
+      onClose();
+    } else {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/30 p-6">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-full overflow-y-auto">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-gray-700" />
+            <h2 className="text-lg font-semibold text-gray-800">Preflight rules</h2>
+          </div>
+          <button type="button" onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 rounded">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-5 space-y-5">
+          <p className="text-sm text-gray-600">
+            Prompts are checked against these rules before they are submitted. Errors block submission; warnings
+            don't. The rules apply to everyone using this deployment.
+          </p>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="text-xs font-medium text-gray-700">
+              Max length
+              <input
+                type="number"
+                min={1}
+                value={maxPromptLength}
+                onChange={(e) => setMaxPromptLength(e.target.value)}
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+            <label className="text-xs font-medium text-gray-700">
+              Warn below
+              <input
+                type="number"
+                min={0}
+                value={minPromptLength}
+                onChange={(e) => setMinPromptLength(e.target.value)}
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+            <label className="text-xs font-medium text-gray-700">
+              Seconds per shot
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={minSecondsPerShot}
+                onChange={(e) => setMinSecondsPerShot(e.target.value)}
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+          </div>
+
+          <label className="block text-xs font-medium text-gray-700">
+            Blocked terms (errors), one per line
+            <textarea
+              value={blockedTerms}
+              onChange={(e) => setBlockedTerms(e.target.value)}
+              rows={4}
+              className={`mt-1 font-mono ${inputClass}`}
+            />
+          </label>
+
+          <label className="block text-xs font-medium text-gray-700">
+            Real people to warn about, one per line
+            <textarea
+              value={watchedNames}
+              onChange={(e) => setWatchedNames(e.target.value)}
+              rows={3}
+              className={`mt-1 font-mono ${inputClass}`}
+            />
+          </label>
+
+          <div className="space-y-2 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={warnOnPersonNames}
+                onChange={(e) => setWarnOnPersonNames(e.target.checked)}
+              />
+              Warn about names of real people, including titles like "Dr. Smith"
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={warnOnOrientation}
+                onChange={(e) => setWarnOnOrientation(e.target.checked)}
+              />
+              Warn when the prompt's orientation contradicts the resolution
+            </label>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={() => {
+              setMaxPromptLength(String(DEFAULT_PREFLIGHT_RULES.maxPromptLength));
+              setMinPromptLength(String(DEFAULT_PREFLIGHT_RULES.minPromptLength));
+              setWarnOnPersonNames(DEFAULT_PREFLIGHT_RULES.warnOnPersonNames);
+              setWarnOnOrientation(DEFAULT_PREFLIGHT_RULES.warnOnOrientation);
+              setMinSecondsPerShot(String(DEFAULT_PREFLIGHT_RULES.minSecondsPerShot));
+            }}
+            className="text-sm text-gray-500 hover:text-gray-700"
+          >
+            Reset limits to defaults
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-5 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {saving ? 'Saving…' : 'Save rules'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useMemo, useState } from 'react';
+import { History, Search, Star, X, CheckCircle, XCircle } from 'lucide-react';
+import { PromptHistoryEntry } from '../lib/supabase';
+import { fuzzySearch } from '../lib/fuzzy-search';
+
+interface PromptHistoryDrawerProps {
+  entries: PromptHistoryEntry[];
+  onSelect: (prompt: string) => void;
+  onToggleFavorite: (entry: PromptHistoryEntry) => void;
+  onClose: () => void;
+}
+
+// How a past prompt turned out, shown in the drawer and the autocomplete list
+export function PromptOutcome({ entry }: { entry: PromptHistoryEntry }) {
+  return (
+    <span className="flex items-center gap-2 text-xs text-gray-500 whitespace-nowrap">
+      <span className="flex items-center gap-0.5 text-green-700" title="Completed">
+        <CheckCircle className="w-3 h-3" />
+        {entry.completed}
+      </span>
+      <span className="flex items-center gap-0.5 text-red-600" title="Failed">
+        <XCircle className="w-3 h-3" />
+        {entry.failed}
+      </span>
+      <span title="Times used">{entry.uses}×</span>
+    </span>
+  );
+}
+
+export function PromptHistoryDrawer({ entries, onSelect, onToggleFavorite, onClose }: PromptHistoryDrawerProps) {
+  const [query, setQuery] = useState('');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+
+  const visible = useMemo(() => {
+    const candidates = favoritesOnly ? entries.filter((entry) => entry.favorite) : entries;
+    return query.trim() ? fuzzySearch(candidates, query, (entry) => entry.prompt) : candidates;
+  }, [entries, query, favoritesOnly]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/20" onClick={onClose} />
+      <aside className="relative w-full max-w-md h-full bg-white shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-gray-200">
+          <div className="flex items-center gap-2">
+            <History className="w-5 h-5 text-gray-700" />
+            <h2 className="text-lg font-semibold text-gray-800">Prompt history</h2>
+          </div>
+          <button type="button" onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 rounded">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-5 py-3 border-b border-gray-100 space-y-2">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              // The drawer sits inside the generator form; Enter must not submit it
+              onKeyDown={(e) => e.key === 'Enter' && e.preventDefault()}
+              placeholder="Search past prompts…"
+              className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <input type="checkbox" checked={favoritesOnly} onChange={(e) => setFavoritesOnly(e.target.checked)} />
+            Favorites only
+          </label>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {visible.length === 0 ? (
+            <p className="px-5 py-6 text-sm text-gray-500 text-center">
+              {entries.length === 0 ? 'Prompts you submit will show up here' : 'No matching prompts'}
+            </p>
+          ) : (
+            visible.map((entry) => (
+              <div key={entry.prompt} className="px-5 py-3 flex items-start gap-3 hover:bg-gray-50">
+                <button
+                  type="button"
+                  onClick={() => onToggleFavorite(entry)}
+                  className={`mt-0.5 ${entry.favorite ? 'text-amber-500' : 'text-gray-300 hover:text-amber-400'}`}
+                  title={entry.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                >
+                  <Star className="w-4 h-4" fill={entry.favorite ? 'currentColor' : 'none'} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    onSelect(entry.prompt);
+                    onClose();
+                  }}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <p className="text-sm text-gray-800 line-clamp-3">{entry.prompt}</p>
+                  <div className="mt-1 flex items-center justify-between gap-2">
+                    <PromptOutcome entry={entry} />
+                    {entry.last_used_at && (
+                      <span className="text-xs text-gray-400">{new Date(entry.last_used_at).toLocaleDateString()}</span>
+                    )}
+                  </div>
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
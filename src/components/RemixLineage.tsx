@@ -0,0 +1,37 @@
+import { GitBranch } from 'lucide-react';
+import { RemixLineageNode } from '../lib/remix-lineage';
+
+interface RemixLineageProps {
+  tree: RemixLineageNode;
+  currentId: string;
+}
+
+export function RemixLineage({ tree, currentId }: RemixLineageProps) {
+  const renderNode = (node: RemixLineageNode, depth: number) => {
+    const isCurrent = node.generation.id === currentId;
+
+    return (
+      <li key={node.generation.id}>
+        <div
+          className={`flex items-start gap-2 py-1.5 px-2 rounded-lg ${
+            isCurrent ? 'bg-blue-50 text-blue-800' : 'text-gray-700'
+          }`}
+          style={{ marginLeft: depth * 16 }}
+        >
+          <GitBranch className={`w-3.5 h-3.5 mt-0.5 flex-shrink-0 ${depth === 0 ? 'rotate-180' : ''}`} />
+          <span className={`text-xs leading-relaxed line-clamp-2 ${isCurrent ? 'font-semibold' : ''}`}>
+            {node.generation.prompt}
+          </span>
+          <span className="ml-auto text-[10px] uppercase tracking-wide text-gray-400 whitespace-nowrap">
+            {node.generation.status}
+          </span>
+        </div>
+        {node.children.length > 0 && (
+          <ul>{node.children.map((child) => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return <ul className="space-y-0.5">{renderNode(tree, 0)}</ul>;
+}
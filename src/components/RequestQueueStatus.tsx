@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { Activity, Hourglass } from 'lucide-react';
+import {
+  RequestScheduler,
+  RequestSchedulerState,
+  REQUEST_CONCURRENCY_STORAGE_KEY,
+} from '../lib/request-scheduler';
+
+interface RequestQueueStatusProps {
+  scheduler: RequestScheduler;
+}
+
+const CONCURRENCY_CHOICES = [1, 2, 3, 4, 6, 8];
+
+export function RequestQueueStatus({ scheduler }: RequestQueueStatusProps) {
+  const [state, setState] = useState<RequestSchedulerState>(scheduler.getState());
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    setState(scheduler.getState());
+    return scheduler.subscribe(setState);
+  }, [scheduler]);
+
+  // Tick once a second while paused so the countdown stays current
+  useEffect(() => {
+    if (state.pausedUntil === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [state.pausedUntil]);
+
+  const handleConcurrencyChange = (value: number) => {
+    localStorage.setItem(REQUEST_CONCURRENCY_STORAGE_KEY, String(value));
+    scheduler.setConcurrency(value);
+  };
+
+  const waiting = state.queued + state.retrying;
+  const pausedSeconds =
+    state.pausedUntil !== null ? Math.max(0, Math.ceil((state.pausedUntil - now) / 1000)) : null;
+
+  return (
+    <div
+      className={`flex items-center gap-3 px-3 py-1.5 rounded-lg text-xs border ${
+        pausedSeconds !== null
+          ? 'bg-amber-50 border-amber-200 text-amber-800'
+          : state.active > 0 || waiting > 0
+          ? 'bg-blue-50 border-blue-100 text-blue-800'
+          : 'bg-gray-50 border-gray-200 text-gray-600'
+      }`}
+      title="Requests to the OpenAI API are queued and retried automatically when rate limited"
+    >
+      <span className="flex items-center gap-1.5">
+        {pausedSeconds !== null ? (
+          <Hourglass className="w-3.5 h-3.5" />
+        ) : (
+          <Activity className={`w-3.5 h-3.5 ${state.active > 0 ? 'animate-pulse' : ''}`} />
+        )}
+        {pausedSeconds !== null
+          ? `Rate limited, resuming in ${pausedSeconds}s`
+          : `${state.active} active`}
+      </span>
+      {waiting > 0 && (
+        <span className="font-medium">
+          {state.queued} queued{state.retrying > 0 ? ` · ${state.retrying} retrying` : ''}
+        </span>
+      )}
+      <label className="flex items-center gap-1 text-gray-500">
+        Max
+        <select
+          value={state.concurrency}
+          onChange={(e) => handleConcurrencyChange(Number(e.target.value))}
+          className="bg-transparent border border-gray-200 rounded px-1 py-0.5 text-gray-700"
+        >
+          {CONCURRENCY_CHOICES.map((value) => (
+            <option key={value} value={value}>
+              {value}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { LogIn, Mail } from 'lucide-react';
+import { AuthProvider } from '../lib/persistence';
+
+interface SignInFormProps {
+  auth: AuthProvider;
+}
+
+type SignInMode = 'password' | 'magic-link';
+
+// Shown before the API key prompt when the backend stores rows per user.
+// The App re-renders on its own once the auth provider reports a session.
+export function SignInForm({ auth }: SignInFormProps) {
+  const [mode, setMode] = useState<SignInMode>('password');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<string | null>) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      setNotice(await action());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedEmail = email.trim();
+    if (!trimmedEmail) return;
+
+    if (mode === 'magic-link') {
+      run(async () => {
+        await auth.sendMagicLink(trimmedEmail);
+        return `Check ${trimmedEmail} for a sign-in link.`;
+      });
+    } else {
+      run(async () => {
+        await auth.signInWithPassword(trimmedEmail, password);
+        return null;
+      });
+    }
+  };
+
+  const handleSignUp = () => {
+    const trimmedEmail = email.trim();
+    if (!trimmedEmail || !password) {
+      setError('Enter an email and password to create an account');
+      return;
+    }
+
+    run(async () => {
+      const needsConfirmation = await auth.signUp(trimmedEmail, password);
+      return needsConfirmation ? `Account created. Confirm it from the email sent to ${trimmedEmail}.` : null;
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 flex items-center justify-center p-6">
+      <div className="bg-white rounded-2xl shadow-2xl p-8 md:p-12 max-w-md w-full">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-blue-600 rounded-2xl flex items-center justify-center mx-auto mb-4 shadow-lg">
+            <LogIn className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-800 mb-2">Sign in</h1>
+          <p className="text-gray-600">Your generations are saved to your account</p>
+        </div>
+
+        <div className="grid grid-cols-2 bg-gray-100 rounded-lg p-1 mb-6">
+          {(['password', 'magic-link'] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setMode(value)}
+              className={`py-2 text-sm rounded-md transition-colors ${
+                mode === value ? 'bg-white shadow text-gray-900' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {value === 'password' ? 'Password' : 'Email link'}
+            </button>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+              Email
+            </label>
+            <input
+              id="email"
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+              required
+            />
+          </div>
+
+          {mode === 'password' && (
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+                required
+              />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {notice && <p className="text-sm text-green-700">{notice}</p>}
+
+          <button
+            type="submit"
+            disabled={busy}
+            className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white font-medium py-4 px-6 rounded-lg transition-all shadow-lg hover:shadow-xl"
+          >
+            {mode === 'magic-link' && <Mail className="w-5 h-5" />}
+            {mode === 'magic-link' ? 'Send sign-in link' : 'Sign in'}
+          </button>
+
+          {mode === 'password' && (
+            <button
+              type="button"
+              onClick={handleSignUp}
+              disabled={busy}
+              className="w-full text-sm text-blue-700 hover:text-blue-900 disabled:text-gray-400"
+            >
+              New here? Create an account
+            </button>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { BarChart3, RefreshCw } from 'lucide-react';
+import { VideoService } from '../lib/video-service';
+import { SpendSummaryData, formatCost } from '../lib/pricing';
+import { MODEL_OPTIONS } from '../lib/sora-api';
+
+interface SpendSummaryProps {
+  videoService: VideoService;
+  // Bump to reload, e.g. when a generation finishes
+  refreshKey?: number;
+}
+
+const RANGE_CHOICES = [7, 14, 30];
+
+export function SpendSummary({ videoService, refreshKey }: SpendSummaryProps) {
+  const [days, setDays] = useState(7);
+  const [summary, setSummary] = useState<SpendSummaryData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    videoService
+      .getSpendSummary(days)
+      .then((data) => {
+        if (cancelled) return;
+        setSummary(data);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to load spend');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [videoService, days, refreshKey]);
+
+  const maxDayTotal = summary ? Math.max(...summary.days.map((day) => day.total), 0) : 0;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-gray-700" />
+          <h2 className="text-lg font-semibold text-gray-800">Spend</h2>
+          {loading && <RefreshCw className="w-4 h-4 text-gray-400 animate-spin" />}
+        </div>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="text-sm border border-gray-200 rounded-lg px-2 py-1 text-gray-700"
+        >
+          {RANGE_CHOICES.map((value) => (
+            <option key={value} value={value}>
+              Last {value} days
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {summary && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <p className="text-xs text-gray-500">Total</p>
+              <p className="text-lg font-semibold text-gray-800">{formatCost(summary.total)}</p>
+              <p className="text-xs text-gray-500">{summary.count} finished</p>
+            </div>
+            {MODEL_OPTIONS.map((option) => (
+              <div key={option.value} className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-xs text-gray-500">{option.label}</p>
+                <p className="text-lg font-semibold text-gray-800">
+                  {formatCost(summary.byModel[option.value] ?? 0)}
+                </p>
+              </div>
+            ))}
+            <div className="p-3 bg-blue-50 rounded-lg" title="Estimated cost of jobs still rendering">
+              <p className="text-xs text-blue-700">In progress</p>
+              <p className="text-lg font-semibold text-blue-800">~{formatCost(summary.pending)}</p>
+            </div>
+          </div>
+
+          <div className="border border-gray-200 rounded-lg overflow-hidden max-h-72 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs uppercase tracking-wide text-gray-500 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2">Day</th>
+                  {MODEL_OPTIONS.map((option) => (
+                    <th key={option.value} className="px-3 py-2 text-right">
+                      {option.label}
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 text-right">Total</th>
+                  <th className="px-3 py-2 w-1/4"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {summary.days.map((day) => (
+                  <tr key={day.date} className={day.count === 0 ? 'text-gray-400' : 'text-gray-700'}>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      {new Date(`${day.date}T00:00:00`).toLocaleDateString(undefined, {
+                        weekday: 'short',
+                        month: 'short',
+                        day: 'numeric',
+                      })}
+                    </td>
+                    {MODEL_OPTIONS.map((option) => (
+                      <td key={option.value} className="px-3 py-2 text-right">
+                        {formatCost(day.byModel[option.value] ?? 0)}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2 text-right font-medium">{formatCost(day.total)}</td>
+                    <td className="px-3 py-2">
+                      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-blue-500 rounded-full"
+                          style={{ width: maxDayTotal > 0 ? `${(day.total / maxDayTotal) * 100}%` : '0%' }}
+                        />
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
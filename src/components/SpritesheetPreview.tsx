@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+
+// Sora spritesheets are a grid of evenly spaced frames read left to right,
+// top to bottom.
+const SPRITESHEET_COLUMNS = 5;
+const SPRITESHEET_ROWS = 5;
+const SPRITESHEET_FRAMES = SPRITESHEET_COLUMNS * SPRITESHEET_ROWS;
+
+interface SpritesheetPreviewProps {
+  url: string;
+  // Horizontal cursor position over the player, from 0 to 1
+  position: number;
+}
+
+export function SpritesheetPreview({ url, position }: SpritesheetPreviewProps) {
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    setIsLoaded(false);
+    const img = new Image();
+    img.onload = () => setIsLoaded(true);
+    img.src = url;
+    return () => {
+      img.onload = null;
+    };
+  }, [url]);
+
+  if (!isLoaded) {
+    return null;
+  }
+
+  const frame = Math.min(
+    SPRITESHEET_FRAMES - 1,
+    Math.max(0, Math.floor(position * SPRITESHEET_FRAMES))
+  );
+  const column = frame % SPRITESHEET_COLUMNS;
+  const row = Math.floor(frame / SPRITESHEET_COLUMNS);
+
+  return (
+    <div className="absolute inset-0 pointer-events-none bg-black">
+      <div
+        className="w-full h-full bg-no-repeat"
+        style={{
+          backgroundImage: `url(${url})`,
+          backgroundSize: `${SPRITESHEET_COLUMNS * 100}% ${SPRITESHEET_ROWS * 100}%`,
+          backgroundPosition: `${(column / (SPRITESHEET_COLUMNS - 1)) * 100}% ${(row / (SPRITESHEET_ROWS - 1)) * 100}%`,
+        }}
+      />
+      <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/20">
+        <div
+          className="h-full bg-white/80"
+          style={{ width: `${((frame + 1) / SPRITESHEET_FRAMES) * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,481 @@
+import { useState } from 'react';
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  CheckCircle,
+  Clapperboard,
+  Pencil,
+  Play,
+  Plus,
+  RotateCcw,
+  Trash2,
+  X,
+} from 'lucide-react';
+import {
+  DURATION_OPTIONS,
+  MODEL_OPTIONS,
+  RESOLUTION_OPTIONS,
+  Resolution,
+  SoraModel,
+  VideoDuration,
+} from '../lib/sora-api';
+import { Project, Storyboard, StoryboardShot } from '../lib/supabase';
+import { StoryboardInput } from '../lib/persistence';
+import { ShotProgress, StoryboardProgress, StoryboardStatus } from '../lib/storyboard-runner';
+import { PricingModel, formatCost } from '../lib/pricing';
+
+interface StoryboardFormProps {
+  storyboards: Storyboard[];
+  progress: Record<string, StoryboardProgress>;
+  // Saves the storyboard and, with `start`, submits its first shot
+  onSave: (input: StoryboardInput, existing: Storyboard | null, start: boolean) => Promise<boolean>;
+  onStart: (storyboard: Storyboard) => void;
+  onRetry: (storyboard: Storyboard, shot: StoryboardShot) => void;
+  onDelete: (storyboard: Storyboard) => void;
+  pricing?: PricingModel | null;
+  projects?: Project[];
+  // The project picked in the single video form, used for new storyboards
+  defaultProjectId: string;
+}
+
+interface ShotDraft {
+  prompt: string;
+  duration: VideoDuration;
+}
+
+const EMPTY_SHOT: ShotDraft = { prompt: '', duration: 8 };
+
+const STATUS_STYLES: Record<StoryboardStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  stalled: 'bg-red-100 text-red-700',
+  completed: 'bg-green-100 text-green-700',
+};
+
+const STATUS_LABELS: Record<StoryboardStatus, string> = {
+  draft: 'Draft',
+  running: 'Rendering',
+  stalled: 'Needs attention',
+  completed: 'Completed',
+};
+
+function describeShot({ shot, generation, submitting, error }: ShotProgress, index: number): string {
+  if (submitting) return index > 0 ? 'Taking the last frame and submitting…' : 'Submitting…';
+  if (error) return error;
+  if (generation?.status === 'completed') return 'Done';
+  if (generation?.status === 'failed') return generation.error_message || 'Failed';
+  if (generation) return 'Rendering…';
+  if (shot.submitted_at) return 'Its video was deleted or never submitted';
+  return index > 0 ? `Waiting for shot ${index}` : 'Not started';
+}
+
+export function StoryboardForm({
+  storyboards,
+  progress,
+  onSave,
+  onStart,
+  onRetry,
+  onDelete,
+  pricing,
+  projects,
+  defaultProjectId,
+}: StoryboardFormProps) {
+  // undefined while the list is shown, null for a new storyboard
+  const [editing, setEditing] = useState<Storyboard | null | undefined>(undefined);
+  const [name, setName] = useState('');
+  const [model, setModel] = useState<SoraModel>('sora-2');
+  const [resolution, setResolution] = useState<Resolution>('1280x720');
+  const [projectId, setProjectId] = useState('');
+  const [shots, setShots] = useState<ShotDraft[]>([EMPTY_SHOT]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const availableResolutions = RESOLUTION_OPTIONS.filter((option) => option.model.includes(model));
+  const totalSeconds = shots.reduce((sum, shot) => sum + shot.duration, 0);
+  const estimatedTotal = pricing
+    ? shots.reduce((sum, shot) => sum + (pricing.estimate(model, resolution, shot.duration) ?? 0), 0)
+    : null;
+  const canSave = name.trim() !== '' && shots.length > 0 && shots.every((shot) => shot.prompt.trim() !== '');
+
+  const openEditor = (storyboard: Storyboard | null) => {
+    setEditing(storyboard);
+    setName(storyboard?.name ?? '');
+    setModel(storyboard?.model ?? 'sora-2');
+    setResolution((storyboard?.resolution as Resolution) ?? '1280x720');
+    setProjectId(storyboard ? storyboard.project_id ?? '' : defaultProjectId);
+    setShots(
+      storyboard
+        ? storyboard.shots.map((shot) => ({ prompt: shot.prompt, duration: shot.duration as VideoDuration }))
+        : [EMPTY_SHOT]
+    );
+  };
+
+  const handleModelChange = (value: SoraModel) => {
+    setModel(value);
+    const option = RESOLUTION_OPTIONS.find((o) => o.value === resolution);
+    if (option && !option.model.includes(value)) {
+      setResolution('1280x720');
+    }
+  };
+
+  const updateShot = (index: number, changes: Partial<ShotDraft>) =>
+    setShots((prev) => prev.map((shot, i) => (i === index ? { ...shot, ...changes } : shot)));
+
+  const moveShot = (index: number, offset: number) =>
+    setShots((prev) => {
+      const next = [...prev];
+      const [shot] = next.splice(index, 1);
+      next.splice(index + offset, 0, shot);
+      return next;
+    });
+
+  const handleSave = async (start: boolean) => {
+    if (!canSave || editing === undefined) return;
+
+    setIsSaving(true);
+    try {
+      const saved = await onSave(
+        {
+          name,
+          model,
+          resolution,
+          project_id: projectId || null,
+          shots: shots.map((shot) => ({ prompt: shot.prompt.trim(), duration: shot.duration })),
+        },
+        editing,
+        start
+      );
+      if (saved) {
+        setEditing(undefined);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (storyboard: Storyboard) => {
+    if (confirm(`Delete the storyboard "${storyboard.name}"? Its videos are kept in the history.`)) {
+      onDelete(storyboard);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all';
+
+  if (editing !== undefined) {
+    return (
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="md:col-span-2">
+            <label htmlFor="storyboard-name" className="block text-sm font-medium text-gray-700 mb-2">
+              Storyboard name
+            </label>
+            <input
+              id="storyboard-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Lighthouse at dusk"
+              className={inputClass}
+              disabled={isSaving}
+            />
+          </div>
+          <div>
+            <label htmlFor="storyboard-model" className="block text-sm font-medium text-gray-700 mb-2">
+              Model
+            </label>
+            <select
+              id="storyboard-model"
+              value={model}
+              onChange={(e) => handleModelChange(e.target.value as SoraModel)}
+              className={inputClass}
+              disabled={isSaving}
+            >
+              {MODEL_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="storyboard-resolution" className="block text-sm font-medium text-gray-700 mb-2">
+              Resolution
+            </label>
+            <select
+              id="storyboard-resolution"
+              value={resolution}
+              onChange={(e) => setResolution(e.target.value as Resolution)}
+              className={inputClass}
+              disabled={isSaving}
+            >
+              {availableResolutions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {projects && (
+            <div className="md:col-span-2">
+              <label htmlFor="storyboard-project" className="block text-sm font-medium text-gray-700 mb-2">
+                Project
+              </label>
+              <select
+                id="storyboard-project"
+                value={projectId}
+                onChange={(e) => setProjectId(e.target.value)}
+                className={inputClass}
+                disabled={isSaving}
+              >
+                <option value="">No project</option>
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {shots.map((shot, index) => (
+            <div key={index} className="p-4 border border-gray-200 rounded-lg bg-gray-50">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-gray-700">Shot {index + 1}</span>
+                <div className="flex items-center gap-1">
+                  <select
+                    value={shot.duration}
+                    onChange={(e) => updateShot(index, { duration: Number(e.target.value) as VideoDuration })}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded-lg bg-white"
+                    disabled={isSaving}
+                  >
+                    {DURATION_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => moveShot(index, -1)}
+                    disabled={isSaving || index === 0}
+                    className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveShot(index, 1)}
+                    disabled={isSaving || index === shots.length - 1}
+                    className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShots((prev) => prev.filter((_, i) => i !== index))}
+                    disabled={isSaving || shots.length === 1}
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                    title="Remove shot"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <textarea
+                value={shot.prompt}
+                onChange={(e) => updateShot(index, { prompt: e.target.value })}
+                placeholder={
+                  index === 0
+                    ? 'Wide shot of a lighthouse on a cliff at dusk, waves below'
+                    : 'What happens next, continuing from the last frame of the previous shot'
+                }
+                rows={3}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-y"
+                disabled={isSaving}
+              />
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setShots((prev) => [...prev, { ...EMPTY_SHOT, duration: prev[prev.length - 1]?.duration ?? 8 }])}
+            disabled={isSaving}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm text-blue-600 border border-dashed border-blue-300 hover:bg-blue-50 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add shot
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          {shots.length} shot{shots.length === 1 ? '' : 's'}, {totalSeconds} seconds in total
+          {estimatedTotal !== null && ` · about ${formatCost(estimatedTotal)}`}. Each shot after the first starts from the
+          last frame of the one before it and is submitted as soon as that one finishes.
+        </p>
+
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={() => setEditing(undefined)}
+            disabled={isSaving}
+            className="px-6 py-3 bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => handleSave(false)}
+            disabled={isSaving || !canSave}
+            className="px-6 py-3 bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            Save draft
+          </button>
+          <button
+            type="button"
+            onClick={() => handleSave(true)}
+            disabled={isSaving || !canSave}
+            className="flex-1 flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-6 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Play className="w-4 h-4" />
+            {isSaving ? 'Saving...' : 'Save and start'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {storyboards.length === 0 ? (
+        <div className="text-center py-8">
+          <Clapperboard className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+          <p className="text-gray-600">
+            Clips are capped at 12 seconds. A storyboard chains several shots into one longer scene.
+          </p>
+        </div>
+      ) : (
+        storyboards.map((storyboard) => {
+          const { status, completed, shots: shotProgress } = progress[storyboard.id] ?? {
+            status: 'draft',
+            completed: 0,
+            shots: [],
+          };
+          const seconds = storyboard.shots.reduce((sum, shot) => sum + shot.duration, 0);
+          return (
+            <div key={storyboard.id} className="border border-gray-200 rounded-lg overflow-hidden">
+              <div className="px-4 py-3 bg-gray-50 flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-800 truncate">{storyboard.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {storyboard.model} · {storyboard.resolution} · {storyboard.shots.length} shots · {seconds}s
+                  </p>
+                </div>
+                <span className={`px-2.5 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[status]}`}>
+                  {STATUS_LABELS[status]}
+                  {status !== 'draft' && ` ${completed}/${storyboard.shots.length}`}
+                </span>
+                {status === 'draft' && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => onStart(storyboard)}
+                      className="p-1 text-blue-600 hover:text-blue-700"
+                      title="Start rendering"
+                    >
+                      <Play className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => openEditor(storyboard)}
+                      className="p-1 text-gray-400 hover:text-gray-700"
+                      title="Edit"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleDelete(storyboard)}
+                  className="p-1 text-gray-400 hover:text-red-600"
+                  title="Delete storyboard"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {status !== 'draft' && (
+                <div className="h-1 bg-gray-100">
+                  <div
+                    className="h-1 bg-blue-600 transition-all"
+                    style={{ width: `${(completed / Math.max(storyboard.shots.length, 1)) * 100}%` }}
+                  />
+                </div>
+              )}
+              <div className="divide-y divide-gray-100">
+                {shotProgress.map((item, index) => {
+                  const failed =
+                    !item.submitting &&
+                    (item.error !== null ||
+                      item.generation?.status === 'failed' ||
+                      (item.shot.submitted_at !== null && !item.generation));
+                  return (
+                    <div key={item.shot.id} className="px-4 py-2 flex items-center gap-3 text-sm">
+                      <span className="w-5 text-xs text-gray-400 text-right">{index + 1}</span>
+                      {item.generation?.thumbnail_url ? (
+                        <img src={item.generation.thumbnail_url} alt="" className="w-16 h-9 object-cover rounded bg-black" />
+                      ) : (
+                        <div className="w-16 h-9 rounded bg-gray-100" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="text-gray-800 truncate" title={item.shot.prompt}>
+                          {item.shot.prompt}
+                        </p>
+                        <p
+                          className={`text-xs flex items-center gap-1 ${
+                            failed ? 'text-red-600' : item.generation?.status === 'completed' ? 'text-green-700' : 'text-gray-500'
+                          }`}
+                        >
+                          {failed ? (
+                            <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+                          ) : item.generation?.status === 'completed' ? (
+                            <CheckCircle className="w-3 h-3 flex-shrink-0" />
+                          ) : null}
+                          <span className="truncate">
+                            {item.shot.duration}s · {describeShot(item, index)}
+                          </span>
+                        </p>
+                      </div>
+                      {failed && status === 'stalled' && (
+                        <button
+                          type="button"
+                          onClick={() => onRetry(storyboard, item.shot)}
+                          className="flex items-center gap-1 px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded-lg"
+                          title="Submit this shot again"
+                        >
+                          <RotateCcw className="w-3.5 h-3.5" />
+                          Retry
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })
+      )}
+
+      <button
+        type="button"
+        onClick={() => openEditor(null)}
+        className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-6 rounded-lg transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        New storyboard
+      </button>
+    </div>
+  );
+}
@@ -6,11 +6,13 @@ export type ToastType = 'success' | 'error' | 'info';
 interface ToastProps {
   message: string;
   type: ToastType;
+  // Secondary line, e.g. what the user can do about an error
+  details?: string;
   onClose: () => void;
   duration?: number;
 }
 
-export function Toast({ message, type, onClose, duration = 5000 }: ToastProps) {
+export function Toast({ message, type, details, onClose, duration = 5000 }: ToastProps) {
   useEffect(() => {
     const timer = setTimeout(onClose, duration);
     return () => clearTimeout(timer);
@@ -33,7 +35,10 @@ export function Toast({ message, type, onClose, duration = 5000 }: ToastProps) {
       className={`fixed top-6 right-6 max-w-md w-full ${colors[type]} border rounded-lg shadow-xl p-4 flex items-start gap-3 animate-slide-in z-50`}
     >
       <div className="flex-shrink-0 mt-0.5">{icons[type]}</div>
-      <p className="flex-1 text-sm font-medium">{message}</p>
+      <div className="flex-1">
+        <p className="text-sm font-medium">{message}</p>
+        {details && <p className="text-xs mt-1 opacity-80">{details}</p>}
+      </div>
       <button
         onClick={onClose}
         className="flex-shrink-0 hover:opacity-70 transition-opacity"
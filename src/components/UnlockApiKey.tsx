@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { Lock } from 'lucide-react';
+
+interface UnlockApiKeyProps {
+  onUnlock: (passphrase: string) => Promise<void>;
+  // Drops the encrypted profiles so new keys can be entered
+  onForget: () => void;
+}
+
+export function UnlockApiKey({ onUnlock, onForget }: UnlockApiKeyProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock the API keys');
+      setUnlocking(false);
+    }
+  };
+
+  const handleForget = () => {
+    if (confirm('Forget the saved API keys? You will need to enter them again.')) {
+      onForget();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 flex items-center justify-center p-6">
+      <div className="bg-white rounded-2xl shadow-2xl p-8 md:p-12 max-w-md w-full">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-blue-600 rounded-2xl flex items-center justify-center mx-auto mb-4 shadow-lg">
+            <Lock className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-800 mb-2">API key locked</h1>
+          <p className="text-gray-600">Enter your passphrase to unlock the saved OpenAI API keys</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <input
+            type="password"
+            autoComplete="current-password"
+            autoFocus
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
+            required
+          />
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={unlocking}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white font-medium py-4 px-6 rounded-lg transition-all shadow-lg hover:shadow-xl"
+          >
+            {unlocking ? 'Unlocking…' : 'Unlock'}
+          </button>
+
+          <button
+            type="button"
+            onClick={handleForget}
+            className="w-full text-sm text-gray-500 hover:text-gray-700"
+          >
+            Forgot the passphrase? Forget these keys
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
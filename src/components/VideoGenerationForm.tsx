@@ -1,5 +1,20 @@
-import { useState, useEffect } from 'react';
-import { Video, Sparkles, Clock, Monitor, Image, X } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Video,
+  Sparkles,
+  Clock,
+  Monitor,
+  Image,
+  X,
+  Wand2,
+  DollarSign,
+  BookmarkPlus,
+  Trash2,
+  History,
+  Star,
+  Folder,
+} from 'lucide-react';
+import { Project, PromptHistoryEntry, PromptTemplate, VideoGeneration } from '../lib/supabase';
 import {
   SoraModel,
   Resolution,
@@ -8,6 +23,26 @@ import {
   DURATION_OPTIONS,
   MODEL_OPTIONS,
 } from '../lib/sora-api';
+import { resizeImageToResolution } from '../lib/image-utils';
+import { PricingModel, formatCost } from '../lib/pricing';
+import { PromptTemplateInput } from '../lib/persistence';
+import { fuzzySearch } from '../lib/fuzzy-search';
+import { hasPreflightErrors, PreflightRules, runPreflight } from '../lib/prompt-preflight';
+import { PromptHistoryDrawer, PromptOutcome } from './PromptHistoryDrawer';
+import { PreflightIssues } from './PreflightIssues';
+import {
+  extractTemplateVariables,
+  fillTemplate,
+  missingTemplateValues,
+  TemplateValues,
+} from '../lib/prompt-templates';
+import { FrameSource } from '../lib/video-service';
+
+// A frame grabbed from a finished video, to be used as the starting image
+export interface ReferenceFrame {
+  file: File;
+  source: FrameSource;
+}
 
 interface VideoGenerationFormProps {
   onSubmit: (params: {
@@ -16,12 +51,66 @@ interface VideoGenerationFormProps {
     resolution: Resolution;
     duration: VideoDuration;
     imageFile?: File;
+    frameSource?: FrameSource;
   }) => void;
   isGenerating: boolean;
+  remixSource?: VideoGeneration | null;
+  onCancelRemix?: () => void;
+  // Loaded into the form whenever a new frame is passed; the form calls
+  // onClearReferenceFrame once its image is removed or replaced
+  referenceFrame?: ReferenceFrame | null;
+  onClearReferenceFrame?: () => void;
+  pricing?: PricingModel | null;
+  // Omitted when the backend can't store templates
+  templates?: PromptTemplate[];
+  onSaveTemplate?: (template: PromptTemplateInput) => Promise<void>;
+  onDeleteTemplate?: (template: PromptTemplate) => Promise<void>;
+  // Past prompts for the history drawer and autocomplete
+  promptHistory?: PromptHistoryEntry[];
+  onToggleFavorite?: (entry: PromptHistoryEntry) => void;
+  // Checked as the user types; null until the rules have loaded
+  preflightRules?: PreflightRules | null;
+  // Omitted when the backend has no projects. The selection lives with the
+  // caller so batch runs use it too; '' means no project.
+  projects?: Project[];
+  projectId?: string;
+  onProjectChange?: (projectId: string) => void;
+  onCreateProject?: (name: string) => Promise<Project | null>;
 }
 
-export function VideoGenerationForm({ onSubmit, isGenerating }: VideoGenerationFormProps) {
+// Select value that opens the "new project" prompt instead of selecting
+const NEW_PROJECT_OPTION = '__new__';
+
+const MAX_SUGGESTIONS = 6;
+// Shorter input matches nearly everything, so suggestions wait for this much
+const MIN_SUGGESTION_QUERY = 3;
+
+export function VideoGenerationForm({
+  onSubmit,
+  isGenerating,
+  remixSource,
+  onCancelRemix,
+  referenceFrame,
+  onClearReferenceFrame,
+  pricing,
+  templates,
+  onSaveTemplate,
+  onDeleteTemplate,
+  promptHistory = [],
+  onToggleFavorite,
+  preflightRules,
+  projects,
+  projectId = '',
+  onProjectChange,
+  onCreateProject,
+}: VideoGenerationFormProps) {
   const [prompt, setPrompt] = useState('');
+  const [templateValues, setTemplateValues] = useState<TemplateValues>({});
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [suggestionsOpen, setSuggestionsOpen] = useState(false);
+  const [highlightedSuggestion, setHighlightedSuggestion] = useState(0);
   const [model, setModel] = useState<SoraModel>('sora-2');
   const [resolution, setResolution] = useState<Resolution>('1280x720');
   const [duration, setDuration] = useState<VideoDuration>(4);
@@ -32,10 +121,60 @@ export function VideoGenerationForm({ onSubmit, isGenerating }: VideoGenerationF
   const [imageInfo, setImageInfo] = useState<string | null>(null);
   const [isResizing, setIsResizing] = useState(false);
 
+  const isRemixing = Boolean(remixSource);
+  const templateVariables = useMemo(() => extractTemplateVariables(prompt), [prompt]);
+  const missingValues = missingTemplateValues(prompt, templateValues);
+  const selectedTemplate = templates?.find((t) => t.id === selectedTemplateId) ?? null;
+
+  const suggestions = useMemo(() => {
+    const query = prompt.trim();
+    if (query.length < MIN_SUGGESTION_QUERY) return [];
+    return fuzzySearch(
+      promptHistory.filter((entry) => entry.prompt !== query),
+      query,
+      (entry) => entry.prompt,
+      MAX_SUGGESTIONS
+    );
+  }, [prompt, promptHistory]);
+  const showSuggestions = suggestionsOpen && suggestions.length > 0 && !isGenerating;
+
+  const preflightIssues = useMemo(
+    () =>
+      preflightRules
+        ? runPreflight({ prompt: fillTemplate(prompt, templateValues), model, resolution, duration }, preflightRules)
+        : [],
+    [prompt, templateValues, model, resolution, duration, preflightRules]
+  );
+  const preflightBlocked = hasPreflightErrors(preflightIssues);
+
+  const pricePerSecond = pricing?.pricePerSecond(model, resolution) ?? null;
+  const estimatedCost = pricing?.estimate(model, resolution, duration) ?? null;
+
   const availableResolutions = RESOLUTION_OPTIONS.filter(
     (option) => option.model.includes(model)
   );
 
+  // Remixes inherit their settings from the parent job, so load them into the form
+  useEffect(() => {
+    if (!remixSource) return;
+    setPrompt(remixSource.prompt);
+    setModel(remixSource.model);
+    setResolution(remixSource.resolution as Resolution);
+    setDuration(remixSource.duration as VideoDuration);
+    setOriginalImageFile(null);
+    setImageFile(null);
+    setImagePreview(null);
+    setImageDimensions(null);
+    setImageInfo(null);
+  }, [remixSource]);
+
+  // The frame is re-fit to the selected resolution like an uploaded image
+  useEffect(() => {
+    if (referenceFrame) {
+      setOriginalImageFile(referenceFrame.file);
+    }
+  }, [referenceFrame]);
+
   useEffect(() => {
     if (model === 'sora-2' && (resolution === '1792x1024' || resolution === '1024x1792')) {
       setResolution('1280x720');
@@ -45,82 +184,19 @@ export function VideoGenerationForm({ onSubmit, isGenerating }: VideoGenerationF
   // Resize image when resolution changes or image is selected
   useEffect(() => {
     if (originalImageFile && resolution) {
-      resizeImageToResolution(originalImageFile, resolution);
+      resizeImageForForm(originalImageFile, resolution);
     }
   }, [originalImageFile, resolution]);
 
-  const resizeImageToResolution = async (file: File, targetResolution: Resolution) => {
+  const resizeImageForForm = async (file: File, targetResolution: Resolution) => {
     setIsResizing(true);
     try {
+      const { file: resizedFile, originalWidth, originalHeight } = await resizeImageToResolution(
+        file,
+        targetResolution
+      );
       const [targetWidth, targetHeight] = targetResolution.split('x').map(Number);
-      
-      // Load the image
-      const img = document.createElement('img');
-      const url = URL.createObjectURL(file);
-      
-      await new Promise<void>((resolve, reject) => {
-        img.onload = () => {
-          URL.revokeObjectURL(url);
-          resolve();
-        };
-        img.onerror = () => {
-          URL.revokeObjectURL(url);
-          reject(new Error('Failed to load image'));
-        };
-        img.src = url;
-      });
-
-      const originalWidth = img.width;
-      const originalHeight = img.height;
       setImageDimensions({ width: originalWidth, height: originalHeight });
-
-      // Calculate scaling to maintain aspect ratio
-      const scale = Math.max(targetWidth / originalWidth, targetHeight / originalHeight);
-      const scaledWidth = originalWidth * scale;
-      const scaledHeight = originalHeight * scale;
-
-      // Create canvas for resizing
-      const canvas = document.createElement('canvas');
-      canvas.width = targetWidth;
-      canvas.height = targetHeight;
-      const ctx = canvas.getContext('2d');
-
-      if (!ctx) {
-        throw new Error('Failed to get canvas context');
-      }
-
-      // Fill with white background (for padding)
-      ctx.fillStyle = '#FFFFFF';
-      ctx.fillRect(0, 0, targetWidth, targetHeight);
-
-      // Calculate position to center the scaled image
-      const x = (targetWidth - scaledWidth) / 2;
-      const y = (targetHeight - scaledHeight) / 2;
-
-      // Draw the scaled image (will crop if larger than target, pad if smaller)
-      ctx.drawImage(img, x, y, scaledWidth, scaledHeight);
-
-      // Convert canvas to blob
-      const blob = await new Promise<Blob>((resolve, reject) => {
-        canvas.toBlob(
-          (blob) => {
-            if (blob) {
-              resolve(blob);
-            } else {
-              reject(new Error('Failed to convert canvas to blob'));
-            }
-          },
-          file.type || 'image/jpeg',
-          0.95 // High quality
-        );
-      });
-
-      // Create a new File from the blob
-      const resizedFile = new File([blob], file.name, {
-        type: file.type || 'image/jpeg',
-        lastModified: Date.now(),
-      });
-
       setImageFile(resizedFile);
 
       // Update preview with resized image
@@ -149,7 +225,7 @@ export function VideoGenerationForm({ onSubmit, isGenerating }: VideoGenerationF
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!prompt.trim()) return;
+    if (!prompt.trim() || missingValues.length > 0 || preflightBlocked) return;
     
     // Wait for resizing to complete
     if (isResizing) {
@@ -157,14 +233,86 @@ export function VideoGenerationForm({ onSubmit, isGenerating }: VideoGenerationF
     }
 
     onSubmit({
-      prompt: prompt.trim(),
+      prompt: fillTemplate(prompt, templateValues).trim(),
       model,
       resolution,
       duration,
-      imageFile: imageFile || undefined,
+      imageFile: isRemixing ? undefined : imageFile || undefined,
+      frameSource: isRemixing || !imageFile ? undefined : referenceFrame?.source,
     });
   };
 
+  const applySuggestion = (entry: PromptHistoryEntry) => {
+    setPrompt(entry.prompt);
+    setSuggestionsOpen(false);
+  };
+
+  const handlePromptKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!showSuggestions) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlightedSuggestion((index) => (index + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+      e.preventDefault();
+      applySuggestion(suggestions[Math.min(highlightedSuggestion, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setSuggestionsOpen(false);
+    }
+  };
+
+  const handleLoadTemplate = (id: string) => {
+    setSelectedTemplateId(id);
+    const template = templates?.find((t) => t.id === id);
+    if (!template) return;
+
+    setPrompt(template.prompt);
+    setModel(template.model);
+    setResolution(template.resolution as Resolution);
+    setDuration(template.duration as VideoDuration);
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!onSaveTemplate || !prompt.trim()) return;
+
+    const name = window.prompt('Template name', selectedTemplate?.name || '')?.trim();
+    if (!name) return;
+    if (
+      name !== selectedTemplate?.name &&
+      templates?.some((t) => t.name === name) &&
+      !confirm(`Replace the existing template "${name}"?`)
+    ) {
+      return;
+    }
+
+    setIsSavingTemplate(true);
+    try {
+      await onSaveTemplate({ name, prompt: prompt.trim(), model, resolution, duration });
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const handleDeleteTemplate = async () => {
+    if (!selectedTemplate || !onDeleteTemplate) return;
+    if (!confirm(`Delete the template "${selectedTemplate.name}"?`)) return;
+
+    await onDeleteTemplate(selectedTemplate);
+    setSelectedTemplateId('');
+  };
+
+  const handleProjectChange = async (value: string) => {
+    if (value !== NEW_PROJECT_OPTION) {
+      onProjectChange?.(value);
+      return;
+    }
+    const name = window.prompt('Project name')?.trim();
+    if (!name || !onCreateProject) return;
+    const project = await onCreateProject(name);
+    if (project) onProjectChange?.(project.id);
+  };
+
   const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -175,7 +323,8 @@ export function VideoGenerationForm({ onSubmit, isGenerating }: VideoGenerationF
       
       try {
         setOriginalImageFile(file);
-        // resizeImageToResolution will be called by useEffect
+        onClearReferenceFrame?.();
+        // resizeImageForForm will be called by useEffect
       } catch (error) {
         alert('Failed to load image. Please try a different file.');
         console.error('Error loading image:', error);
@@ -184,6 +333,7 @@ export function VideoGenerationForm({ onSubmit, isGenerating }: VideoGenerationF
   };
 
   const handleRemoveImage = () => {
+    onClearReferenceFrame?.();
     setOriginalImageFile(null);
     setImageFile(null);
     setImagePreview(null);
@@ -200,20 +350,171 @@ export function VideoGenerationForm({ onSubmit, isGenerating }: VideoGenerationF
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {remixSource && (
+        <div className="flex items-start gap-3 p-4 bg-indigo-50 border border-indigo-100 rounded-lg">
+          <Wand2 className="w-5 h-5 text-indigo-600 mt-0.5 flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-indigo-900">Remixing an existing video</p>
+            <p className="text-xs text-indigo-700 mt-1 truncate">Original prompt: {remixSource.prompt}</p>
+            <p className="text-xs text-indigo-600 mt-1">
+              Edit the prompt to describe what should change. Model, resolution and duration come from the original.
+            </p>
+          </div>
+          {onCancelRemix && (
+            <button
+              type="button"
+              onClick={onCancelRemix}
+              disabled={isGenerating}
+              className="text-indigo-500 hover:text-indigo-700 p-1 rounded transition-colors"
+              title="Cancel remix"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+
+      {templates && !isRemixing && (
+        <div className="flex items-center gap-2">
+          <select
+            value={selectedTemplateId}
+            onChange={(e) => handleLoadTemplate(e.target.value)}
+            disabled={isGenerating}
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">{templates.length > 0 ? 'Start from a template…' : 'No saved templates yet'}</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+          {selectedTemplate && onDeleteTemplate && (
+            <button
+              type="button"
+              onClick={handleDeleteTemplate}
+              disabled={isGenerating}
+              className="p-2 text-gray-400 hover:text-red-600 rounded-lg transition-colors"
+              title="Delete this template"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+          {onSaveTemplate && (
+            <button
+              type="button"
+              onClick={handleSaveTemplate}
+              disabled={!prompt.trim() || isGenerating || isSavingTemplate}
+              className="flex items-center gap-1.5 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50"
+              title="Save the prompt, model, resolution and duration as a template"
+            >
+              <BookmarkPlus className="w-4 h-4" />
+              {isSavingTemplate ? 'Saving…' : 'Save as template'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {projects && onProjectChange && !isRemixing && (
+        <div className="flex items-center gap-2">
+          <Folder className="w-4 h-4 text-gray-500" />
+          <select
+            value={projectId}
+            onChange={(e) => handleProjectChange(e.target.value)}
+            disabled={isGenerating}
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            title="New videos, including batch runs, are added to this project"
+          >
+            <option value="">No project</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+            {onCreateProject && <option value={NEW_PROJECT_OPTION}>New project…</option>}
+          </select>
+        </div>
+      )}
+
       <div>
-        <label htmlFor="prompt" className="block text-sm font-medium text-gray-700 mb-2">
-          Video Description
-        </label>
-        <textarea
-          id="prompt"
-          value={prompt}
-          onChange={(e) => setPrompt(e.target.value)}
-          placeholder="Describe the video you want to generate in detail..."
-          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none transition-all"
-          rows={4}
-          disabled={isGenerating}
-          required
-        />
+        <div className="flex items-center justify-between mb-2">
+          <label htmlFor="prompt" className="block text-sm font-medium text-gray-700">
+            Video Description
+          </label>
+          {onToggleFavorite && (
+            <button
+              type="button"
+              onClick={() => setShowHistory(true)}
+              disabled={isGenerating}
+              className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 disabled:opacity-50"
+            >
+              <History className="w-3.5 h-3.5" />
+              Prompt history
+            </button>
+          )}
+        </div>
+        <div className="relative">
+          <textarea
+            id="prompt"
+            value={prompt}
+            onChange={(e) => {
+              setPrompt(e.target.value);
+              setSuggestionsOpen(true);
+              setHighlightedSuggestion(0);
+            }}
+            onKeyDown={handlePromptKeyDown}
+            onBlur={() => setSuggestionsOpen(false)}
+            placeholder="Describe the video you want to generate in detail..."
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none transition-all"
+            rows={4}
+            disabled={isGenerating}
+            required
+          />
+          {showSuggestions && (
+            <ul className="absolute left-0 right-0 top-full mt-1 z-20 bg-white border border-gray-200 rounded-lg shadow-xl max-h-72 overflow-y-auto">
+              {suggestions.map((entry, index) => (
+                <li key={entry.prompt}>
+                  <button
+                    type="button"
+                    // Keeps focus in the textarea so its blur doesn't close the list first
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => applySuggestion(entry)}
+                    onMouseEnter={() => setHighlightedSuggestion(index)}
+                    className={`w-full px-3 py-2 flex items-start gap-2 text-left ${
+                      index === highlightedSuggestion ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    {entry.favorite && (
+                      <Star className="w-3.5 h-3.5 mt-0.5 text-amber-500 shrink-0" fill="currentColor" />
+                    )}
+                    <span className="flex-1 min-w-0 text-sm text-gray-800 line-clamp-2">{entry.prompt}</span>
+                    <PromptOutcome entry={entry} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        {templateVariables.length > 0 && (
+          <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-3">
+            {templateVariables.map((name) => (
+              <div key={name}>
+                <label htmlFor={`template-${name}`} className="block text-xs font-medium text-gray-600 mb-1">
+                  {`{${name}}`}
+                </label>
+                <input
+                  id={`template-${name}`}
+                  value={templateValues[name] || ''}
+                  onChange={(e) => setTemplateValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                  disabled={isGenerating}
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  required
+                />
+              </div>
+            ))}
+          </div>
+        )}
+        <PreflightIssues issues={preflightIssues} />
         <div className="mt-2">
           <p className="text-xs text-gray-500 mb-2">Try an example:</p>
           <div className="flex flex-wrap gap-2">
@@ -232,66 +533,74 @@ export function VideoGenerationForm({ onSubmit, isGenerating }: VideoGenerationF
         </div>
       </div>
 
-      <div>
-        <label htmlFor="image" className="block text-sm font-medium text-gray-700 mb-2">
-          <Image className="inline w-4 h-4 mr-1" />
-          Starting Image (Optional)
-        </label>
-        {!imagePreview ? (
-          <div className="relative">
-            <input
-              type="file"
-              id="image"
-              accept="image/jpeg,image/jpg,image/png,image/webp"
-              onChange={handleImageChange}
-              disabled={isGenerating}
-              className="hidden"
-            />
-            <label
-              htmlFor="image"
-              className="flex flex-col items-center justify-center w-full h-32 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer hover:bg-gray-50 transition-colors"
-            >
-              <Image className="w-8 h-8 text-gray-400 mb-2" />
-              <span className="text-sm text-gray-500">Click to upload an image</span>
-              <span className="text-xs text-gray-400 mt-1">JPG, PNG, WEBP (Max 50MB)</span>
-            </label>
-          </div>
-        ) : (
-          <div className="relative">
-            <img
-              src={imagePreview}
-              alt="Preview"
-              className="w-full h-48 object-cover rounded-lg"
-            />
-            <button
-              type="button"
-              onClick={handleRemoveImage}
-              disabled={isGenerating}
-              className="absolute top-2 right-2 bg-red-500 hover:bg-red-600 text-white p-2 rounded-full shadow-lg transition-colors"
-            >
-              <X className="w-4 h-4" />
-            </button>
-          </div>
-        )}
-        <p className="mt-1 text-xs text-gray-500">
-          Upload an image to use as the starting frame or reference for your video. The image will be automatically resized to match the selected resolution.
-        </p>
-        {isResizing && (
-          <p className="mt-1 text-xs text-blue-600 font-medium">
-            Resizing image...
-          </p>
-        )}
-        {imageDimensions && !isResizing && (
-          <p className="mt-1 text-xs text-gray-600">
-            Original size: {imageDimensions.width}x{imageDimensions.height} pixels
-          </p>
-        )}
-        {imageInfo && !isResizing && (
-          <p className="mt-1 text-xs text-green-600 font-medium">
-            ✓ {imageInfo}
+      {!isRemixing && (
+        <div>
+          <label htmlFor="image" className="block text-sm font-medium text-gray-700 mb-2">
+            <Image className="inline w-4 h-4 mr-1" />
+            Starting Image (Optional)
+          </label>
+          {!imagePreview ? (
+            <div className="relative">
+              <input
+                type="file"
+                id="image"
+                accept="image/jpeg,image/jpg,image/png,image/webp"
+                onChange={handleImageChange}
+                disabled={isGenerating}
+                className="hidden"
+              />
+              <label
+                htmlFor="image"
+                className="flex flex-col items-center justify-center w-full h-32 border-2 border-gray-300 border-dashed rounded-lg cursor-pointer hover:bg-gray-50 transition-colors"
+              >
+                <Image className="w-8 h-8 text-gray-400 mb-2" />
+                <span className="text-sm text-gray-500">Click to upload an image</span>
+                <span className="text-xs text-gray-400 mt-1">JPG, PNG, WEBP (Max 50MB)</span>
+              </label>
+            </div>
+          ) : (
+            <div className="relative">
+              <img
+                src={imagePreview}
+                alt="Preview"
+                className="w-full h-48 object-cover rounded-lg"
+              />
+              <button
+                type="button"
+                onClick={handleRemoveImage}
+                disabled={isGenerating}
+                className="absolute top-2 right-2 bg-red-500 hover:bg-red-600 text-white p-2 rounded-full shadow-lg transition-colors"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+          <p className="mt-1 text-xs text-gray-500">
+            Upload an image to use as the starting frame or reference for your video. The image will be automatically resized to match the selected resolution.
           </p>
-        )}
-      </div>
+          {isResizing && (
+            <p className="mt-1 text-xs text-blue-600 font-medium">
+              Resizing image...
+            </p>
+          )}
+          {referenceFrame && imagePreview && (
+            <p className="mt-1 text-xs text-gray-600">
+              Frame at {referenceFrame.source.timestamp.toFixed(2)}s of video{' '}
+              <span className="font-mono">{referenceFrame.source.generationId.slice(0, 8)}</span>
+            </p>
+          )}
+          {imageDimensions && !isResizing && (
+            <p className="mt-1 text-xs text-gray-600">
+              Original size: {imageDimensions.width}x{imageDimensions.height} pixels
+            </p>
+          )}
+          {imageInfo && !isResizing && (
+            <p className="mt-1 text-xs text-green-600 font-medium">
+              ✓ {imageInfo}
+            </p>
+          )}
+        </div>
+      )}
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div>
@@ -304,7 +613,7 @@ export function VideoGenerationForm({ onSubmit, isGenerating }: VideoGenerationF
             value={model}
             onChange={(e) => setModel(e.target.value as SoraModel)}
             className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-            disabled={isGenerating}
+            disabled={isGenerating || isRemixing}
           >
             {MODEL_OPTIONS.map((option) => (
               <option key={option.value} value={option.value}>
@@ -327,7 +636,7 @@ export function VideoGenerationForm({ onSubmit, isGenerating }: VideoGenerationF
             value={resolution}
             onChange={(e) => setResolution(e.target.value as Resolution)}
             className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-            disabled={isGenerating}
+            disabled={isGenerating || isRemixing}
           >
             {availableResolutions.map((option) => (
               <option key={option.value} value={option.value}>
@@ -352,7 +661,7 @@ export function VideoGenerationForm({ onSubmit, isGenerating }: VideoGenerationF
             value={duration}
             onChange={(e) => setDuration(Number(e.target.value) as VideoDuration)}
             className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all"
-            disabled={isGenerating}
+            disabled={isGenerating || isRemixing}
           >
             {DURATION_OPTIONS.map((option) => (
               <option key={option.value} value={option.value}>
@@ -363,14 +672,43 @@ export function VideoGenerationForm({ onSubmit, isGenerating }: VideoGenerationF
         </div>
       </div>
 
+      {pricing && (
+        <div className="flex items-center justify-between px-4 py-3 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+          <span className="flex items-center gap-1.5 text-gray-600">
+            <DollarSign className="w-4 h-4" />
+            Estimated cost
+          </span>
+          {estimatedCost !== null && pricePerSecond !== null ? (
+            <span className="text-gray-800">
+              <span className="font-semibold">{formatCost(estimatedCost)}</span>
+              <span className="text-xs text-gray-500 ml-2">
+                {duration}s × {formatCost(pricePerSecond)}/s
+              </span>
+            </span>
+          ) : (
+            <span className="text-xs text-gray-500">No price configured for {model} at {resolution}</span>
+          )}
+        </div>
+      )}
+
       <button
         type="submit"
-        disabled={!prompt.trim() || isGenerating || isResizing}
+        disabled={!prompt.trim() || missingValues.length > 0 || preflightBlocked || isGenerating || isResizing}
         className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-4 px-6 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-lg hover:shadow-xl"
       >
         <Video className="w-5 h-5" />
-        {isGenerating ? 'Generating Video...' : 'Generate Video'}
+        {isGenerating
+          ? isRemixing ? 'Starting Remix...' : 'Generating Video...'
+          : isRemixing ? 'Remix Video' : 'Generate Video'}
       </button>
+      {showHistory && onToggleFavorite && (
+        <PromptHistoryDrawer
+          entries={promptHistory}
+          onSelect={setPrompt}
+          onToggleFavorite={onToggleFavorite}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </form>
   );
 }
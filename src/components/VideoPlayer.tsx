@@ -1,12 +1,56 @@
-import { VideoGeneration } from '../lib/supabase';
-import { Download, Calendar, Clock, Monitor, Sparkles, Trash2 } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { Collection, Project, VideoGeneration } from '../lib/supabase';
+import { RemixLineageNode, countLineageNodes } from '../lib/remix-lineage';
+import { RemixLineage } from './RemixLineage';
+import { SpritesheetPreview } from './SpritesheetPreview';
+import { GenerationOrganizer } from './GenerationOrganizer';
+import { ERROR_GUIDANCE } from '../lib/sora-errors';
+import { formatCost } from '../lib/pricing';
+import { Download, Calendar, Clock, Monitor, Sparkles, Trash2, Wand2, GitBranch, DollarSign, ImagePlus } from 'lucide-react';
 
 interface VideoPlayerProps {
   generation: VideoGeneration;
   onDelete?: (id: string) => void;
+  onRemix?: (generation: VideoGeneration) => void;
+  lineage?: RemixLineageNode;
+  onSetTags?: (generation: VideoGeneration, tags: string[]) => void;
+  onSelectTag?: (tag: string) => void;
+  // Omitted when the backend has no projects or collections
+  projects?: Project[];
+  onSetProject?: (generation: VideoGeneration, projectId: string | null) => void;
+  collections?: Collection[];
+  onToggleCollection?: (collection: Collection, generation: VideoGeneration) => void;
+  // Picks the video for the compare view; only offered once it has finished
+  compareSelected?: boolean;
+  onToggleCompare?: (generation: VideoGeneration) => void;
+  // Offered while the video is paused; the caller grabs the frame on screen
+  onUseFrame?: (generation: VideoGeneration, video: HTMLVideoElement) => void;
 }
 
-export function VideoPlayer({ generation, onDelete }: VideoPlayerProps) {
+export function VideoPlayer({
+  generation,
+  onDelete,
+  onRemix,
+  lineage,
+  onSetTags,
+  onSelectTag,
+  projects,
+  onSetProject,
+  collections,
+  onToggleCollection,
+  compareSelected = false,
+  onToggleCompare,
+  onUseFrame,
+}: VideoPlayerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [showLineage, setShowLineage] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  // The poster shows until a frame has loaded, and that can't be captured
+  const [hasFrame, setHasFrame] = useState(false);
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+  const lineageSize = lineage ? countLineageNodes(lineage) : 0;
+  const errorGuidance = ERROR_GUIDANCE[generation.error_category || 'unknown'];
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
   };
@@ -20,18 +64,43 @@ export function VideoPlayer({ generation, onDelete }: VideoPlayerProps) {
     }
   };
 
+  const handleScrubMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const y = (e.clientY - rect.top) / rect.height;
+    // Leave the bottom of the player alone so the native controls stay visible
+    if (y > 0.85) {
+      setScrubPosition(null);
+      return;
+    }
+    setScrubPosition((e.clientX - rect.left) / rect.width);
+  };
+
   return (
     <div className="bg-white rounded-xl shadow-lg overflow-hidden border border-gray-200">
       {generation.status === 'completed' && generation.video_url ? (
-        <div className="relative">
+        <div
+          className="relative"
+          onMouseMove={generation.spritesheet_url ? handleScrubMove : undefined}
+          onMouseLeave={() => setScrubPosition(null)}
+        >
           <video
+            ref={videoRef}
             src={generation.video_url}
+            crossOrigin="anonymous"
             controls
             className="w-full aspect-video bg-black"
-            poster=""
+            poster={generation.thumbnail_url || undefined}
+            preload={generation.thumbnail_url ? 'none' : 'metadata'}
+            onPlay={() => setIsPlaying(true)}
+            onPause={() => setIsPlaying(false)}
+            onEnded={() => setIsPlaying(false)}
+            onLoadedData={() => setHasFrame(true)}
           >
             Your browser does not support the video tag.
           </video>
+          {generation.spritesheet_url && !isPlaying && scrubPosition !== null && (
+            <SpritesheetPreview url={generation.spritesheet_url} position={scrubPosition} />
+          )}
           <button
             onClick={handleDownload}
             className="absolute top-4 right-4 bg-white/90 hover:bg-white text-gray-800 p-2 rounded-lg shadow-lg transition-all"
@@ -39,6 +108,32 @@ export function VideoPlayer({ generation, onDelete }: VideoPlayerProps) {
           >
             <Download className="w-5 h-5" />
           </button>
+          {onUseFrame && hasFrame && !isPlaying && (
+            <button
+              onClick={() => videoRef.current && onUseFrame(generation, videoRef.current)}
+              className="absolute top-4 right-16 flex items-center gap-1.5 bg-white/90 hover:bg-white text-gray-800 px-2.5 py-2 rounded-lg shadow-lg text-xs font-medium transition-all"
+              title="Start a new video from the frame shown"
+            >
+              <ImagePlus className="w-4 h-4" />
+              Use as starting image
+            </button>
+          )}
+          {onToggleCompare && (
+            <label
+              className={`absolute top-4 left-4 flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg shadow-lg text-xs font-medium cursor-pointer transition-all ${
+                compareSelected ? 'bg-blue-600 text-white' : 'bg-white/90 hover:bg-white text-gray-800'
+              }`}
+              title="Select for side-by-side comparison"
+            >
+              <input
+                type="checkbox"
+                checked={compareSelected}
+                onChange={() => onToggleCompare(generation)}
+                className="rounded"
+              />
+              Compare
+            </label>
+          )}
         </div>
       ) : generation.status === 'processing' ? (
         <div className="aspect-video bg-gradient-to-br from-blue-50 to-indigo-50 flex items-center justify-center">
@@ -54,10 +149,18 @@ export function VideoPlayer({ generation, onDelete }: VideoPlayerProps) {
             <div className="w-12 h-12 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
               <span className="text-red-600 text-2xl">✕</span>
             </div>
-            <p className="text-red-600 font-medium">Generation Failed</p>
+            <p className="text-red-600 font-medium">{errorGuidance.title}</p>
             {generation.error_message && (
               <p className="text-sm text-red-500 mt-2">{generation.error_message}</p>
             )}
+            <p className="text-xs text-red-700 mt-3 max-w-sm mx-auto">{errorGuidance.guidance}</p>
+            {(generation.error_code || generation.error_request_id) && (
+              <p className="text-[10px] text-red-400 mt-2 font-mono">
+                {[generation.error_status, generation.error_code, generation.error_request_id]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </p>
+            )}
           </div>
         </div>
       ) : (
@@ -79,11 +182,30 @@ export function VideoPlayer({ generation, onDelete }: VideoPlayerProps) {
               alt="Starting image"
               className="w-full h-32 object-cover rounded-lg"
             />
-            <p className="text-xs text-gray-500 mt-1">Starting image: {generation.image_filename}</p>
+            <p className="text-xs text-gray-500 mt-1">
+              {generation.source_generation_id && generation.source_timestamp !== null ? (
+                <>
+                  Starting image: frame at {generation.source_timestamp.toFixed(2)}s of video{' '}
+                  <span className="font-mono">{generation.source_generation_id.slice(0, 8)}</span>
+                </>
+              ) : (
+                `Starting image: ${generation.image_filename}`
+              )}
+            </p>
           </div>
         )}
         <div className="flex items-start justify-between mb-4">
           <p className="text-gray-800 leading-relaxed flex-1">{generation.prompt}</p>
+          {onRemix && generation.status === 'completed' && generation.openai_job_id && (
+            <button
+              onClick={() => onRemix(generation)}
+              className="ml-4 flex items-center gap-1.5 text-indigo-600 hover:text-indigo-700 px-3 py-2 hover:bg-indigo-50 rounded-lg transition-colors text-sm font-medium"
+              title="Remix this video with a new prompt"
+            >
+              <Wand2 className="w-4 h-4" />
+              Remix
+            </button>
+          )}
           {onDelete && (
             <button
               onClick={() => onDelete(generation.id)}
@@ -114,8 +236,18 @@ export function VideoPlayer({ generation, onDelete }: VideoPlayerProps) {
           </div>
         </div>
 
+        <GenerationOrganizer
+          generation={generation}
+          onSetTags={onSetTags}
+          onSelectTag={onSelectTag}
+          projects={projects}
+          onSetProject={onSetProject}
+          collections={collections}
+          onToggleCollection={onToggleCollection}
+        />
+
         {generation.status && (
-          <div className="mt-4 pt-4 border-t border-gray-200">
+          <div className="mt-4 pt-4 border-t border-gray-200 flex items-center justify-between">
             <span
               className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium ${
                 generation.status === 'completed'
@@ -129,6 +261,32 @@ export function VideoPlayer({ generation, onDelete }: VideoPlayerProps) {
             >
               {generation.status.charAt(0).toUpperCase() + generation.status.slice(1)}
             </span>
+            {(generation.cost !== null || generation.estimated_cost !== null) && (
+              <span
+                className="flex items-center gap-1 text-xs text-gray-600"
+                title={generation.cost !== null ? 'Actual cost' : 'Estimated cost'}
+              >
+                <DollarSign className="w-3.5 h-3.5" />
+                {generation.cost !== null
+                  ? formatCost(generation.cost)
+                  : `~${formatCost(generation.estimated_cost)}`}
+              </span>
+            )}
+            {lineage && lineageSize > 1 && (
+              <button
+                onClick={() => setShowLineage(!showLineage)}
+                className="flex items-center gap-1.5 text-xs font-medium text-gray-600 hover:text-gray-800 px-2 py-1 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <GitBranch className="w-3.5 h-3.5" />
+                {showLineage ? 'Hide lineage' : `Remix lineage (${lineageSize})`}
+              </button>
+            )}
+          </div>
+        )}
+
+        {lineage && showLineage && (
+          <div className="mt-3 p-3 bg-gray-50 rounded-lg border border-gray-100">
+            <RemixLineage tree={lineage} currentId={generation.id} />
           </div>
         )}
       </div>
@@ -0,0 +1,218 @@
+// Where the browser-key flow keeps the user's OpenAI key profiles between
+// visits. Plain profiles are the original behaviour; encrypted profiles need
+// the passphrase on every load; session profiles disappear when the tab closes.
+export type ApiKeyStorageMode = 'plain' | 'encrypted' | 'session';
+
+export interface ApiKeyProfile {
+  id: string;
+  name: string;
+  apiKey: string;
+  // Sent as OpenAI-Organization / OpenAI-Project when set
+  organization?: string;
+  project?: string;
+}
+
+export interface EncryptedProfiles {
+  version: 1;
+  iterations: number;
+  // Base64
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+export type StoredProfiles =
+  | { mode: 'plain'; profiles: ApiKeyProfile[] }
+  | { mode: 'session'; profiles: ApiKeyProfile[] }
+  | { mode: 'encrypted'; encrypted: EncryptedProfiles };
+
+// Held in memory while encrypted profiles are unlocked, so edits can be saved
+// again without asking for the passphrase. The key itself can't be exported.
+export interface ProfileEncryption {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
+
+export interface SaveProfilesOptions {
+  mode: ApiKeyStorageMode;
+  // For 'encrypted': a new passphrase, or the encryption of the unlocked profiles
+  passphrase?: string;
+  encryption?: ProfileEncryption | null;
+  // Only used with 'encrypted'; see getAutoLockMinutes
+  autoLockMinutes?: number;
+}
+
+const API_KEY_STORAGE_KEY = 'openai_api_key';
+const ENCRYPTED_API_KEY_STORAGE_KEY = 'openai_api_key_encrypted';
+const AUTO_LOCK_STORAGE_KEY = 'openai_api_key_auto_lock_minutes';
+const ACTIVE_PROFILE_STORAGE_KEY = 'openai_api_key_active_profile';
+
+export const AUTO_LOCK_CHOICES = [5, 15, 30, 60, 0];
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600_000;
+
+export class IncorrectPassphraseError extends Error {
+  constructor() {
+    super('Incorrect passphrase');
+    this.name = 'IncorrectPassphraseError';
+  }
+}
+
+export function createProfile(fields: Partial<ApiKeyProfile> = {}): ApiKeyProfile {
+  return { id: crypto.randomUUID(), name: '', apiKey: '', ...fields };
+}
+
+export function loadStoredProfiles(): StoredProfiles | null {
+  const sessionValue = sessionStorage.getItem(API_KEY_STORAGE_KEY);
+  if (sessionValue) {
+    return { mode: 'session', profiles: parseProfiles(sessionValue) };
+  }
+
+  const encrypted = localStorage.getItem(ENCRYPTED_API_KEY_STORAGE_KEY);
+  if (encrypted) {
+    try {
+      return { mode: 'encrypted', encrypted: JSON.parse(encrypted) };
+    } catch (error) {
+      console.error('[api-key-storage] Ignoring unreadable encrypted profiles:', error);
+    }
+  }
+
+  const plainValue = localStorage.getItem(API_KEY_STORAGE_KEY);
+  return plainValue ? { mode: 'plain', profiles: parseProfiles(plainValue) } : null;
+}
+
+// Replaces whatever was stored before, so keys only ever live in one place
+export async function saveProfiles(
+  profiles: ApiKeyProfile[],
+  { mode, passphrase, encryption, autoLockMinutes }: SaveProfilesOptions
+): Promise<{ stored: StoredProfiles; encryption: ProfileEncryption | null }> {
+  const serialized = JSON.stringify(profiles);
+
+  if (mode === 'encrypted') {
+    const activeEncryption = passphrase ? await createEncryption(passphrase) : encryption;
+    if (!activeEncryption) {
+      throw new Error('A passphrase is required to encrypt the API keys');
+    }
+
+    const encrypted = await encrypt(serialized, activeEncryption);
+    clearStoredProfiles();
+    localStorage.setItem(ENCRYPTED_API_KEY_STORAGE_KEY, JSON.stringify(encrypted));
+    if (autoLockMinutes !== undefined) {
+      localStorage.setItem(AUTO_LOCK_STORAGE_KEY, String(autoLockMinutes));
+    }
+    return { stored: { mode: 'encrypted', encrypted }, encryption: activeEncryption };
+  }
+
+  clearStoredProfiles();
+  (mode === 'session' ? sessionStorage : localStorage).setItem(API_KEY_STORAGE_KEY, serialized);
+  return { stored: { mode, profiles }, encryption: null };
+}
+
+export function clearStoredProfiles() {
+  localStorage.removeItem(API_KEY_STORAGE_KEY);
+  localStorage.removeItem(ENCRYPTED_API_KEY_STORAGE_KEY);
+  sessionStorage.removeItem(API_KEY_STORAGE_KEY);
+}
+
+// Not secret, so kept outside the (possibly encrypted) profile list and
+// switching profiles never needs the passphrase
+export function getActiveProfileId(): string | null {
+  return localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY);
+}
+
+export function setActiveProfileId(id: string) {
+  localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
+}
+
+// Minutes of inactivity before unlocked profiles are locked again; 0 never locks
+export function getAutoLockMinutes(): number {
+  const stored = localStorage.getItem(AUTO_LOCK_STORAGE_KEY);
+  const minutes = stored === null ? NaN : Number(stored);
+  return Number.isInteger(minutes) && minutes >= 0 ? minutes : DEFAULT_AUTO_LOCK_MINUTES;
+}
+
+// AES-GCM authenticates the ciphertext, so a wrong passphrase fails to decrypt
+// rather than producing garbage
+export async function unlockProfiles(
+  encrypted: EncryptedProfiles,
+  passphrase: string
+): Promise<{ profiles: ApiKeyProfile[]; encryption: ProfileEncryption }> {
+  const salt = fromBase64(encrypted.salt);
+  const encryption: ProfileEncryption = {
+    key: await deriveKey(passphrase, salt, encrypted.iterations),
+    salt,
+    iterations: encrypted.iterations,
+  };
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(encrypted.iv) },
+      encryption.key,
+      fromBase64(encrypted.ciphertext)
+    );
+  } catch {
+    throw new IncorrectPassphraseError();
+  }
+
+  return { profiles: parseProfiles(new TextDecoder().decode(plaintext)), encryption };
+}
+
+// Before profiles existed a single raw key was stored; it becomes "Default"
+function parseProfiles(value: string): ApiKeyProfile[] {
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) {
+      return parsed.filter((profile) => typeof profile?.apiKey === 'string' && profile.apiKey.trim());
+    }
+  } catch {
+    // Not JSON, so a key saved by an older version
+  }
+
+  const key = value.trim();
+  return key ? [createProfile({ id: 'default', name: 'Default', apiKey: key })] : [];
+}
+
+async function createEncryption(passphrase: string): Promise<ProfileEncryption> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), salt, iterations: PBKDF2_ITERATIONS };
+}
+
+async function encrypt(plaintext: string, { key, salt, iterations }: ProfileEncryption): Promise<EncryptedProfiles> {
+  // A fresh IV for every save; reusing one with the same key breaks AES-GCM
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+
+  return {
+    version: 1,
+    iterations,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
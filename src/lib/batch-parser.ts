@@ -0,0 +1,256 @@
+import {
+  SoraModel,
+  Resolution,
+  VideoDuration,
+  RESOLUTION_OPTIONS,
+  DURATION_OPTIONS,
+  MODEL_OPTIONS,
+} from './sora-api';
+import { extractTemplateVariables, fillTemplate, missingTemplateValues, TemplateValues } from './prompt-templates';
+
+export type BatchInputFormat = 'lines' | 'csv' | 'template';
+
+export interface BatchDefaults {
+  model: SoraModel;
+  resolution: Resolution;
+  duration: VideoDuration;
+}
+
+export interface BatchRow {
+  // 1-based source line the prompt, or the CSV record, starts on
+  row: number;
+  prompt: string;
+  model: SoraModel;
+  resolution: Resolution;
+  duration: VideoDuration;
+  imageFilename: string | null;
+  errors: string[];
+}
+
+interface CsvRecord {
+  // 1-based; quoted fields can span lines, so records and lines differ
+  line: number;
+  cells: string[];
+}
+
+const CSV_COLUMNS = ['prompt', 'model', 'resolution', 'duration', 'image'] as const;
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+const COLUMN_ALIASES: Record<string, CsvColumn> = {
+  prompt: 'prompt',
+  model: 'model',
+  resolution: 'resolution',
+  size: 'resolution',
+  duration: 'duration',
+  seconds: 'duration',
+  image: 'image',
+  image_filename: 'image',
+  imagefilename: 'image',
+};
+
+export function parseBatchInput(
+  text: string,
+  format: BatchInputFormat,
+  defaults: BatchDefaults,
+  availableImages: Set<string> = new Set()
+): BatchRow[] {
+  if (format === 'lines') {
+    return text
+      .split(/\r?\n/)
+      .map((line, index) => ({ row: index + 1, prompt: line.trim() }))
+      .filter(({ prompt }) => prompt.length > 0)
+      .map(({ row, prompt }) => validateRow(row, { prompt }, defaults, availableImages));
+  }
+
+  const records = parseCsv(text);
+  if (records.length === 0) {
+    return [];
+  }
+
+  // A header row is optional; without one the columns are read in CSV_COLUMNS order
+  const headerColumns = records[0].cells.map((cell) => COLUMN_ALIASES[cell.trim().toLowerCase()]);
+  const hasHeader = headerColumns.includes('prompt');
+  const columns: (CsvColumn | undefined)[] = hasHeader ? headerColumns : [...CSV_COLUMNS];
+  const dataRecords = hasHeader ? records.slice(1) : records;
+
+  return dataRecords.map(({ line, cells }) => {
+    const values: Partial<Record<CsvColumn, string>> = {};
+    columns.forEach((column, i) => {
+      if (column && cells[i] !== undefined) {
+        values[column] = cells[i].trim();
+      }
+    });
+    return validateRow(line, values, defaults, availableImages);
+  });
+}
+
+// Expands a prompt template over a CSV table of placeholder values, one
+// generation per record. The header names the placeholders; model,
+// resolution, duration and image columns are read as in the CSV format. Without
+// a header the columns are the placeholders in the order they appear.
+export function parseTemplateBatch(
+  template: string,
+  text: string,
+  defaults: BatchDefaults,
+  availableImages: Set<string> = new Set()
+): BatchRow[] {
+  const variables = extractTemplateVariables(template);
+  const records = parseCsv(text);
+  if (records.length === 0) {
+    return [];
+  }
+
+  const header = records[0].cells.map((cell) => cell.trim());
+  const hasHeader = header.some((cell) => variables.includes(cell));
+  const columns = hasHeader ? header : variables;
+  const dataRecords = hasHeader ? records.slice(1) : records;
+
+  return dataRecords.map(({ line, cells }) => {
+    const templateValues: TemplateValues = {};
+    const values: Partial<Record<CsvColumn, string>> = {};
+    columns.forEach((column, i) => {
+      const cell = cells[i]?.trim();
+      if (cell === undefined) return;
+      const setting = COLUMN_ALIASES[column.toLowerCase()];
+      if (variables.includes(column)) {
+        templateValues[column] = cell;
+      } else if (setting && setting !== 'prompt') {
+        values[setting] = cell;
+      }
+    });
+
+    const row = validateRow(
+      line,
+      { ...values, prompt: fillTemplate(template, templateValues).trim() },
+      defaults,
+      availableImages
+    );
+    const missing = missingTemplateValues(template, templateValues);
+    if (missing.length > 0) {
+      row.errors.unshift(`Missing ${missing.map((name) => `{${name}}`).join(', ')}`);
+    }
+    return row;
+  });
+}
+
+function validateRow(
+  row: number,
+  values: Partial<Record<CsvColumn, string>>,
+  defaults: BatchDefaults,
+  availableImages: Set<string>
+): BatchRow {
+  const errors: string[] = [];
+  const prompt = values.prompt || '';
+
+  if (!prompt) {
+    errors.push('Prompt is empty');
+  }
+
+  let model = defaults.model;
+  if (values.model) {
+    const option = MODEL_OPTIONS.find((o) => o.value === values.model);
+    if (option) {
+      model = option.value;
+    } else {
+      errors.push(`Unknown model "${values.model}"`);
+    }
+  }
+
+  let resolution = defaults.resolution;
+  if (values.resolution) {
+    const option = RESOLUTION_OPTIONS.find((o) => o.value === values.resolution);
+    if (option) {
+      resolution = option.value;
+    } else {
+      errors.push(`Unsupported resolution "${values.resolution}"`);
+    }
+  }
+
+  const resolutionOption = RESOLUTION_OPTIONS.find((o) => o.value === resolution);
+  if (resolutionOption && !resolutionOption.model.includes(model)) {
+    errors.push(`${resolution} requires ${resolutionOption.model.join(' or ')}`);
+  }
+
+  let duration = defaults.duration;
+  if (values.duration) {
+    const seconds = Number(values.duration.replace(/s$/i, ''));
+    const option = DURATION_OPTIONS.find((o) => o.value === seconds);
+    if (option) {
+      duration = option.value;
+    } else {
+      errors.push(
+        `Duration must be one of ${DURATION_OPTIONS.map((o) => o.value).join(', ')} seconds`
+      );
+    }
+  }
+
+  const imageFilename = values.image || null;
+  if (imageFilename && !availableImages.has(imageFilename)) {
+    errors.push(`Image "${imageFilename}" has not been added`);
+  }
+
+  return { row, prompt, model, resolution, duration, imageFilename, errors };
+}
+
+// Minimal RFC 4180 parser: quoted fields may contain commas, newlines and
+// doubled quotes. Blank records are dropped; the rest keep the line they
+// start on, so messages point at the right place in the source.
+function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.some((cell) => cell.trim() !== '')) {
+      records.push({ line: recordLine, cells: record });
+    }
+    record = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) {
+      line++;
+    }
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+        line++;
+      }
+      endRecord();
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
@@ -0,0 +1,59 @@
+export interface FuzzyMatch<T> {
+  item: T;
+  score: number;
+}
+
+// Scores how well `query` matches `text` as an in-order subsequence, ignoring
+// case and whitespace in the query. Consecutive characters and characters at
+// the start of a word score higher, so "gold hr" ranks "golden hour" above a
+// prompt that merely contains those letters. Null when it doesn't match.
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) {
+    return 0;
+  }
+
+  const haystack = text.toLowerCase();
+  let score = 0;
+  let streak = 0;
+  let position = 0;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position);
+    if (index === -1) {
+      return null;
+    }
+
+    streak = index === position ? streak + 1 : 0;
+    score += 1 + streak * 2;
+    if (index === 0 || /\W/.test(haystack[index - 1])) {
+      score += 3;
+    }
+    // Gaps cost a little, so tighter matches win
+    score -= Math.min(index - position, 10) * 0.1;
+    position = index + 1;
+  }
+
+  // A literal substring match beats any scattered one
+  if (haystack.includes(query.trim().toLowerCase())) {
+    score += needle.length * 2;
+  }
+
+  return score;
+}
+
+// Best matches first; ties keep the input order
+export function fuzzySearch<T>(items: T[], query: string, getText: (item: T) => string, limit = Infinity): T[] {
+  const matches: FuzzyMatch<T>[] = [];
+  items.forEach((item) => {
+    const score = fuzzyScore(query, getText(item));
+    if (score !== null) {
+      matches.push({ item, score });
+    }
+  });
+
+  return matches
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((match) => match.item);
+}
@@ -0,0 +1,205 @@
+import { VideoGeneration } from './supabase';
+import { GenerationListFilter, GenerationSort } from './persistence';
+
+export type HistoryImageFilter = '' | 'with' | 'without';
+
+// What the history filter bar edits. It is mirrored in the page URL so a
+// filtered view survives a reload and can be shared; '' means "any".
+export interface HistoryQuery {
+  search: string;
+  statuses: VideoGeneration['status'][];
+  model: VideoGeneration['model'] | '';
+  resolution: string;
+  duration: string;
+  image: HistoryImageFilter;
+  // YYYY-MM-DD in local time, both ends inclusive
+  from: string;
+  to: string;
+  profile: string;
+  // Project id
+  project: string;
+  tag: string;
+  sort: GenerationSort;
+}
+
+export const GENERATION_SORT_LABELS: Record<GenerationSort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  longest: 'Longest first',
+  priciest: 'Most expensive first',
+};
+
+export const GENERATION_STATUSES: VideoGeneration['status'][] = ['pending', 'processing', 'completed', 'failed'];
+
+const MODELS: VideoGeneration['model'][] = ['sora-2', 'sora-2-pro'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const EMPTY_HISTORY_QUERY: HistoryQuery = {
+  search: '',
+  statuses: [],
+  model: '',
+  resolution: '',
+  duration: '',
+  image: '',
+  from: '',
+  to: '',
+  profile: '',
+  project: '',
+  tag: '',
+  sort: 'newest',
+};
+
+// Unknown or malformed values are dropped rather than rejected, since the URL
+// may have been typed or edited by hand
+export function parseHistoryQuery(params: URLSearchParams): HistoryQuery {
+  const model = params.get('model') as VideoGeneration['model'];
+  const duration = params.get('duration') ?? '';
+  const image = params.get('image');
+  const sort = params.get('sort') as GenerationSort;
+  const date = (key: string) => {
+    const value = params.get(key) ?? '';
+    return DATE_PATTERN.test(value) ? value : '';
+  };
+
+  return {
+    search: params.get('q') ?? '',
+    statuses: (params.get('status') ?? '')
+      .split(',')
+      .filter((status): status is VideoGeneration['status'] =>
+        GENERATION_STATUSES.includes(status as VideoGeneration['status'])
+      ),
+    model: MODELS.includes(model) ? model : '',
+    resolution: params.get('resolution') ?? '',
+    duration: /^\d+$/.test(duration) ? duration : '',
+    image: image === 'with' || image === 'without' ? image : '',
+    from: date('from'),
+    to: date('to'),
+    profile: params.get('profile') ?? '',
+    project: params.get('project') ?? '',
+    tag: params.get('tag') ?? '',
+    sort: (Object.keys(GENERATION_SORT_LABELS) as GenerationSort[]).includes(sort) ? sort : 'newest',
+  };
+}
+
+// Writes only the values that differ from the defaults and leaves any other
+// params alone
+export function writeHistoryQuery(query: HistoryQuery, params: URLSearchParams): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const set = (key: string, value: string) => (value ? next.set(key, value) : next.delete(key));
+
+  set('q', query.search.trim());
+  set('status', query.statuses.join(','));
+  set('model', query.model);
+  set('resolution', query.resolution);
+  set('duration', query.duration);
+  set('image', query.image);
+  set('from', query.from);
+  set('to', query.to);
+  set('profile', query.profile);
+  set('project', query.project);
+  set('tag', query.tag);
+  set('sort', query.sort === 'newest' ? '' : query.sort);
+  return next;
+}
+
+export function isHistoryQueryFiltered(query: HistoryQuery): boolean {
+  return (
+    query.search.trim() !== '' ||
+    query.statuses.length > 0 ||
+    query.model !== '' ||
+    query.resolution !== '' ||
+    query.duration !== '' ||
+    query.image !== '' ||
+    query.from !== '' ||
+    query.to !== '' ||
+    query.profile !== '' ||
+    query.project !== '' ||
+    query.tag !== ''
+  );
+}
+
+export function historyQueryToFilter(query: HistoryQuery): GenerationListFilter {
+  const filter: GenerationListFilter = {};
+  const search = query.search.trim();
+
+  if (search) filter.search = search;
+  if (query.statuses.length > 0) filter.statuses = query.statuses;
+  if (query.model) filter.model = query.model;
+  if (query.resolution) filter.resolution = query.resolution;
+  if (query.duration) filter.duration = Number(query.duration);
+  if (query.image) filter.hasImage = query.image === 'with';
+  if (query.profile) filter.apiProfile = query.profile;
+  if (query.project) filter.projectId = query.project;
+  if (query.tag) filter.tag = query.tag;
+  if (query.from) {
+    filter.createdFrom = startOfLocalDay(query.from).toISOString();
+  }
+  if (query.to) {
+    const end = startOfLocalDay(query.to);
+    end.setDate(end.getDate() + 1);
+    filter.createdBefore = end.toISOString();
+  }
+  return filter;
+}
+
+// Applies a filter in memory, for backends without a query engine and to
+// decide whether a live change belongs in the current view. Search follows
+// Postgres websearch syntax closely enough for a local history: every word
+// must appear, "quoted phrases" must appear as written and -words must not.
+// There is no stemming, and "or" is ignored.
+export function matchesGenerationFilter(row: VideoGeneration, filter: GenerationListFilter): boolean {
+  const createdAt = new Date(row.created_at).getTime();
+
+  return (
+    (!filter.userId || row.user_id === filter.userId) &&
+    (!filter.apiProfile || row.api_profile === filter.apiProfile) &&
+    (!filter.ids || filter.ids.includes(row.id)) &&
+    (!filter.projectId || row.project_id === filter.projectId) &&
+    (!filter.tag || (row.tags ?? []).includes(filter.tag)) &&
+    (!filter.statuses?.length || filter.statuses.includes(row.status)) &&
+    (!filter.model || row.model === filter.model) &&
+    (!filter.resolution || row.resolution === filter.resolution) &&
+    (filter.duration === undefined || row.duration === filter.duration) &&
+    (filter.hasImage === undefined || Boolean(row.image_url) === filter.hasImage) &&
+    (!filter.createdFrom || createdAt >= new Date(filter.createdFrom).getTime()) &&
+    (!filter.createdBefore || createdAt < new Date(filter.createdBefore).getTime()) &&
+    (!filter.search || matchesSearch(row.prompt, filter.search))
+  );
+}
+
+export function compareGenerations(sort: GenerationSort = 'newest'): (a: VideoGeneration, b: VideoGeneration) => number {
+  const newest = (a: VideoGeneration, b: VideoGeneration) => b.created_at.localeCompare(a.created_at);
+
+  switch (sort) {
+    case 'oldest':
+      return (a, b) => a.created_at.localeCompare(b.created_at);
+    case 'longest':
+      return (a, b) => b.duration - a.duration || newest(a, b);
+    case 'priciest':
+      // Unsettled rows have no cost yet and go last, by their estimate
+      return (a, b) =>
+        (b.cost ?? -1) - (a.cost ?? -1) || (b.estimated_cost ?? -1) - (a.estimated_cost ?? -1) || newest(a, b);
+    default:
+      return newest;
+  }
+}
+
+function matchesSearch(prompt: string, search: string): boolean {
+  const text = prompt.toLowerCase();
+
+  for (const match of search.toLowerCase().matchAll(/(-?)(?:"([^"]*)"|(\S+))/g)) {
+    const term = (match[2] ?? match[3] ?? '').trim();
+    if (!term || term === 'or') {
+      continue;
+    }
+    if (text.includes(term) === (match[1] === '-')) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function startOfLocalDay(date: string): Date {
+  return new Date(`${date}T00:00:00`);
+}
@@ -0,0 +1,12 @@
+export const MAX_TAG_LENGTH = 40;
+
+// Tags are compared case-insensitively and stored in lower case, so "Client X"
+// and "client x" are the same tag
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_TAG_LENGTH);
+}
+
+// Distinct, non-empty tags in the order given
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTag).filter(Boolean))];
+}
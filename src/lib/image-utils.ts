@@ -0,0 +1,165 @@
+import { Resolution } from './sora-api';
+
+export interface ResizedImage {
+  file: File;
+  originalWidth: number;
+  originalHeight: number;
+}
+
+// Fits an image to the exact pixel size Sora expects for `input_reference`,
+// scaling to cover the target and cropping whatever overflows.
+export async function resizeImageToResolution(
+  file: File,
+  targetResolution: Resolution
+): Promise<ResizedImage> {
+  const [targetWidth, targetHeight] = targetResolution.split('x').map(Number);
+
+  // Load the image
+  const img = document.createElement('img');
+  const url = URL.createObjectURL(file);
+
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve();
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image'));
+    };
+    img.src = url;
+  });
+
+  const originalWidth = img.width;
+  const originalHeight = img.height;
+
+  // Calculate scaling to maintain aspect ratio
+  const scale = Math.max(targetWidth / originalWidth, targetHeight / originalHeight);
+  const scaledWidth = originalWidth * scale;
+  const scaledHeight = originalHeight * scale;
+
+  // Create canvas for resizing
+  const canvas = document.createElement('canvas');
+  canvas.width = targetWidth;
+  canvas.height = targetHeight;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  // Fill with white background (for padding)
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, targetWidth, targetHeight);
+
+  // Calculate position to center the scaled image
+  const x = (targetWidth - scaledWidth) / 2;
+  const y = (targetHeight - scaledHeight) / 2;
+
+  // Draw the scaled image (will crop if larger than target, pad if smaller)
+  ctx.drawImage(img, x, y, scaledWidth, scaledHeight);
+
+  // Convert canvas to blob
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Failed to convert canvas to blob'));
+        }
+      },
+      file.type || 'image/jpeg',
+      0.95 // High quality
+    );
+  });
+
+  // Create a new File from the blob
+  const resizedFile = new File([blob], file.name, {
+    type: file.type || 'image/jpeg',
+    lastModified: Date.now(),
+  });
+
+  return { file: resizedFile, originalWidth, originalHeight };
+}
+
+export interface CapturedFrame {
+  file: File;
+  // Seconds into the video
+  timestamp: number;
+}
+
+// Draws the frame a video element is showing into a JPEG. Remote videos must
+// be served with CORS headers and loaded with crossOrigin set, or the canvas
+// can't be read back.
+export async function captureVideoFrame(video: HTMLVideoElement, fileName: string): Promise<CapturedFrame> {
+  if (!video.videoWidth || !video.videoHeight) {
+    throw new Error('Failed to capture frame: the video has not loaded yet');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+
+  ctx.drawImage(video, 0, 0);
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Failed to convert canvas to blob'));
+        }
+      },
+      'image/jpeg',
+      0.95
+    );
+  });
+
+  return {
+    file: new File([blob], fileName, { type: 'image/jpeg', lastModified: Date.now() }),
+    timestamp: video.currentTime,
+  };
+}
+
+// Seeking exactly to the end shows a black frame in some browsers
+const LAST_FRAME_OFFSET_S = 0.05;
+
+// Grabs the final frame of a stored video, e.g. to start the next storyboard
+// shot where the previous one ended
+export async function extractLastFrame(videoUrl: string, fileName: string): Promise<CapturedFrame> {
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.muted = true;
+  video.preload = 'auto';
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadedmetadata = () => resolve();
+      video.onerror = () => reject(new Error('Failed to load video'));
+      video.src = videoUrl;
+    });
+
+    if (!Number.isFinite(video.duration)) {
+      throw new Error('Failed to read video duration');
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      video.onseeked = () => resolve();
+      video.onerror = () => reject(new Error('Failed to seek video'));
+      video.currentTime = Math.max(0, video.duration - LAST_FRAME_OFFSET_S);
+    });
+
+    return await captureVideoFrame(video, fileName);
+  } finally {
+    // Let the browser drop the buffered video
+    video.removeAttribute('src');
+    video.load();
+  }
+}
@@ -0,0 +1,589 @@
+import { PromptHistoryEntry, VideoGeneration } from './supabase';
+import { DEFAULT_PRICING, PriceEntry } from './pricing';
+import { PreflightRules } from './prompt-preflight';
+import { compareGenerations, matchesGenerationFilter } from './generation-query';
+import {
+  GenerationListFilter,
+  GenerationPage,
+  GenerationPageRequest,
+  GenerationRepository,
+  GenerationSubscriptionHandlers,
+  PreflightRuleStore,
+  StorageBackend,
+  StorageBucket,
+  StorageEntry,
+  StorageObjectRef,
+  UploadOptions,
+} from './persistence';
+
+const DATABASE_NAME = 'sora2-tool';
+const DATABASE_VERSION = 2;
+const GENERATIONS_STORE = 'video_generations';
+const OBJECTS_STORE = 'storage_objects';
+// Added in version 2
+const FAVORITE_PROMPTS_STORE = 'favorite_prompts';
+const PREFLIGHT_RULES_STORAGE_KEY = 'sora2-tool:preflight_rules';
+// Other tabs of the same origin hear about row changes through this channel
+const CHANGES_CHANNEL = 'sora2-tool:video_generations';
+
+// Rows point at stored blobs with idb://<bucket>/<path>; browsers can't load
+// that, so reads swap it for an object URL and writes swap it back.
+const IDB_URL_PREFIX = 'idb://';
+const URL_FIELDS = ['video_url', 'thumbnail_url', 'spritesheet_url', 'image_url'] as const;
+
+interface ChangeMessage {
+  type: 'upsert' | 'delete';
+  id: string;
+}
+
+interface FavoritePrompt {
+  prompt: string;
+  created_at: string;
+}
+
+interface StoredObject {
+  key: string;
+  bucket: StorageBucket;
+  path: string;
+  blob: Blob;
+  contentType: string;
+  created_at: string;
+}
+
+// Column defaults from the video_generations migrations, so local rows have
+// the same shape as the ones Supabase returns
+const EMPTY_GENERATION: Omit<VideoGeneration, 'id' | 'created_at' | 'updated_at' | 'prompt'> = {
+  model: 'sora-2',
+  resolution: '1280x720',
+  duration: 4,
+  status: 'pending',
+  video_url: null,
+  thumbnail_url: null,
+  spritesheet_url: null,
+  openai_job_id: null,
+  error_message: null,
+  error_status: null,
+  error_type: null,
+  error_code: null,
+  error_category: null,
+  error_retryable: null,
+  error_request_id: null,
+  metadata: {},
+  image_url: null,
+  image_filename: null,
+  parent_generation_id: null,
+  source_generation_id: null,
+  source_timestamp: null,
+  user_id: null,
+  api_profile: null,
+  project_id: null,
+  tags: [],
+  estimated_cost: null,
+  cost: null,
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(GENERATIONS_STORE)) {
+          const generations = db.createObjectStore(GENERATIONS_STORE, { keyPath: 'id' });
+          generations.createIndex('created_at', 'created_at');
+        }
+        if (!db.objectStoreNames.contains(OBJECTS_STORE)) {
+          db.createObjectStore(OBJECTS_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(FAVORITE_PROMPTS_STORE)) {
+          db.createObjectStore(FAVORITE_PROMPTS_STORE, { keyPath: 'prompt' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      // Let the next call try again instead of caching the failure
+      databasePromise = null;
+      throw error;
+    });
+  }
+
+  return databasePromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return promisifyRequest(operation(db.transaction(storeName, mode).objectStore(storeName)));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+function objectKey(bucket: StorageBucket, path: string): string {
+  return `${bucket}/${path}`;
+}
+
+export class IndexedDBStorageBackend implements StorageBackend {
+  readonly backend = 'indexeddb' as const;
+
+  private objectUrls = new Map<string, string>();
+  private objectKeys = new Map<string, string>();
+
+  async upload(bucket: StorageBucket, path: string, blob: Blob, options: UploadOptions): Promise<string> {
+    const key = objectKey(bucket, path);
+
+    try {
+      if (!options.upsert) {
+        const existing = await withStore<StoredObject | undefined>(OBJECTS_STORE, 'readonly', (store) =>
+          store.get(key)
+        );
+        if (existing) {
+          throw new Error(`${key} already exists`);
+        }
+      }
+
+      const object: StoredObject = {
+        key,
+        bucket,
+        path,
+        blob,
+        contentType: options.contentType,
+        created_at: new Date().toISOString(),
+      };
+      await withStore(OBJECTS_STORE, 'readwrite', (store) => store.put(object));
+    } catch (error) {
+      throw new Error(`Failed to save file to browser storage: ${errorMessage(error)}`);
+    }
+
+    this.revokeObjectUrl(key);
+    return `${IDB_URL_PREFIX}${key}`;
+  }
+
+  async remove(bucket: StorageBucket, paths: string[]): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(OBJECTS_STORE, 'readwrite');
+    const store = transaction.objectStore(OBJECTS_STORE);
+
+    await Promise.all(paths.map((path) => promisifyRequest(store.delete(objectKey(bucket, path)))));
+    paths.forEach((path) => this.revokeObjectUrl(objectKey(bucket, path)));
+  }
+
+  async list(bucket: StorageBucket, prefix: string): Promise<StorageEntry[]> {
+    const keyPrefix = prefix ? `${objectKey(bucket, prefix)}/` : `${bucket}/`;
+
+    let keys: IDBValidKey[];
+    try {
+      keys = await withStore(OBJECTS_STORE, 'readonly', (store) =>
+        store.getAllKeys(IDBKeyRange.bound(keyPrefix, `${keyPrefix}\uffff`))
+      );
+    } catch (error) {
+      throw new Error(`Failed to list ${bucket}/${prefix}: ${errorMessage(error)}`);
+    }
+
+    // Mirror Supabase's listing: direct children only, nested paths collapse into folders
+    const entries = new Map<string, StorageEntry>();
+    keys.forEach((key) => {
+      const [name, ...rest] = String(key).slice(keyPrefix.length).split('/');
+      if (!entries.has(name)) {
+        entries.set(name, { name, isFolder: rest.length > 0 });
+      }
+    });
+
+    return Array.from(entries.values());
+  }
+
+  pathFromUrl(url: string, bucket: StorageBucket): string | null {
+    const storedUrl = this.toStoredUrl(url);
+    const prefix = `${IDB_URL_PREFIX}${bucket}/`;
+    return storedUrl.startsWith(prefix) ? storedUrl.slice(prefix.length) : null;
+  }
+
+  // Turns an idb:// URL into an object URL that media elements can load
+  async resolveUrl(url: string): Promise<string | null> {
+    if (!url.startsWith(IDB_URL_PREFIX)) {
+      return url;
+    }
+
+    const key = url.slice(IDB_URL_PREFIX.length);
+    const cached = this.objectUrls.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const object = await withStore<StoredObject | undefined>(OBJECTS_STORE, 'readonly', (store) =>
+      store.get(key)
+    );
+    if (!object) {
+      console.warn(`[IndexedDBStorage] Missing stored object for ${url}`);
+      return null;
+    }
+
+    const objectUrl = URL.createObjectURL(object.blob);
+    this.objectUrls.set(key, objectUrl);
+    this.objectKeys.set(objectUrl, key);
+    return objectUrl;
+  }
+
+  // Inverse of resolveUrl, so rows read from the repository can be written back unchanged
+  toStoredUrl(url: string): string {
+    const key = this.objectKeys.get(url);
+    return key ? `${IDB_URL_PREFIX}${key}` : url;
+  }
+
+  private revokeObjectUrl(key: string) {
+    const objectUrl = this.objectUrls.get(key);
+    if (objectUrl) {
+      URL.revokeObjectURL(objectUrl);
+      this.objectUrls.delete(key);
+      this.objectKeys.delete(objectUrl);
+    }
+  }
+}
+
+export class IndexedDBGenerationRepository implements GenerationRepository {
+  readonly backend = 'indexeddb' as const;
+
+  private changeListeners = new Set<(message: ChangeMessage) => void>();
+  private changes = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANGES_CHANNEL) : null;
+
+  constructor(private storage: IndexedDBStorageBackend) {
+    this.changes?.addEventListener('message', (event: MessageEvent<ChangeMessage>) => {
+      this.changeListeners.forEach((listener) => listener(event.data));
+    });
+  }
+
+  async checkConnection(): Promise<void> {
+    try {
+      await withStore(GENERATIONS_STORE, 'readonly', (store) => store.count());
+    } catch (error) {
+      throw new Error(`Failed to open browser storage: ${errorMessage(error)}`);
+    }
+  }
+
+  async insert(record: Partial<VideoGeneration>): Promise<VideoGeneration> {
+    const now = new Date().toISOString();
+    const row: VideoGeneration = {
+      ...EMPTY_GENERATION,
+      prompt: '',
+      ...this.toStoredRow(record),
+      id: crypto.randomUUID(),
+      created_at: now,
+      updated_at: now,
+    };
+
+    try {
+      await withStore(GENERATIONS_STORE, 'readwrite', (store) => store.add(row));
+    } catch (error) {
+      throw new Error(`Failed to save video generation: ${errorMessage(error)}`);
+    }
+
+    this.publish({ type: 'upsert', id: row.id });
+    return this.resolveRow(row);
+  }
+
+  async get(id: string): Promise<VideoGeneration> {
+    return this.resolveRow(await this.getStoredRow(id));
+  }
+
+  async update(id: string, updates: Partial<VideoGeneration>): Promise<VideoGeneration> {
+    const existing = await this.getStoredRow(id);
+    const row: VideoGeneration = {
+      ...existing,
+      ...this.toStoredRow(updates),
+      id,
+      updated_at: new Date().toISOString(),
+    };
+
+    try {
+      await withStore(GENERATIONS_STORE, 'readwrite', (store) => store.put(row));
+    } catch (error) {
+      throw new Error(`Failed to update video generation: ${errorMessage(error)}`);
+    }
+
+    this.publish({ type: 'upsert', id });
+    return this.resolveRow(row);
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await withStore(GENERATIONS_STORE, 'readwrite', (store) => store.delete(id));
+    } catch (error) {
+      throw new Error(`Failed to delete video generation: ${errorMessage(error)}`);
+    }
+
+    this.publish({ type: 'delete', id });
+  }
+
+  async list(limit: number, filter: GenerationListFilter = {}): Promise<VideoGeneration[]> {
+    const db = await openDatabase();
+    const rows: VideoGeneration[] = [];
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const request = db
+          .transaction(GENERATIONS_STORE, 'readonly')
+          .objectStore(GENERATIONS_STORE)
+          .index('created_at')
+          .openCursor(null, 'prev');
+
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || rows.length >= limit) {
+            resolve();
+            return;
+          }
+          if (matchesGenerationFilter(cursor.value, filter)) {
+            rows.push(cursor.value);
+          }
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      throw new Error(`Failed to list video generations: ${errorMessage(error)}`);
+    }
+
+    return Promise.all(rows.map((row) => this.resolveRow(row)));
+  }
+
+  // Filtering and sorting happen in memory; a local history is small enough
+  async listPage({ filter = {}, sort = 'newest', offset, limit }: GenerationPageRequest): Promise<GenerationPage> {
+    let rows: VideoGeneration[];
+    try {
+      rows = await withStore<VideoGeneration[]>(GENERATIONS_STORE, 'readonly', (store) => store.getAll());
+    } catch (error) {
+      throw new Error(`Failed to list video generations: ${errorMessage(error)}`);
+    }
+
+    const matching = rows.filter((row) => matchesGenerationFilter(row, filter)).sort(compareGenerations(sort));
+    const page = matching.slice(offset, offset + limit);
+    return {
+      generations: await Promise.all(page.map((row) => this.resolveRow(row))),
+      total: matching.length,
+    };
+  }
+
+  async listUnfinished(): Promise<VideoGeneration[]> {
+    let rows: VideoGeneration[];
+    try {
+      rows = await withStore<VideoGeneration[]>(GENERATIONS_STORE, 'readonly', (store) => store.getAll());
+    } catch (error) {
+      throw new Error(`Failed to list unfinished generations: ${errorMessage(error)}`);
+    }
+
+    const unfinished = rows
+      .filter((row) => row.status === 'pending' || row.status === 'processing')
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    return Promise.all(unfinished.map((row) => this.resolveRow(row)));
+  }
+
+  async listCreatedSince(since: Date): Promise<VideoGeneration[]> {
+    let rows: VideoGeneration[];
+    try {
+      rows = await withStore<VideoGeneration[]>(GENERATIONS_STORE, 'readonly', (store) =>
+        store.index('created_at').getAll(IDBKeyRange.lowerBound(since.toISOString()))
+      );
+    } catch (error) {
+      throw new Error(`Failed to list video generations: ${errorMessage(error)}`);
+    }
+
+    return Promise.all(rows.reverse().map((row) => this.resolveRow(row)));
+  }
+
+  // There is no local pricing table; prices come from the built-in list
+  async getPricing(): Promise<PriceEntry[]> {
+    return DEFAULT_PRICING;
+  }
+
+  // Grouped here the way the prompt_history view does it on Supabase
+  async listPromptHistory(limit: number): Promise<PromptHistoryEntry[]> {
+    let rows: VideoGeneration[];
+    let favorites: FavoritePrompt[];
+    try {
+      [rows, favorites] = await Promise.all([
+        withStore<VideoGeneration[]>(GENERATIONS_STORE, 'readonly', (store) => store.getAll()),
+        withStore<FavoritePrompt[]>(FAVORITE_PROMPTS_STORE, 'readonly', (store) => store.getAll()),
+      ]);
+    } catch (error) {
+      throw new Error(`Failed to load prompt history: ${errorMessage(error)}`);
+    }
+
+    const entries = new Map<string, PromptHistoryEntry>();
+    const entryFor = (prompt: string) => {
+      let entry = entries.get(prompt);
+      if (!entry) {
+        entry = { prompt, uses: 0, completed: 0, failed: 0, last_used_at: null, favorite: false };
+        entries.set(prompt, entry);
+      }
+      return entry;
+    };
+
+    rows.forEach((row) => {
+      const entry = entryFor(row.prompt);
+      entry.uses++;
+      if (row.status === 'completed') entry.completed++;
+      if (row.status === 'failed') entry.failed++;
+      if (!entry.last_used_at || row.created_at > entry.last_used_at) {
+        entry.last_used_at = row.created_at;
+      }
+    });
+    favorites.forEach(({ prompt }) => {
+      entryFor(prompt).favorite = true;
+    });
+
+    return [...entries.values()]
+      .sort(
+        (a, b) =>
+          Number(b.favorite) - Number(a.favorite) || (b.last_used_at || '').localeCompare(a.last_used_at || '')
+      )
+      .slice(0, limit);
+  }
+
+  async setPromptFavorite(prompt: string, favorite: boolean): Promise<void> {
+    try {
+      if (favorite) {
+        const record: FavoritePrompt = { prompt, created_at: new Date().toISOString() };
+        await withStore(FAVORITE_PROMPTS_STORE, 'readwrite', (store) => store.put(record));
+      } else {
+        await withStore(FAVORITE_PROMPTS_STORE, 'readwrite', (store) => store.delete(prompt));
+      }
+    } catch (error) {
+      throw new Error(`Failed to ${favorite ? 'star' : 'unstar'} prompt: ${errorMessage(error)}`);
+    }
+  }
+
+  async listOrphanedStorageObjects(): Promise<StorageObjectRef[]> {
+    let rows: VideoGeneration[];
+    let keys: IDBValidKey[];
+    try {
+      rows = await withStore<VideoGeneration[]>(GENERATIONS_STORE, 'readonly', (store) => store.getAll());
+      // Keys only; reading the objects would load every blob
+      keys = await withStore(OBJECTS_STORE, 'readonly', (store) => store.getAllKeys());
+    } catch (error) {
+      throw new Error(`Failed to list orphaned storage objects: ${errorMessage(error)}`);
+    }
+
+    // Stored rows keep their idb:// URLs, so they compare directly with the keys
+    const generationIds = new Set(rows.map((row) => row.id));
+    const imagePaths = new Set(rows.flatMap((row) => (row.image_url ? this.storage.pathFromUrl(row.image_url, 'image_files') ?? [] : [])));
+
+    return keys
+      .map((key) => {
+        const [bucket, ...path] = String(key).split('/');
+        return { bucket: bucket as StorageBucket, path: path.join('/') };
+      })
+      .filter(({ bucket, path }) =>
+        bucket === 'video_files' ? !generationIds.has(path.split('/')[0]) : !imagePaths.has(path)
+      );
+  }
+
+  // Everything lives in this browser, so the subscription is live straight away
+  subscribe({ onChange, onStatus }: GenerationSubscriptionHandlers): () => void {
+    const listener = async (message: ChangeMessage) => {
+      if (message.type === 'delete') {
+        onChange({ type: 'delete', id: message.id });
+        return;
+      }
+
+      try {
+        onChange({ type: 'upsert', generation: await this.get(message.id) });
+      } catch (error) {
+        // Deleted again before we could read it; the delete message follows
+        console.warn(`[IndexedDBRepository] Could not read changed generation ${message.id}:`, error);
+      }
+    };
+
+    this.changeListeners.add(listener);
+    onStatus?.('live');
+
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private publish(message: ChangeMessage) {
+    this.changeListeners.forEach((listener) => listener(message));
+    this.changes?.postMessage(message);
+  }
+
+  private async getStoredRow(id: string): Promise<VideoGeneration> {
+    let row: VideoGeneration | undefined;
+    try {
+      row = await withStore<VideoGeneration | undefined>(GENERATIONS_STORE, 'readonly', (store) => store.get(id));
+    } catch (error) {
+      throw new Error(`Failed to fetch generation: ${errorMessage(error)}`);
+    }
+
+    if (!row) {
+      throw new Error(`Failed to fetch generation: ${id} not found`);
+    }
+    return row;
+  }
+
+  // Rows saved by an older version get the defaults of columns added since
+  private async resolveRow(row: VideoGeneration): Promise<VideoGeneration> {
+    const resolved = { ...EMPTY_GENERATION, ...row };
+    for (const field of URL_FIELDS) {
+      const url = row[field];
+      resolved[field] = url ? await this.storage.resolveUrl(url) : url;
+    }
+    return resolved;
+  }
+
+  private toStoredRow(record: Partial<VideoGeneration>): Partial<VideoGeneration> {
+    const stored = { ...record };
+    for (const field of URL_FIELDS) {
+      const url = record[field];
+      if (url) {
+        stored[field] = this.storage.toStoredUrl(url);
+      }
+    }
+    return stored;
+  }
+}
+
+// Without accounts there is nobody to share the rules with, so they stay in
+// this browser and the local user edits them
+export class BrowserPreflightRuleStore implements PreflightRuleStore {
+  async load(): Promise<Partial<PreflightRules> | null> {
+    const stored = localStorage.getItem(PREFLIGHT_RULES_STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(stored);
+    } catch (error) {
+      console.error('[BrowserPreflightRuleStore] Ignoring unreadable preflight rules:', error);
+      return null;
+    }
+  }
+
+  async save(rules: PreflightRules): Promise<void> {
+    localStorage.setItem(PREFLIGHT_RULES_STORAGE_KEY, JSON.stringify(rules));
+  }
+
+  async canEdit(): Promise<boolean> {
+    return true;
+  }
+}
@@ -0,0 +1,403 @@
+import {
+  VideoGenerationResponse,
+  MODEL_OPTIONS,
+  RESOLUTION_OPTIONS,
+  DURATION_OPTIONS,
+} from './sora-api';
+import { FetchLike } from './request-scheduler';
+
+export const MOCK_SORA_BASE_URL = 'https://mock.sora.local/v1';
+
+// Prompts containing this marker fail halfway through processing, the way a
+// moderation rejection does on the real API
+export const MOCK_FAIL_MARKER = '[mock:fail]';
+
+export interface MockSoraServerOptions {
+  // Time a new job spends queued before it starts processing
+  queuedMs?: number;
+  // Processing time per second of requested video
+  msPerVideoSecond?: number;
+  // Artificial latency added to every response
+  latencyMs?: number;
+}
+
+export interface InjectedError {
+  method?: string;
+  // Matched against the request path, e.g. /videos or /videos/video_123/content
+  path?: RegExp;
+  status: number;
+  type?: string;
+  code?: string;
+  message?: string;
+  retryAfterSeconds?: number;
+  // How many matching requests fail before the error is used up
+  times?: number;
+}
+
+interface MockJob {
+  id: string;
+  model: string;
+  prompt: string;
+  size: string;
+  seconds: string;
+  createdAt: number;
+  remixedFromVideoId: string | null;
+}
+
+// In-memory stand-in for the `/videos` and `/models` endpoints. Jobs move
+// through queued -> in_progress -> completed (or failed) based on wall-clock
+// time, so polling code sees realistic progress without spending credits.
+// Pass `server.fetch` as the SoraAPI transport to use it.
+export class MockSoraServer {
+  private jobs = new Map<string, MockJob>();
+  private injectedErrors: InjectedError[] = [];
+  private sampleVideo: Promise<Blob> | null = null;
+  private queuedMs: number;
+  private msPerVideoSecond: number;
+  private latencyMs: number;
+
+  readonly fetch: FetchLike = (input, init) => this.handle(new Request(input, init));
+
+  constructor(options: MockSoraServerOptions = {}) {
+    this.queuedMs = options.queuedMs ?? 2000;
+    this.msPerVideoSecond = options.msPerVideoSecond ?? 1000;
+    this.latencyMs = options.latencyMs ?? 150;
+  }
+
+  injectError(error: InjectedError) {
+    this.injectedErrors.push({ times: 1, ...error });
+  }
+
+  clearInjectedErrors() {
+    this.injectedErrors = [];
+  }
+
+  reset() {
+    this.jobs.clear();
+    this.clearInjectedErrors();
+  }
+
+  async handle(request: Request): Promise<Response> {
+    await new Promise((resolve) => setTimeout(resolve, this.latencyMs));
+
+    const url = new URL(request.url);
+    const path = url.pathname.replace(/^.*?(\/videos|\/models)/, '$1');
+    const method = request.method.toUpperCase();
+
+    if (!request.headers.get('Authorization')?.startsWith('Bearer ')) {
+      return errorResponse(401, 'Missing bearer authentication in header', 'invalid_request_error', 'missing_api_key');
+    }
+
+    const injected = this.takeInjectedError(method, path);
+    if (injected) {
+      return errorResponse(
+        injected.status,
+        injected.message || `Injected ${injected.status} error`,
+        injected.type || 'mock_error',
+        injected.code || null,
+        injected.retryAfterSeconds
+      );
+    }
+
+    let match: RegExpMatchArray | null;
+
+    if (path === '/models' && method === 'GET') {
+      return jsonResponse(200, {
+        object: 'list',
+        data: MODEL_OPTIONS.map((m) => ({ id: m.value, object: 'model', owned_by: 'mock' })),
+      });
+    }
+
+    if (path === '/videos' && method === 'POST') {
+      return this.createJob(request);
+    }
+
+    if (path === '/videos' && method === 'GET') {
+      const limit = Number(url.searchParams.get('limit')) || 20;
+      const data = Array.from(this.jobs.values())
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(0, limit)
+        .map((job) => this.snapshot(job));
+      return jsonResponse(200, { object: 'list', data });
+    }
+
+    if ((match = path.match(/^\/videos\/([^/]+)\/remix$/)) && method === 'POST') {
+      const parent = this.jobs.get(match[1]);
+      if (!parent) {
+        return notFound(match[1]);
+      }
+      if (this.snapshot(parent).status !== 'completed') {
+        return errorResponse(400, 'Only completed videos can be remixed', 'invalid_request_error', null);
+      }
+      const body = await request.json().catch(() => ({}));
+      const job = this.addJob({ ...parent, prompt: String(body.prompt || parent.prompt), remixedFromVideoId: parent.id });
+      return jsonResponse(200, this.snapshot(job));
+    }
+
+    if ((match = path.match(/^\/videos\/([^/]+)\/content$/)) && method === 'GET') {
+      const job = this.jobs.get(match[1]);
+      if (!job) {
+        return notFound(match[1]);
+      }
+      if (this.snapshot(job).status !== 'completed') {
+        return errorResponse(404, 'Video content is not available until the job completes', 'invalid_request_error', null);
+      }
+      return this.content(job, url.searchParams.get('variant') || 'video');
+    }
+
+    if ((match = path.match(/^\/videos\/([^/]+)$/))) {
+      const job = this.jobs.get(match[1]);
+      if (!job) {
+        return notFound(match[1]);
+      }
+      if (method === 'GET') {
+        return jsonResponse(200, this.snapshot(job));
+      }
+      if (method === 'DELETE') {
+        this.jobs.delete(job.id);
+        return jsonResponse(200, { id: job.id, object: 'video.deleted', deleted: true });
+      }
+    }
+
+    return errorResponse(404, `Unknown mock route ${method} ${path}`, 'invalid_request_error', null);
+  }
+
+  private async createJob(request: Request): Promise<Response> {
+    const contentType = request.headers.get('Content-Type') || '';
+    let fields: Record<string, string>;
+
+    if (contentType.includes('application/json')) {
+      fields = await request.json();
+    } else {
+      const formData = await request.formData();
+      fields = {};
+      formData.forEach((value, key) => {
+        if (typeof value === 'string') fields[key] = value;
+      });
+    }
+
+    const model = MODEL_OPTIONS.find((m) => m.value === fields.model);
+    if (!model) {
+      return errorResponse(400, `Invalid model: ${fields.model}`, 'invalid_request_error', 'invalid_value');
+    }
+    const resolution = RESOLUTION_OPTIONS.find((r) => r.value === fields.size);
+    if (!resolution || !resolution.model.includes(model.value)) {
+      return errorResponse(400, `Invalid size for ${model.value}: ${fields.size}`, 'invalid_request_error', 'invalid_value');
+    }
+    if (!DURATION_OPTIONS.some((d) => String(d.value) === String(fields.seconds))) {
+      return errorResponse(400, `Invalid seconds: ${fields.seconds}`, 'invalid_request_error', 'invalid_value');
+    }
+    if (!fields.prompt) {
+      return errorResponse(400, 'Missing required parameter: prompt', 'invalid_request_error', 'missing_required_parameter');
+    }
+
+    const job = this.addJob({
+      model: model.value,
+      prompt: fields.prompt,
+      size: resolution.value,
+      seconds: String(fields.seconds),
+      remixedFromVideoId: null,
+    });
+    return jsonResponse(200, this.snapshot(job));
+  }
+
+  private addJob(fields: Omit<MockJob, 'id' | 'createdAt'>): MockJob {
+    const job: MockJob = {
+      ...fields,
+      id: `video_mock_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: Date.now(),
+    };
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  private snapshot(job: MockJob): VideoGenerationResponse & Record<string, unknown> {
+    const elapsed = Date.now() - job.createdAt;
+    const processingMs = Number(job.seconds) * this.msPerVideoSecond;
+    const fraction = Math.min(1, Math.max(0, (elapsed - this.queuedMs) / processingMs));
+    const shouldFail = job.prompt.includes(MOCK_FAIL_MARKER);
+
+    const base = {
+      id: job.id,
+      object: 'video',
+      model: job.model,
+      prompt: job.prompt,
+      size: job.size,
+      seconds: job.seconds,
+      created_at: Math.floor(job.createdAt / 1000),
+      remixed_from_video_id: job.remixedFromVideoId,
+    };
+
+    if (elapsed < this.queuedMs) {
+      return { ...base, status: 'queued', progress: 0 };
+    }
+    if (shouldFail && fraction >= 0.5) {
+      return {
+        ...base,
+        status: 'failed',
+        progress: 50,
+        error: {
+          message: 'Your request was blocked by the mock moderation system.',
+          type: 'invalid_request_error',
+          code: 'moderation_blocked',
+        },
+      };
+    }
+    if (fraction < 1) {
+      return { ...base, status: 'in_progress', progress: Math.round(fraction * 100) };
+    }
+    return { ...base, status: 'completed', progress: 100 };
+  }
+
+  private async content(job: MockJob, variant: string): Promise<Response> {
+    if (typeof document === 'undefined') {
+      return errorResponse(404, 'Mock content requires a browser canvas', 'invalid_request_error', null);
+    }
+
+    if (variant === 'video') {
+      this.sampleVideo ||= renderSampleVideo();
+      const blob = await this.sampleVideo;
+      return new Response(blob, { status: 200, headers: { 'Content-Type': blob.type } });
+    }
+
+    if (variant === 'thumbnail' || variant === 'spritesheet') {
+      const blob = await renderPreviewImage(job, variant);
+      return new Response(blob, { status: 200, headers: { 'Content-Type': blob.type } });
+    }
+
+    return errorResponse(400, `Invalid variant: ${variant}`, 'invalid_request_error', 'invalid_value');
+  }
+
+  private takeInjectedError(method: string, path: string): InjectedError | null {
+    const index = this.injectedErrors.findIndex(
+      (error) =>
+        (!error.method || error.method.toUpperCase() === method) &&
+        (!error.path || error.path.test(path))
+    );
+    if (index === -1) {
+      return null;
+    }
+
+    const error = this.injectedErrors[index];
+    const remaining = (error.times ?? 1) - 1;
+    if (remaining <= 0) {
+      this.injectedErrors.splice(index, 1);
+    } else {
+      this.injectedErrors[index] = { ...error, times: remaining };
+    }
+    return error;
+  }
+}
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-request-id': `req_mock_${Math.random().toString(36).slice(2, 12)}`,
+      ...headers,
+    },
+  });
+}
+
+function errorResponse(
+  status: number,
+  message: string,
+  type: string,
+  code: string | null,
+  retryAfterSeconds?: number
+): Response {
+  return jsonResponse(
+    status,
+    { error: { message, type, code, param: null } },
+    retryAfterSeconds !== undefined ? { 'retry-after': String(retryAfterSeconds) } : {}
+  );
+}
+
+function notFound(videoId: string): Response {
+  return errorResponse(404, `Video with id '${videoId}' not found.`, 'invalid_request_error', null);
+}
+
+function drawSampleFrame(ctx: CanvasRenderingContext2D, width: number, height: number, t: number) {
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${(220 + t * 120) % 360}, 70%, 55%)`);
+  gradient.addColorStop(1, `hsl(${(280 + t * 120) % 360}, 70%, 35%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.beginPath();
+  ctx.arc(width * (0.15 + 0.7 * t), height / 2, height / 6, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.font = `bold ${Math.round(height / 10)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.fillText('MOCK SORA', width / 2, height - height / 8);
+}
+
+// Records a one-second clip from a canvas. Browsers that can't record mp4
+// produce webm, which plays back the same way.
+async function renderSampleVideo(): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = 320;
+  canvas.height = 180;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx || typeof MediaRecorder === 'undefined' || !canvas.captureStream) {
+    return new Blob([], { type: 'video/mp4' });
+  }
+
+  const mimeType =
+    ['video/mp4', 'video/webm;codecs=vp9', 'video/webm'].find((type) => MediaRecorder.isTypeSupported(type)) ||
+    'video/webm';
+  const recorder = new MediaRecorder(canvas.captureStream(24), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+
+  const durationMs = 1000;
+  const start = performance.now();
+  drawSampleFrame(ctx, canvas.width, canvas.height, 0);
+  recorder.start();
+
+  await new Promise<void>((resolve) => {
+    const tick = () => {
+      const t = Math.min(1, (performance.now() - start) / durationMs);
+      drawSampleFrame(ctx, canvas.width, canvas.height, t);
+      if (t < 1) {
+        requestAnimationFrame(tick);
+      } else {
+        resolve();
+      }
+    };
+    requestAnimationFrame(tick);
+  });
+
+  await new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+    recorder.stop();
+  });
+
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+}
+
+async function renderPreviewImage(job: MockJob, variant: 'thumbnail' | 'spritesheet'): Promise<Blob> {
+  const [frameWidth, frameHeight] = job.size.split('x').map((n) => Math.round(Number(n) / 8));
+  // Matches the 5x5 grid SpritesheetPreview expects
+  const grid = variant === 'spritesheet' ? 5 : 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = frameWidth * grid;
+  canvas.height = frameHeight * grid;
+  const ctx = canvas.getContext('2d')!;
+
+  for (let i = 0; i < grid * grid; i++) {
+    ctx.save();
+    ctx.translate((i % grid) * frameWidth, Math.floor(i / grid) * frameHeight);
+    drawSampleFrame(ctx, frameWidth, frameHeight, grid === 1 ? 0.5 : i / (grid * grid - 1));
+    ctx.restore();
+  }
+
+  const type = variant === 'spritesheet' ? 'image/jpeg' : 'image/webp';
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to render preview'))), type, 0.9);
+  });
+}
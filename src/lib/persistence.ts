@@ -0,0 +1,320 @@
+import {
+  Collection,
+  CreditAccount,
+  CreditTransaction,
+  isSupabaseConfigured,
+  Project,
+  PromptHistoryEntry,
+  PromptTemplate,
+  Sequence,
+  SequenceClip,
+  Storyboard,
+  StoryboardShot,
+  supabase,
+  VideoGeneration,
+} from './supabase';
+import {
+  SupabaseAuthProvider,
+  SupabaseCollectionStore,
+  SupabaseCreditLedger,
+  SupabaseGenerationRepository,
+  SupabasePreflightRuleStore,
+  SupabaseProjectStore,
+  SupabasePromptTemplateStore,
+  SupabaseSequenceStore,
+  SupabaseStorageBackend,
+  SupabaseStoryboardStore,
+} from './supabase-persistence';
+import {
+  BrowserPreflightRuleStore,
+  IndexedDBGenerationRepository,
+  IndexedDBStorageBackend,
+} from './indexeddb-persistence';
+import { PriceEntry } from './pricing';
+import { PreflightRules } from './prompt-preflight';
+
+export type PersistenceBackend = 'supabase' | 'indexeddb';
+
+export const PERSISTENCE_LABELS: Record<PersistenceBackend, string> = {
+  supabase: 'Supabase',
+  indexeddb: 'Browser (IndexedDB)',
+};
+
+export type StorageBucket = 'video_files' | 'image_files';
+
+export interface StorageObjectRef {
+  bucket: StorageBucket;
+  path: string;
+}
+
+export interface StorageEntry {
+  name: string;
+  isFolder: boolean;
+}
+
+export type GenerationChange =
+  | { type: 'upsert'; generation: VideoGeneration }
+  | { type: 'delete'; id: string };
+
+// 'live' after (re)connecting; anything that happened while not live may have
+// been missed, so subscribers should refetch when they come back
+export type SubscriptionStatus = 'connecting' | 'live' | 'disconnected';
+
+export interface GenerationSubscriptionHandlers {
+  onChange: (change: GenerationChange) => void;
+  onStatus?: (status: SubscriptionStatus) => void;
+}
+
+export interface GenerationListFilter {
+  userId?: string;
+  apiProfile?: string;
+  ids?: string[];
+  projectId?: string;
+  // Rows carrying this tag among others
+  tag?: string;
+  // Full-text search over prompts, in websearch syntax ("exact phrase", -word)
+  search?: string;
+  statuses?: VideoGeneration['status'][];
+  model?: VideoGeneration['model'];
+  resolution?: string;
+  duration?: number;
+  // true keeps image-to-video rows, false text-only ones
+  hasImage?: boolean;
+  // ISO timestamps; createdBefore is exclusive
+  createdFrom?: string;
+  createdBefore?: string;
+}
+
+export type GenerationSort = 'newest' | 'oldest' | 'longest' | 'priciest';
+
+export interface GenerationPageRequest {
+  filter?: GenerationListFilter;
+  sort?: GenerationSort;
+  offset: number;
+  limit: number;
+}
+
+export interface GenerationPage {
+  generations: VideoGeneration[];
+  // Rows matching the filter across all pages
+  total: number;
+}
+
+export interface UploadOptions {
+  contentType: string;
+  upsert: boolean;
+}
+
+// Where `video_generations` rows live. Reads always return rows whose asset
+// URLs can be used directly as <video>/<img> sources.
+export interface GenerationRepository {
+  readonly backend: PersistenceBackend;
+  checkConnection(): Promise<void>;
+  insert(record: Partial<VideoGeneration>): Promise<VideoGeneration>;
+  get(id: string): Promise<VideoGeneration>;
+  update(id: string, updates: Partial<VideoGeneration>): Promise<VideoGeneration>;
+  delete(id: string): Promise<void>;
+  // Newest first
+  list(limit: number, filter?: GenerationListFilter): Promise<VideoGeneration[]>;
+  // One page of the history view; sorted newest first unless asked otherwise
+  listPage(request: GenerationPageRequest): Promise<GenerationPage>;
+  // Rows still waiting on OpenAI (pending or processing)
+  listUnfinished(): Promise<VideoGeneration[]>;
+  listCreatedSince(since: Date): Promise<VideoGeneration[]>;
+  // Per-second prices from pricing_config; backends without the table return DEFAULT_PRICING
+  getPricing(): Promise<PriceEntry[]>;
+  // Distinct prompts with their outcome counts, favorites first, then most recently used
+  listPromptHistory(limit: number): Promise<PromptHistoryEntry[]>;
+  setPromptFavorite(prompt: string, favorite: boolean): Promise<void>;
+  // Stored files that no row points at any more. Supabase checks this against
+  // every user's rows server-side and only returns the caller's own files.
+  listOrphanedStorageObjects(): Promise<StorageObjectRef[]>;
+  // Streams changes made by any tab or worker; returns an unsubscribe function
+  subscribe(handlers: GenerationSubscriptionHandlers): () => void;
+}
+
+// Where the `video_files` and `image_files` buckets live. `upload` returns the
+// URL to persist on the row; `pathFromUrl` maps such a URL back to its object.
+export interface StorageBackend {
+  readonly backend: PersistenceBackend;
+  upload(bucket: StorageBucket, path: string, blob: Blob, options: UploadOptions): Promise<string>;
+  remove(bucket: StorageBucket, paths: string[]): Promise<void>;
+  list(bucket: StorageBucket, prefix: string): Promise<StorageEntry[]>;
+  pathFromUrl(url: string, bucket: StorageBucket): string | null;
+}
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+}
+
+// Sign-in for backends that store rows per user
+export interface AuthProvider {
+  // The signed-in user, read from the locally stored session
+  getUser(): Promise<AuthUser | null>;
+  // Token proving the session to our own server endpoints, e.g. the Sora proxy
+  getAccessToken(): Promise<string | null>;
+  // Called on sign-in, sign-out and token refresh; returns an unsubscribe function
+  subscribe(listener: (user: AuthUser | null) => void): () => void;
+  signInWithPassword(email: string, password: string): Promise<void>;
+  // Resolves to true when the user must confirm their email before signing in
+  signUp(email: string, password: string): Promise<boolean>;
+  sendMagicLink(email: string): Promise<void>;
+  signOut(): Promise<void>;
+}
+
+export class InsufficientCreditsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+// Credits reserved per generation and settled or refunded when it finishes.
+// Every call is idempotent per generation, so repeated status checks are safe.
+export interface CreditLedger {
+  // Null when nobody is signed in or the user has no account; no credits are charged then
+  getAccount(): Promise<CreditAccount | null>;
+  listTransactions(limit: number): Promise<CreditTransaction[]>;
+  // Reserves the generation's price, which the backend works out from its
+  // settings. Throws InsufficientCreditsError when the balance doesn't cover it.
+  reserve(generationId: string): Promise<void>;
+  // Closes the reservation at the generation's cost, recording it if needed
+  settle(generationId: string): Promise<void>;
+  refund(generationId: string): Promise<void>;
+}
+
+export type PromptTemplateInput = Pick<PromptTemplate, 'name' | 'prompt' | 'model' | 'resolution' | 'duration'>;
+
+// The signed-in user's prompt template library
+export interface PromptTemplateStore {
+  // Sorted by name
+  list(): Promise<PromptTemplate[]>;
+  // Saving under an existing name replaces that template
+  save(template: PromptTemplateInput): Promise<PromptTemplate>;
+  delete(id: string): Promise<void>;
+}
+
+// The signed-in user's projects; generations point at one with project_id
+export interface ProjectStore {
+  // Sorted by name
+  list(): Promise<Project[]>;
+  create(name: string): Promise<Project>;
+  rename(id: string, name: string): Promise<Project>;
+  // The project's generations are kept, without a project
+  delete(id: string): Promise<void>;
+}
+
+// Ordered sets of the signed-in user's generations
+export interface CollectionStore {
+  // Sorted by name
+  list(): Promise<Collection[]>;
+  create(name: string): Promise<Collection>;
+  rename(id: string, name: string): Promise<void>;
+  delete(id: string): Promise<void>;
+  // Replaces the contents with `generationIds`, in that order
+  setItems(collectionId: string, generationIds: string[]): Promise<void>;
+}
+
+export type StoryboardInput = Pick<Storyboard, 'name' | 'model' | 'resolution' | 'project_id'> & {
+  shots: Pick<StoryboardShot, 'prompt' | 'duration'>[];
+};
+
+// The signed-in user's storyboards and where each of their shots got to
+export interface StoryboardStore {
+  // Newest first
+  list(): Promise<Storyboard[]>;
+  create(storyboard: StoryboardInput): Promise<Storyboard>;
+  // Replaces the settings and every shot; only for storyboards not started yet
+  update(id: string, storyboard: StoryboardInput): Promise<Storyboard>;
+  // The shots' generations are kept
+  delete(id: string): Promise<void>;
+  // Marks the shot as being submitted; false when someone else already did
+  claimShot(shotId: string): Promise<boolean>;
+  setShotGeneration(shotId: string, generationId: string): Promise<void>;
+  // Clears the claim and the generation so the shot can be submitted again
+  resetShot(shotId: string): Promise<void>;
+}
+
+export type SequenceInput = Pick<Sequence, 'name' | 'video_url' | 'content_type' | 'duration' | 'resolution'> & {
+  clips: Omit<SequenceClip, 'position'>[];
+};
+
+// The signed-in user's rendered sequences and the clips they were cut from
+export interface SequenceStore {
+  // Newest first
+  list(): Promise<Sequence[]>;
+  create(sequence: SequenceInput): Promise<Sequence>;
+  // Only the row; the caller removes the rendered file
+  delete(id: string): Promise<void>;
+}
+
+// The shared rules for the prompt preflight check
+export interface PreflightRuleStore {
+  // Whatever was saved, possibly partial or from an older version; null when nothing was
+  load(): Promise<Partial<PreflightRules> | null>;
+  save(rules: PreflightRules): Promise<void>;
+  // Whether the current user may save; everyone can read
+  canEdit(): Promise<boolean>;
+}
+
+export interface Persistence {
+  repository: GenerationRepository;
+  storage: StorageBackend;
+  // Only the Supabase backend has users, accounts, templates, projects,
+  // collections, storyboards and sequences; null elsewhere
+  auth: AuthProvider | null;
+  ledger: CreditLedger | null;
+  templates: PromptTemplateStore | null;
+  projects: ProjectStore | null;
+  collections: CollectionStore | null;
+  storyboards: StoryboardStore | null;
+  sequences: SequenceStore | null;
+  preflight: PreflightRuleStore;
+}
+
+// VITE_PERSISTENCE_BACKEND picks the backend explicitly; otherwise Supabase is
+// used when it is configured and the browser-local IndexedDB store when not.
+export function resolvePersistenceBackend(): PersistenceBackend {
+  const requested = import.meta.env.VITE_PERSISTENCE_BACKEND;
+  if (requested === 'supabase' || requested === 'indexeddb') {
+    return requested;
+  }
+  return isSupabaseConfigured ? 'supabase' : 'indexeddb';
+}
+
+export function createPersistence(backend: PersistenceBackend = resolvePersistenceBackend()): Persistence {
+  if (backend === 'supabase') {
+    if (!supabase) {
+      throw new Error(
+        'Missing Supabase environment variables. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file.'
+      );
+    }
+    return {
+      repository: new SupabaseGenerationRepository(supabase),
+      storage: new SupabaseStorageBackend(supabase),
+      auth: new SupabaseAuthProvider(supabase),
+      ledger: new SupabaseCreditLedger(supabase),
+      templates: new SupabasePromptTemplateStore(supabase),
+      projects: new SupabaseProjectStore(supabase),
+      collections: new SupabaseCollectionStore(supabase),
+      storyboards: new SupabaseStoryboardStore(supabase),
+      sequences: new SupabaseSequenceStore(supabase),
+      preflight: new SupabasePreflightRuleStore(supabase),
+    };
+  }
+
+  const storage = new IndexedDBStorageBackend();
+  return {
+    repository: new IndexedDBGenerationRepository(storage),
+    storage,
+    auth: null,
+    ledger: null,
+    templates: null,
+    projects: null,
+    collections: null,
+    storyboards: null,
+    sequences: null,
+    preflight: new BrowserPreflightRuleStore(),
+  };
+}
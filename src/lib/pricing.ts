@@ -0,0 +1,127 @@
+import { SoraModel, Resolution } from './sora-api';
+import { VideoGeneration } from './supabase';
+
+export interface PriceEntry {
+  model: SoraModel;
+  resolution: Resolution;
+  // USD per second of generated video
+  price_per_second: number;
+}
+
+// OpenAI list prices, matching the seed rows of the pricing_config migration.
+// Used when the table can't be read, e.g. with the IndexedDB backend.
+export const DEFAULT_PRICING: PriceEntry[] = [
+  { model: 'sora-2', resolution: '1280x720', price_per_second: 0.1 },
+  { model: 'sora-2', resolution: '720x1280', price_per_second: 0.1 },
+  { model: 'sora-2-pro', resolution: '1280x720', price_per_second: 0.3 },
+  { model: 'sora-2-pro', resolution: '720x1280', price_per_second: 0.3 },
+  { model: 'sora-2-pro', resolution: '1792x1024', price_per_second: 0.5 },
+  { model: 'sora-2-pro', resolution: '1024x1792', price_per_second: 0.5 },
+];
+
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+});
+
+export class PricingModel {
+  private rates = new Map<string, number>();
+
+  constructor(entries: PriceEntry[]) {
+    entries.forEach((entry) => {
+      this.rates.set(`${entry.model}:${entry.resolution}`, Number(entry.price_per_second));
+    });
+  }
+
+  pricePerSecond(model: string, resolution: string): number | null {
+    return this.rates.get(`${model}:${resolution}`) ?? null;
+  }
+
+  // Null when there is no price for this model/resolution pair
+  estimate(model: string, resolution: string, seconds: number): number | null {
+    const rate = this.pricePerSecond(model, resolution);
+    if (rate === null) {
+      return null;
+    }
+    return Math.round(rate * seconds * 10000) / 10000;
+  }
+}
+
+export function formatCost(amount: number | null | undefined): string {
+  return amount === null || amount === undefined ? '—' : currencyFormatter.format(amount);
+}
+
+export interface SpendDay {
+  // Local calendar day, YYYY-MM-DD
+  date: string;
+  total: number;
+  count: number;
+  byModel: Record<string, number>;
+}
+
+export interface SpendSummaryData {
+  days: SpendDay[];
+  byModel: Record<string, number>;
+  total: number;
+  count: number;
+  // Estimated cost of jobs that haven't finished yet, not included in total
+  pending: number;
+}
+
+function localDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// What a generation has cost so far. Rows finished before costs were recorded
+// fall back to the price list.
+export function generationCost(generation: VideoGeneration, pricing: PricingModel): number {
+  if (generation.cost !== null && generation.cost !== undefined) {
+    return Number(generation.cost);
+  }
+  if (generation.status === 'completed') {
+    return pricing.estimate(generation.model, generation.resolution, generation.duration) ?? 0;
+  }
+  return 0;
+}
+
+// Groups spend per local day (newest first, including days with no spend) and per model
+export function summarizeSpend(
+  generations: VideoGeneration[],
+  pricing: PricingModel,
+  days: number,
+  now: Date = new Date()
+): SpendSummaryData {
+  const summary: SpendSummaryData = { days: [], byModel: {}, total: 0, count: 0, pending: 0 };
+  const dayIndex = new Map<string, SpendDay>();
+
+  for (let offset = 0; offset < days; offset++) {
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() - offset);
+    const day: SpendDay = { date: localDate(date), total: 0, count: 0, byModel: {} };
+    summary.days.push(day);
+    dayIndex.set(day.date, day);
+  }
+
+  generations.forEach((generation) => {
+    if (generation.status === 'pending' || generation.status === 'processing') {
+      summary.pending += Number(generation.estimated_cost ?? 0);
+      return;
+    }
+
+    const day = dayIndex.get(localDate(new Date(generation.created_at)));
+    if (!day) return;
+
+    const cost = generationCost(generation, pricing);
+    day.total += cost;
+    day.count += 1;
+    day.byModel[generation.model] = (day.byModel[generation.model] ?? 0) + cost;
+    summary.byModel[generation.model] = (summary.byModel[generation.model] ?? 0) + cost;
+    summary.total += cost;
+    summary.count += 1;
+  });
+
+  return summary;
+}
@@ -0,0 +1,210 @@
+import { Resolution, SoraModel, VideoDuration } from './sora-api';
+
+// Errors block submission; warnings are shown but the user may go ahead
+export type PreflightSeverity = 'error' | 'warning';
+
+export type PreflightRuleId = 'length' | 'blocklist' | 'person' | 'orientation' | 'shots';
+
+export interface PreflightIssue {
+  rule: PreflightRuleId;
+  severity: PreflightSeverity;
+  message: string;
+}
+
+export interface PreflightRules {
+  // Longer prompts are refused before they reach OpenAI
+  maxPromptLength: number;
+  // Shorter prompts get a warning; they tend to produce generic results
+  minPromptLength: number;
+  // Terms our content policy rejects, matched as whole words, ignoring case
+  blockedTerms: string[];
+  // Names of real people to warn about, on top of the "Mr. Smith"-style check
+  watchedNames: string[];
+  warnOnPersonNames: boolean;
+  warnOnOrientation: boolean;
+  // Warn when a prompt asks for more shots than the duration allows; 0 disables
+  minSecondsPerShot: number;
+}
+
+export interface PreflightRequest {
+  prompt: string;
+  model: SoraModel;
+  resolution: Resolution | string;
+  duration: VideoDuration | number;
+}
+
+export const DEFAULT_PREFLIGHT_RULES: PreflightRules = {
+  maxPromptLength: 2000,
+  minPromptLength: 15,
+  blockedTerms: [],
+  watchedNames: [],
+  warnOnPersonNames: true,
+  warnOnOrientation: true,
+  minSecondsPerShot: 2,
+};
+
+// Stored rules may come from an older version or be edited by hand, so
+// anything missing or of the wrong type falls back to the default
+export function normalizePreflightRules(stored: Partial<PreflightRules> | null | undefined): PreflightRules {
+  const defaults = DEFAULT_PREFLIGHT_RULES;
+  if (!stored) {
+    return { ...defaults };
+  }
+
+  return {
+    maxPromptLength: count(stored.maxPromptLength, defaults.maxPromptLength),
+    minPromptLength: count(stored.minPromptLength, defaults.minPromptLength),
+    blockedTerms: terms(stored.blockedTerms, defaults.blockedTerms),
+    watchedNames: terms(stored.watchedNames, defaults.watchedNames),
+    warnOnPersonNames: flag(stored.warnOnPersonNames, defaults.warnOnPersonNames),
+    warnOnOrientation: flag(stored.warnOnOrientation, defaults.warnOnOrientation),
+    minSecondsPerShot: count(stored.minSecondsPerShot, defaults.minSecondsPerShot),
+  };
+}
+
+const PERSON_TITLE_PATTERN =
+  /\b(?:Mr|Mrs|Ms|Dr|President|Senator|Governor|Prime Minister|Prince|Princess|King|Queen|Pope|Sir|Dame)\.?\s+[A-Z][a-z]+/g;
+
+// "landscape" alone usually describes scenery, so only explicit format words count
+const PORTRAIT_PATTERN = /\b(?:portrait (?:orientation|format|mode)|vertical (?:video|format|frame)|9:16|phone screen)\b/i;
+const LANDSCAPE_PATTERN =
+  /\b(?:landscape (?:orientation|format|mode)|horizontal (?:video|format|frame)|widescreen|16:9|cinemascope|anamorphic)\b/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+};
+
+export function runPreflight(
+  request: PreflightRequest,
+  rules: PreflightRules = DEFAULT_PREFLIGHT_RULES
+): PreflightIssue[] {
+  const prompt = request.prompt.trim();
+  const issues: PreflightIssue[] = [];
+  if (!prompt) {
+    return issues;
+  }
+
+  if (prompt.length > rules.maxPromptLength) {
+    issues.push({
+      rule: 'length',
+      severity: 'error',
+      message: `The prompt is ${prompt.length} characters long; the limit is ${rules.maxPromptLength}.`,
+    });
+  } else if (prompt.length < rules.minPromptLength) {
+    issues.push({
+      rule: 'length',
+      severity: 'warning',
+      message: 'Very short prompts tend to give generic results. Describe the subject, setting and camera.',
+    });
+  }
+
+  const blocked = rules.blockedTerms.filter((term) => wholeWordPattern(term).test(prompt));
+  if (blocked.length > 0) {
+    issues.push({
+      rule: 'blocklist',
+      severity: 'error',
+      message: `Remove ${blocked.map((term) => `"${term}"`).join(', ')}; our content policy rejects ${
+        blocked.length === 1 ? 'it' : 'them'
+      }.`,
+    });
+  }
+
+  if (rules.warnOnPersonNames) {
+    const names = new Set([
+      ...rules.watchedNames.filter((name) => wholeWordPattern(name).test(prompt)),
+      ...(prompt.match(PERSON_TITLE_PATTERN) || []),
+    ]);
+    if (names.size > 0) {
+      issues.push({
+        rule: 'person',
+        severity: 'warning',
+        message: `${[...names].join(', ')} ${
+          names.size === 1 ? 'looks like a real person' : 'look like real people'
+        }. Sora refuses to depict real people.`,
+      });
+    }
+  }
+
+  if (rules.warnOnOrientation) {
+    const [width, height] = String(request.resolution).split('x').map(Number);
+    if (height > width && LANDSCAPE_PATTERN.test(prompt)) {
+      issues.push({
+        rule: 'orientation',
+        severity: 'warning',
+        message: `The prompt asks for a horizontal frame but ${request.resolution} is portrait.`,
+      });
+    } else if (width > height && PORTRAIT_PATTERN.test(prompt)) {
+      issues.push({
+        rule: 'orientation',
+        severity: 'warning',
+        message: `The prompt asks for a vertical frame but ${request.resolution} is landscape.`,
+      });
+    }
+  }
+
+  if (rules.minSecondsPerShot > 0) {
+    const shots = countShots(prompt);
+    const duration = Number(request.duration);
+    if (shots > 1 && duration / shots < rules.minSecondsPerShot) {
+      issues.push({
+        rule: 'shots',
+        severity: 'warning',
+        message:
+          `${shots} shots in ${duration} seconds leaves under ${rules.minSecondsPerShot}s per shot. ` +
+          'Use fewer shots or a longer duration.',
+      });
+    }
+  }
+
+  return issues;
+}
+
+export function hasPreflightErrors(issues: PreflightIssue[]): boolean {
+  return issues.some((issue) => issue.severity === 'error');
+}
+
+// Takes the largest of "three shots", "Shot 4:" labels and the number of
+// "cut to" transitions plus one
+export function countShots(prompt: string): number {
+  let shots = 1;
+
+  for (const match of prompt.matchAll(/\b(\d+|[a-z]+)[\s-]shots?\b/gi)) {
+    const stated = Number(match[1]) || NUMBER_WORDS[match[1].toLowerCase()] || 0;
+    shots = Math.max(shots, stated);
+  }
+  for (const match of prompt.matchAll(/\bshot\s*#?(\d+)\b/gi)) {
+    shots = Math.max(shots, Number(match[1]));
+  }
+  const cuts = prompt.match(/\bcut(?:s)? to\b/gi)?.length ?? 0;
+
+  return Math.max(shots, cuts + 1);
+}
+
+function wholeWordPattern(term: string): RegExp {
+  const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?:^|\\W)${escaped}(?=\\W|$)`, 'i');
+}
+
+function count(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function terms(value: unknown, fallback: string[]): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map((item) => item.trim())
+    : fallback;
+}
+
+function flag(value: unknown, fallback: boolean): boolean {
+  return typeof value === 'boolean' ? value : fallback;
+}
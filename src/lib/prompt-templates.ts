@@ -0,0 +1,26 @@
+// Placeholders look like {subject} or {camera_move}; anything else in braces
+// is left alone so prompts can still contain literal JSON-ish text
+const PLACEHOLDER_PATTERN = /\{\s*([A-Za-z][\w-]*)\s*\}/g;
+
+export type TemplateValues = Record<string, string>;
+
+// Distinct placeholder names in the order they first appear
+export function extractTemplateVariables(prompt: string): string[] {
+  const names = new Set<string>();
+  for (const match of prompt.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+// Placeholders without a value are kept as written so callers can spot them
+export function fillTemplate(prompt: string, values: TemplateValues): string {
+  return prompt.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const value = values[name]?.trim();
+    return value ? value : placeholder;
+  });
+}
+
+export function missingTemplateValues(prompt: string, values: TemplateValues): string[] {
+  return extractTemplateVariables(prompt).filter((name) => !values[name]?.trim());
+}
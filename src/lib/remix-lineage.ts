@@ -0,0 +1,90 @@
+import { VideoGeneration } from './supabase';
+
+export interface RemixLineageNode {
+  generation: VideoGeneration;
+  children: RemixLineageNode[];
+}
+
+function walkToRoot(generation: VideoGeneration, byId: Map<string, VideoGeneration>): VideoGeneration {
+  const visited = new Set<string>([generation.id]);
+  let current = generation;
+
+  while (current.parent_generation_id) {
+    const parent = byId.get(current.parent_generation_id);
+    if (!parent || visited.has(parent.id)) {
+      break;
+    }
+    visited.add(parent.id);
+    current = parent;
+  }
+
+  return current;
+}
+
+function groupChildren(generations: VideoGeneration[]): Map<string, VideoGeneration[]> {
+  const childrenByParent = new Map<string, VideoGeneration[]>();
+
+  generations.forEach((g) => {
+    if (!g.parent_generation_id) return;
+    const siblings = childrenByParent.get(g.parent_generation_id) || [];
+    siblings.push(g);
+    childrenByParent.set(g.parent_generation_id, siblings);
+  });
+
+  return childrenByParent;
+}
+
+function buildTree(root: VideoGeneration, childrenByParent: Map<string, VideoGeneration[]>): RemixLineageNode {
+  const visited = new Set<string>();
+  const buildNode = (g: VideoGeneration): RemixLineageNode => {
+    visited.add(g.id);
+    const children = (childrenByParent.get(g.id) || [])
+      .filter((child) => !visited.has(child.id))
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+      .map(buildNode);
+    return { generation: g, children };
+  };
+
+  return buildNode(root);
+}
+
+// Walks parent links up to the oldest ancestor that is still loaded, guarding
+// against cycles in case of inconsistent data.
+export function findLineageRoot(
+  generation: VideoGeneration,
+  generations: VideoGeneration[]
+): VideoGeneration {
+  return walkToRoot(generation, new Map(generations.map((g) => [g.id, g])));
+}
+
+export function buildLineageTree(
+  generation: VideoGeneration,
+  generations: VideoGeneration[]
+): RemixLineageNode {
+  return buildTree(findLineageRoot(generation, generations), groupChildren(generations));
+}
+
+// The lineage tree of every loaded generation, keyed by id. Each tree is built
+// once and shared by all the generations in it.
+export function buildLineageIndex(generations: VideoGeneration[]): Map<string, RemixLineageNode> {
+  const byId = new Map(generations.map((g) => [g.id, g]));
+  const childrenByParent = groupChildren(generations);
+  const treesByRoot = new Map<string, RemixLineageNode>();
+  const index = new Map<string, RemixLineageNode>();
+
+  generations.forEach((g) => {
+    const root = walkToRoot(g, byId);
+    let tree = treesByRoot.get(root.id);
+    if (!tree) {
+      tree = buildTree(root, childrenByParent);
+      treesByRoot.set(root.id, tree);
+    }
+    index.set(g.id, tree);
+  });
+
+  return index;
+}
+
+export function countLineageNodes(node: RemixLineageNode): number {
+  return node.children.reduce((total, child) => total + countLineageNodes(child), 1);
+}
@@ -0,0 +1,219 @@
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface RequestSchedulerOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface RequestSchedulerState {
+  concurrency: number;
+  active: number;
+  queued: number;
+  retrying: number;
+  // Set while a 429 holds back every request, as a ms timestamp
+  pausedUntil: number | null;
+}
+
+type StateListener = (state: RequestSchedulerState) => void;
+
+interface ScheduledRequest {
+  input: string;
+  init?: RequestInit;
+  transport: FetchLike;
+  attempt: number;
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+}
+
+export const DEFAULT_REQUEST_CONCURRENCY = 2;
+export const REQUEST_CONCURRENCY_STORAGE_KEY = 'sora_request_concurrency';
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+// A 5xx or network error may come after the server acted on the request, so
+// only these are sent again then. Anything else, like the POST that starts a
+// billed render, is only retried on 429, which means it was turned away.
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS']);
+// Upper bound for server-provided Retry-After values so a bad header can't stall the app
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+// Queues fetches to the Sora API so that at most `concurrency` are in flight.
+// Rate-limit errors, and for idempotent requests server and network errors,
+// are retried with exponential backoff and full jitter, honoring Retry-After
+// when the API sends one. After the last retry the failing response is handed
+// back unchanged so callers report it as usual.
+export class RequestScheduler {
+  private concurrency: number;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+
+  private queue: ScheduledRequest[] = [];
+  private active = 0;
+  private retrying = 0;
+  private pausedUntil: number | null = null;
+  private pauseTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<StateListener>();
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_REQUEST_CONCURRENCY);
+    this.maxRetries = options.maxRetries ?? 4;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+  }
+
+  fetch(
+    input: string,
+    init?: RequestInit,
+    transport: FetchLike = (url, options) => fetch(url, options)
+  ): Promise<Response> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ input, init, transport, attempt: 0, resolve, reject });
+      this.notify();
+      this.pump();
+    });
+  }
+
+  setConcurrency(concurrency: number) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.notify();
+    this.pump();
+  }
+
+  getState(): RequestSchedulerState {
+    return {
+      concurrency: this.concurrency,
+      active: this.active,
+      queued: this.queue.length,
+      retrying: this.retrying,
+      pausedUntil: this.pausedUntil,
+    };
+  }
+
+  subscribe(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private pump() {
+    if (this.pausedUntil !== null) {
+      return;
+    }
+
+    while (this.active < this.concurrency && this.queue.length > 0) {
+      const request = this.queue.shift()!;
+      this.active++;
+      this.execute(request);
+    }
+    this.notify();
+  }
+
+  private async execute(request: ScheduledRequest) {
+    let retryDelay: number | null = null;
+
+    try {
+      const response = await request.transport(request.input, request.init);
+
+      const retryable =
+        response.status === 429 || (RETRYABLE_STATUSES.has(response.status) && isIdempotent(request));
+
+      if (retryable && request.attempt < this.maxRetries) {
+        retryDelay = this.retryAfterMs(response) ?? this.backoffMs(request.attempt);
+        console.warn(
+          `[RequestScheduler] ${response.status} from ${request.input}, retrying in ${Math.round(retryDelay)}ms (attempt ${request.attempt + 1}/${this.maxRetries})`
+        );
+        if (response.status === 429) {
+          this.pauseFor(retryDelay);
+        }
+      } else {
+        request.resolve(response);
+      }
+    } catch (error) {
+      // fetch only rejects on network failures, which are worth another try
+      // unless the request may already have gone through
+      if (isIdempotent(request) && request.attempt < this.maxRetries) {
+        retryDelay = this.backoffMs(request.attempt);
+        console.warn(
+          `[RequestScheduler] Network error for ${request.input}, retrying in ${Math.round(retryDelay)}ms`,
+          error
+        );
+      } else {
+        request.reject(error);
+      }
+    } finally {
+      this.active--;
+    }
+
+    if (retryDelay !== null) {
+      this.retrying++;
+      setTimeout(() => {
+        this.retrying--;
+        // Retries go to the front so they don't wait behind newer work
+        this.queue.unshift({ ...request, attempt: request.attempt + 1 });
+        this.pump();
+      }, retryDelay);
+    }
+
+    this.pump();
+  }
+
+  private backoffMs(attempt: number): number {
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    return Math.random() * ceiling;
+  }
+
+  private retryAfterMs(response: Response): number | null {
+    const retryAfterMs = response.headers.get('retry-after-ms');
+    if (retryAfterMs && !Number.isNaN(Number(retryAfterMs))) {
+      return Math.min(Number(retryAfterMs), MAX_RETRY_AFTER_MS);
+    }
+
+    const retryAfter = response.headers.get('retry-after');
+    if (!retryAfter) {
+      return null;
+    }
+
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return Math.min(seconds * 1000, MAX_RETRY_AFTER_MS);
+    }
+
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.min(Math.max(0, date - Date.now()), MAX_RETRY_AFTER_MS);
+    }
+
+    return null;
+  }
+
+  // A 429 applies to the whole key, so hold back every queued request until it clears
+  private pauseFor(delayMs: number) {
+    const until = Date.now() + delayMs;
+    if (this.pausedUntil !== null && this.pausedUntil >= until) {
+      return;
+    }
+
+    this.pausedUntil = until;
+    if (this.pauseTimer) {
+      clearTimeout(this.pauseTimer);
+    }
+    this.pauseTimer = setTimeout(() => {
+      this.pausedUntil = null;
+      this.pauseTimer = null;
+      this.pump();
+    }, delayMs);
+    this.notify();
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+function isIdempotent(request: ScheduledRequest): boolean {
+  return IDEMPOTENT_METHODS.has((request.init?.method ?? 'GET').toUpperCase());
+}
@@ -0,0 +1,158 @@
+import { TimelineClip } from './sequence-timeline';
+
+export interface RenderSequenceOptions {
+  width: number;
+  height: number;
+  frameRate?: number;
+  // Seconds of the sequence rendered so far
+  onProgress?: (seconds: number) => void;
+  signal?: AbortSignal;
+}
+
+// First one the browser can record wins
+const RECORDER_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+
+export function supportsSequenceRendering(): boolean {
+  return (
+    typeof MediaRecorder !== 'undefined' &&
+    typeof HTMLCanvasElement !== 'undefined' &&
+    'captureStream' in HTMLCanvasElement.prototype &&
+    RECORDER_TYPES.some((type) => MediaRecorder.isTypeSupported(type))
+  );
+}
+
+function loadClipVideo(url: string): Promise<HTMLVideoElement> {
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.preload = 'auto';
+  video.playsInline = true;
+
+  return new Promise((resolve, reject) => {
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error('Failed to load a clip'));
+    video.src = url;
+  });
+}
+
+function seek(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error('Failed to seek a clip'));
+    video.currentTime = time;
+  });
+}
+
+// Renders the clips back to back into one file. The sources are played in
+// real time onto a canvas whose frames, together with their mixed audio, go
+// through a MediaRecorder; the recorder is paused while the next clip seeks,
+// so the cuts don't freeze. Clips with another aspect ratio are letterboxed.
+// Browsers throttle background tabs, so the tab should stay visible.
+export async function renderSequence(clips: TimelineClip[], options: RenderSequenceOptions): Promise<Blob> {
+  const { width, height, frameRate = 30, onProgress, signal } = options;
+  const mimeType = RECORDER_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) {
+    throw new Error('This browser cannot record video');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+
+  // Routing the clips' sound through Web Audio records it without playing it aloud
+  const audioContext = new AudioContext();
+  const audioOutput = audioContext.createMediaStreamDestination();
+  const videos: HTMLVideoElement[] = [];
+  const stream = new MediaStream([
+    ...canvas.captureStream(frameRate).getVideoTracks(),
+    ...audioOutput.stream.getAudioTracks(),
+  ]);
+
+  try {
+    for (const clip of clips) {
+      if (!clip.generation.video_url) {
+        throw new Error(`Generation ${clip.generation.id.slice(0, 8)} has no video`);
+      }
+      const video = await loadClipVideo(clip.generation.video_url);
+      audioContext.createMediaElementSource(video).connect(audioOutput);
+      videos.push(video);
+    }
+
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+    });
+
+    let rendered = 0;
+    for (const [index, clip] of clips.entries()) {
+      const video = videos[index];
+      const end = Math.min(clip.outPoint, video.duration);
+      await seek(video, clip.inPoint);
+      if (signal?.aborted) break;
+
+      const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+      const drawWidth = video.videoWidth * scale;
+      const drawHeight = video.videoHeight * scale;
+      const draw = () => {
+        ctx.fillRect(0, 0, width, height);
+        ctx.drawImage(video, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+      };
+      draw();
+
+      if (recorder.state === 'inactive') {
+        recorder.start();
+      } else {
+        recorder.resume();
+      }
+      await audioContext.resume();
+      await video.play();
+
+      await new Promise<void>((resolve) => {
+        const tick = () => {
+          draw();
+          onProgress?.(rendered + Math.max(0, video.currentTime - clip.inPoint));
+          if (signal?.aborted || video.ended || video.currentTime >= end) {
+            resolve();
+          } else {
+            requestAnimationFrame(tick);
+          }
+        };
+        requestAnimationFrame(tick);
+      });
+
+      video.pause();
+      recorder.pause();
+      rendered += end - clip.inPoint;
+      if (signal?.aborted) break;
+    }
+
+    if (recorder.state !== 'inactive') {
+      recorder.stop();
+      await stopped;
+    }
+    if (signal?.aborted) {
+      throw new Error('Rendering was cancelled');
+    }
+
+    onProgress?.(rendered);
+    return new Blob(chunks, { type: recorder.mimeType || mimeType });
+  } finally {
+    stream.getTracks().forEach((track) => track.stop());
+    videos.forEach((video) => {
+      video.removeAttribute('src');
+      video.load();
+    });
+    audioContext.close().catch(() => {});
+  }
+}
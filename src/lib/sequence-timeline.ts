@@ -0,0 +1,49 @@
+import { VideoGeneration } from './supabase';
+
+export interface TimelineClip {
+  // One generation can be on the timeline more than once
+  key: string;
+  generation: VideoGeneration;
+  // Seconds into the source
+  inPoint: number;
+  outPoint: number;
+}
+
+// Shortest part of a source that can be kept
+export const MIN_CLIP_S = 0.5;
+
+let clipCount = 0;
+
+export function createTimelineClip(generation: VideoGeneration): TimelineClip {
+  clipCount += 1;
+  return { key: `clip-${clipCount}`, generation, inPoint: 0, outPoint: generation.duration };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+// Keeps both points inside the source and at least MIN_CLIP_S apart,
+// rounded to tenths of a second
+export function trimClip(clip: TimelineClip, inPoint: number, outPoint: number): TimelineClip {
+  const length = clip.generation.duration;
+  const start = clamp(Math.round(inPoint * 10) / 10, 0, length - MIN_CLIP_S);
+  const end = clamp(Math.round(outPoint * 10) / 10, start + MIN_CLIP_S, length);
+  return { ...clip, inPoint: start, outPoint: end };
+}
+
+export function clipLength(clip: TimelineClip): number {
+  return clip.outPoint - clip.inPoint;
+}
+
+export function timelineDuration(clips: TimelineClip[]): number {
+  return clips.reduce((sum, clip) => sum + clipLength(clip), 0);
+}
+
+// Moves the clip at `from` so it ends up at index `to` of the result
+export function moveClip(clips: TimelineClip[], from: number, to: number): TimelineClip[] {
+  const next = [...clips];
+  const [clip] = next.splice(from, 1);
+  next.splice(clamp(to, 0, next.length), 0, clip);
+  return next;
+}
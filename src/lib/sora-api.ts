@@ -1,3 +1,6 @@
+import { FetchLike, RequestScheduler } from './request-scheduler';
+import { SoraAPIError, SoraNetworkError } from './sora-errors';
+
 export type SoraModel = 'sora-2' | 'sora-2-pro';
 
 export type Resolution =
@@ -8,6 +11,8 @@ export type Resolution =
 
 export type VideoDuration = 4 | 8 | 12;
 
+export type VideoContentVariant = 'video' | 'thumbnail' | 'spritesheet';
+
 export interface VideoGenerationRequest {
   prompt: string;
   model: SoraModel;
@@ -27,6 +32,7 @@ export interface VideoGenerationResponse {
   url?: string;
   download_url?: string;
   progress?: number;
+  seconds?: string;
   error?: {
     message: string;
     type: string;
@@ -34,18 +40,39 @@ export interface VideoGenerationResponse {
   };
 }
 
-const OPENAI_API_BASE = 'https://api.openai.com/v1';
+export interface SoraAPIOptions {
+  scheduler?: RequestScheduler;
+  // Defaults to the public OpenAI API; point at a proxy or mock server instead
+  baseUrl?: string;
+  // Replaces window.fetch, e.g. with MockSoraServer.fetch for offline development
+  transport?: FetchLike;
+  // Sent as OpenAI-Organization / OpenAI-Project to bill a specific org or project
+  organization?: string;
+  project?: string;
+}
+
+export const OPENAI_API_BASE = 'https://api.openai.com/v1';
 
 export class SoraAPI {
   private apiKey: string;
+  private scheduler: RequestScheduler;
+  private baseUrl: string;
+  private transport: FetchLike | undefined;
+  private organization: string | undefined;
+  private project: string | undefined;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: SoraAPIOptions = {}) {
     const normalizedKey = apiKey.trim();
     if (!normalizedKey) {
       throw new Error('Missing OpenAI API key. Please provide a valid key.');
     }
 
     this.apiKey = normalizedKey;
+    this.scheduler = options.scheduler || new RequestScheduler();
+    this.baseUrl = (options.baseUrl || OPENAI_API_BASE).replace(/\/+$/, '');
+    this.transport = options.transport;
+    this.organization = options.organization?.trim() || undefined;
+    this.project = options.project?.trim() || undefined;
   }
 
   async createVideo(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
@@ -59,21 +86,17 @@ export class SoraAPI {
       formData.append('seconds', request.duration.toString());
       formData.append('input_reference', request.imageFile);
 
-      const response = await fetch(`${OPENAI_API_BASE}/videos`, {
+      const response = await this.send(`${this.baseUrl}/videos`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
+          ...this.authHeaders(),
           // Don't set Content-Type - browser will set it with boundary for FormData
         },
         body: formData,
       });
 
       if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(
-          errorData.error?.message ||
-          `API request failed with status ${response.status}`
-        );
+        throw await SoraAPIError.fromResponse(response, 'API request failed');
       }
 
       return response.json();
@@ -92,89 +115,109 @@ export class SoraAPI {
       body.input_reference = request.imageUrl;
     }
 
-    const response = await fetch(`${OPENAI_API_BASE}/videos`, {
+    const response = await this.send(`${this.baseUrl}/videos`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`,
+        ...this.authHeaders(),
       },
       body: JSON.stringify(body),
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error?.message ||
-        `API request failed with status ${response.status}`
-      );
+      throw await SoraAPIError.fromResponse(response, 'API request failed');
+    }
+
+    return response.json();
+  }
+
+  async remixVideo(videoId: string, prompt: string): Promise<VideoGenerationResponse> {
+    const response = await this.send(`${this.baseUrl}/videos/${videoId}/remix`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.authHeaders(),
+      },
+      body: JSON.stringify({ prompt }),
+    });
+
+    if (!response.ok) {
+      throw await SoraAPIError.fromResponse(response, 'Failed to remix video');
     }
 
     return response.json();
   }
 
   async getVideo(videoId: string): Promise<VideoGenerationResponse> {
-    const response = await fetch(`${OPENAI_API_BASE}/videos/${videoId}`, {
+    const response = await this.send(`${this.baseUrl}/videos/${videoId}`, {
       method: 'GET',
       headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
+        ...this.authHeaders(),
       },
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error?.message ||
-        `Failed to fetch video status: ${response.status}`
-      );
+      throw await SoraAPIError.fromResponse(response, 'Failed to fetch video status');
     }
 
     return response.json();
   }
 
   async listVideos(limit: number = 20): Promise<{ data: VideoGenerationResponse[] }> {
-    const response = await fetch(`${OPENAI_API_BASE}/videos?limit=${limit}`, {
+    const response = await this.send(`${this.baseUrl}/videos?limit=${limit}`, {
       method: 'GET',
       headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
+        ...this.authHeaders(),
       },
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error?.message ||
-        `Failed to list videos: ${response.status}`
-      );
+      throw await SoraAPIError.fromResponse(response, 'Failed to list videos');
     }
 
     return response.json();
   }
 
-  async downloadContent(videoId: string): Promise<Blob> {
-    const response = await fetch(`${OPENAI_API_BASE}/videos/${videoId}/content`, {
+  async downloadContent(videoId: string, variant: VideoContentVariant = 'video'): Promise<Blob> {
+    const query = variant === 'video' ? '' : `?variant=${variant}`;
+    const response = await this.send(`${this.baseUrl}/videos/${videoId}/content${query}`, {
       method: 'GET',
       headers: {
-        'Authorization': `Bearer ${this.apiKey}`,
+        ...this.authHeaders(),
       },
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error?.message ||
-        `Failed to download video content: ${response.status}`
-      );
+      throw await SoraAPIError.fromResponse(response, `Failed to download video ${variant}`);
     }
 
     return response.blob();
   }
 
+  async deleteVideo(videoId: string): Promise<void> {
+    const response = await this.send(`${this.baseUrl}/videos/${videoId}`, {
+      method: 'DELETE',
+      headers: {
+        ...this.authHeaders(),
+      },
+    });
+
+    // A job that no longer exists has nothing left to clean up
+    if (response.status === 404) {
+      return;
+    }
+
+    if (!response.ok) {
+      throw await SoraAPIError.fromResponse(response, 'Failed to delete video');
+    }
+  }
+
   async testConnection(): Promise<{ success: boolean; message: string }> {
     try {
-      const response = await fetch(`${OPENAI_API_BASE}/models`, {
+      const response = await this.send(`${this.baseUrl}/models`, {
         method: 'GET',
         headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
+          ...this.authHeaders(),
         },
       });
 
@@ -197,6 +240,31 @@ export class SoraAPI {
       };
     }
   }
+
+  getScheduler(): RequestScheduler {
+    return this.scheduler;
+  }
+
+  private authHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.apiKey}` };
+    if (this.organization) {
+      headers['OpenAI-Organization'] = this.organization;
+    }
+    if (this.project) {
+      headers['OpenAI-Project'] = this.project;
+    }
+    return headers;
+  }
+
+  private async send(url: string, init: RequestInit): Promise<Response> {
+    try {
+      return await this.scheduler.fetch(url, init, this.transport);
+    } catch (error) {
+      throw new SoraNetworkError(
+        `Could not reach the OpenAI API: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
 }
 
 export const RESOLUTION_OPTIONS: { value: Resolution; label: string; model: SoraModel[] }[] = [
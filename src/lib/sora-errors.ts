@@ -0,0 +1,211 @@
+export type SoraErrorCategory =
+  | 'authentication'
+  | 'permission'
+  | 'moderation'
+  | 'rate_limit'
+  | 'quota'
+  | 'usage_limit'
+  | 'invalid_request'
+  | 'not_found'
+  | 'server'
+  | 'network'
+  | 'unknown';
+
+export interface SoraErrorDetails {
+  status: number | null;
+  type: string | null;
+  code: string | null;
+  requestId: string | null;
+}
+
+const RETRYABLE_CATEGORIES = new Set<SoraErrorCategory>(['rate_limit', 'server', 'network']);
+
+interface OpenAIErrorBody {
+  message?: string;
+  type?: string;
+  code?: string | null;
+}
+
+// Base class for everything SoraAPI throws. Carries what OpenAI told us about
+// the failure so callers can branch on `category` instead of parsing messages.
+export class SoraAPIError extends Error {
+  readonly status: number | null;
+  readonly type: string | null;
+  readonly code: string | null;
+  readonly requestId: string | null;
+  readonly category: SoraErrorCategory;
+  readonly retryable: boolean;
+
+  constructor(message: string, details: SoraErrorDetails, category: SoraErrorCategory = 'unknown') {
+    super(message);
+    this.name = 'SoraAPIError';
+    this.status = details.status;
+    this.type = details.type;
+    this.code = details.code;
+    this.requestId = details.requestId;
+    this.category = category;
+    this.retryable = RETRYABLE_CATEGORIES.has(category);
+  }
+
+  static async fromResponse(response: Response, fallbackMessage: string): Promise<SoraAPIError> {
+    const body = await response.json().catch(() => ({}));
+    const error: OpenAIErrorBody = body?.error || {};
+
+    return createSoraError(error.message || `${fallbackMessage}: ${response.status}`, {
+      status: response.status,
+      type: error.type || null,
+      code: error.code || null,
+      requestId: response.headers.get('x-request-id'),
+    });
+  }
+
+  // Failed jobs report their error in the video object rather than as an HTTP error
+  static fromJobError(error: OpenAIErrorBody | undefined, fallbackMessage: string): SoraAPIError {
+    return createSoraError(error?.message || fallbackMessage, {
+      status: null,
+      type: error?.type || null,
+      code: error?.code || null,
+      requestId: null,
+    });
+  }
+}
+
+export class SoraAuthenticationError extends SoraAPIError {
+  constructor(message: string, details: SoraErrorDetails, category: 'authentication' | 'permission') {
+    super(message, details, category);
+    this.name = 'SoraAuthenticationError';
+  }
+}
+
+export class SoraModerationError extends SoraAPIError {
+  constructor(message: string, details: SoraErrorDetails) {
+    super(message, details, 'moderation');
+    this.name = 'SoraModerationError';
+  }
+}
+
+export class SoraRateLimitError extends SoraAPIError {
+  constructor(message: string, details: SoraErrorDetails, category: 'rate_limit' | 'quota' | 'usage_limit') {
+    super(message, details, category);
+    this.name = 'SoraRateLimitError';
+  }
+}
+
+export class SoraInvalidRequestError extends SoraAPIError {
+  constructor(message: string, details: SoraErrorDetails, category: 'invalid_request' | 'not_found') {
+    super(message, details, category);
+    this.name = 'SoraInvalidRequestError';
+  }
+}
+
+export class SoraServerError extends SoraAPIError {
+  constructor(message: string, details: SoraErrorDetails) {
+    super(message, details, 'server');
+    this.name = 'SoraServerError';
+  }
+}
+
+export class SoraNetworkError extends SoraAPIError {
+  constructor(message: string) {
+    super(message, { status: null, type: null, code: null, requestId: null }, 'network');
+    this.name = 'SoraNetworkError';
+  }
+}
+
+function isModeration({ type, code }: SoraErrorDetails): boolean {
+  return [type, code].some(
+    (value) => value && /moderation|content_policy|safety/i.test(value)
+  );
+}
+
+function createSoraError(message: string, details: SoraErrorDetails): SoraAPIError {
+  const { status, type, code } = details;
+
+  if (isModeration(details)) {
+    return new SoraModerationError(message, details);
+  }
+  // Per-user limits enforced by the sora-proxy edge function
+  if (code === 'user_limit_exceeded') {
+    return new SoraRateLimitError(message, details, 'usage_limit');
+  }
+  if (status === 401 || type === 'authentication_error' || code === 'invalid_api_key') {
+    return new SoraAuthenticationError(message, details, 'authentication');
+  }
+  if (status === 403 || type === 'permission_error') {
+    return new SoraAuthenticationError(message, details, 'permission');
+  }
+  if (code === 'insufficient_quota' || code === 'billing_hard_limit_reached') {
+    return new SoraRateLimitError(message, details, 'quota');
+  }
+  if (status === 429 || code === 'rate_limit_exceeded') {
+    return new SoraRateLimitError(message, details, 'rate_limit');
+  }
+  if (status === 404) {
+    return new SoraInvalidRequestError(message, details, 'not_found');
+  }
+  if ((status !== null && status >= 400 && status < 500) || type === 'invalid_request_error') {
+    return new SoraInvalidRequestError(message, details, 'invalid_request');
+  }
+  if ((status !== null && status >= 500) || type === 'server_error') {
+    return new SoraServerError(message, details);
+  }
+
+  return new SoraAPIError(message, details);
+}
+
+export const ERROR_GUIDANCE: Record<SoraErrorCategory, { title: string; guidance: string }> = {
+  authentication: {
+    title: 'Invalid API key',
+    guidance: 'Log out and enter a valid OpenAI API key.',
+  },
+  permission: {
+    title: 'No access to Sora',
+    guidance: 'This key or organization is not allowed to use the Sora API. Check your organization and project access on platform.openai.com.',
+  },
+  moderation: {
+    title: 'Blocked by moderation',
+    guidance: 'The prompt or starting image was rejected by content policy. Rephrase the prompt or try a different image.',
+  },
+  rate_limit: {
+    title: 'Rate limited',
+    guidance: 'OpenAI is throttling this key. Wait a minute and try again, or lower the request concurrency.',
+  },
+  quota: {
+    title: 'Quota exhausted',
+    guidance: 'The account has run out of credit. Add billing credit on platform.openai.com before retrying.',
+  },
+  usage_limit: {
+    title: 'Usage limit reached',
+    guidance: 'The team proxy limits how many videos each user can render at once and per day. Wait for running jobs to finish, or try again later.',
+  },
+  invalid_request: {
+    title: 'Invalid request',
+    guidance: 'Check the model, resolution, duration and starting image, then try again.',
+  },
+  not_found: {
+    title: 'Job not found',
+    guidance: 'OpenAI no longer has this job. It may have expired or been deleted.',
+  },
+  server: {
+    title: 'OpenAI server error',
+    guidance: 'This is usually temporary. Try again in a few minutes.',
+  },
+  network: {
+    title: 'Network error',
+    guidance: 'Could not reach OpenAI. Check your internet connection and try again.',
+  },
+  unknown: {
+    title: 'Generation failed',
+    guidance: 'Check the debug logs on the Test page for more details.',
+  },
+};
+
+export function describeError(error: unknown): { message: string; guidance: string | null } {
+  if (error instanceof SoraAPIError) {
+    return { message: error.message, guidance: ERROR_GUIDANCE[error.category].guidance };
+  }
+  return {
+    message: error instanceof Error ? error.message : 'Unknown error',
+    guidance: null,
+  };
+}
@@ -0,0 +1,29 @@
+import { FetchLike } from './request-scheduler';
+import { AuthProvider } from './persistence';
+
+// SoraAPI insists on a key; in proxy mode the real one lives on the server
+export const PROXY_API_KEY_PLACEHOLDER = 'sora-proxy';
+
+// Transport for proxy mode: requests keep their path but carry the signed-in
+// user's Supabase access token instead of an OpenAI key. The token is read per
+// request so refreshed sessions are picked up.
+export function createProxyTransport(auth: AuthProvider, transport?: FetchLike): FetchLike {
+  return async (input, init = {}) => {
+    const token = await auth.getAccessToken();
+    if (!token) {
+      // Answered like the proxy would, so it is reported as an auth error
+      // instead of being retried as a network failure
+      return new Response(
+        JSON.stringify({
+          error: { message: 'Sign in to use the Sora proxy', type: 'authentication_error', code: 'missing_session' },
+        }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${token}`);
+
+    return (transport || fetch)(input, { ...init, headers });
+  };
+}
@@ -0,0 +1,141 @@
+import { VideoService } from './video-service';
+
+export interface StatusPollerOptions {
+  intervalMs?: number;
+}
+
+export interface StatusPollerState {
+  // True while this tab holds the poller lock and is the one asking OpenAI
+  isOwner: boolean;
+  checking: boolean;
+  lastCheck: number | null;
+}
+
+type StateListener = (state: StatusPollerState) => void;
+
+// Tabs only poll jobs of their own API key profile, so each profile gets its
+// own lock and one tab per profile polls
+const POLLER_LOCK_PREFIX = 'sora2-tool:status-poller';
+export const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+// Checks unfinished generations against OpenAI on an interval. Only the tab
+// holding a Web Lock polls; the others wait in line and take over when it
+// closes. Results reach every tab through the generation subscription, so
+// the poller itself reports nothing but its own state.
+export class StatusPoller {
+  private intervalMs: number;
+  private isOwner = false;
+  private checking = false;
+  private lastCheck: number | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lockAbort: AbortController | null = null;
+  private releaseLock: (() => void) | null = null;
+  private listeners = new Set<StateListener>();
+
+  constructor(private videoService: VideoService, options: StatusPollerOptions = {}) {
+    this.intervalMs = options.intervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  start() {
+    if (this.lockAbort) return;
+    this.lockAbort = new AbortController();
+
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      // No Web Locks (older browsers): every tab polls, as before
+      this.becomeOwner();
+      return;
+    }
+
+    const { signal } = this.lockAbort;
+    const profile = this.videoService.getApiProfile();
+    const lockName = profile ? `${POLLER_LOCK_PREFIX}:${profile}` : POLLER_LOCK_PREFIX;
+    navigator.locks
+      .request(lockName, { signal }, () => {
+        if (signal.aborted) return;
+        this.becomeOwner();
+        return new Promise<void>((resolve) => {
+          this.releaseLock = resolve;
+        });
+      })
+      .catch((error) => {
+        if (!(error instanceof DOMException && error.name === 'AbortError')) {
+          console.error('[StatusPoller] Failed to acquire poller lock:', error);
+        }
+      });
+  }
+
+  stop() {
+    this.lockAbort?.abort();
+    this.lockAbort = null;
+    this.releaseLock?.();
+    this.releaseLock = null;
+
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.isOwner = false;
+    this.notify();
+  }
+
+  // Also used for manual refreshes, which run in whichever tab asked
+  async checkNow(): Promise<void> {
+    if (this.checking) return;
+
+    this.checking = true;
+    this.notify();
+
+    try {
+      const unfinished = await this.videoService.listUnfinishedGenerations();
+      if (unfinished.length > 0) {
+        console.log(`[StatusPoller] Checking status for ${unfinished.length} unfinished videos...`);
+      }
+
+      // Checks are handed to the request scheduler, which caps how many run at once
+      await Promise.all(
+        unfinished.map(async (generation) => {
+          try {
+            await this.videoService.checkVideoStatus(generation.id);
+          } catch (error) {
+            console.error(`[StatusPoller] Error checking status for ${generation.id}:`, error);
+          }
+        })
+      );
+      this.lastCheck = Date.now();
+    } catch (error) {
+      console.error('[StatusPoller] Failed to list unfinished generations:', error);
+    } finally {
+      this.checking = false;
+      this.notify();
+    }
+  }
+
+  getState(): StatusPollerState {
+    return {
+      isOwner: this.isOwner,
+      checking: this.checking,
+      lastCheck: this.lastCheck,
+    };
+  }
+
+  subscribe(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private becomeOwner() {
+    console.log('[StatusPoller] This tab now polls OpenAI for status updates');
+    this.isOwner = true;
+    this.notify();
+
+    this.checkNow();
+    this.timer = setInterval(() => this.checkNow(), this.intervalMs);
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
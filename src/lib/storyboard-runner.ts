@@ -0,0 +1,237 @@
+import { Storyboard, StoryboardShot, VideoGeneration } from './supabase';
+import { StoryboardInput } from './persistence';
+import { VideoService } from './video-service';
+
+// 'stalled' means a shot failed, or its generation is gone, and needs a retry
+export type StoryboardStatus = 'draft' | 'running' | 'stalled' | 'completed';
+
+export interface ShotProgress {
+  shot: StoryboardShot;
+  generation: VideoGeneration | null;
+  submitting: boolean;
+  // Why submitting failed in this tab; cleared on retry
+  error: string | null;
+}
+
+export interface StoryboardProgress {
+  status: StoryboardStatus;
+  completed: number;
+  shots: ShotProgress[];
+}
+
+export interface StoryboardRunnerState {
+  storyboards: Storyboard[];
+  progress: Record<string, StoryboardProgress>;
+  loading: boolean;
+}
+
+type StateListener = (state: StoryboardRunnerState) => void;
+
+// Drives storyboards forward: whenever a shot's generation completes, the
+// next shot is submitted with its last frame as the starting image. Feed it
+// every generation change with observe() and forget(). Every open tab runs
+// one; claiming a shot in the database keeps them from submitting it twice.
+export class StoryboardRunner {
+  private storyboards: Storyboard[] = [];
+  private generations = new Map<string, VideoGeneration>();
+  private submitting = new Set<string>();
+  private errors = new Map<string, string>();
+  private loading = false;
+  private listeners = new Set<StateListener>();
+
+  constructor(private videoService: VideoService) {}
+
+  async load(): Promise<void> {
+    this.loading = true;
+    this.notify();
+
+    try {
+      this.storyboards = await this.videoService.listStoryboards();
+      const ids = this.storyboards.flatMap((s) => s.shots.flatMap((shot) => shot.generation_id ?? []));
+      if (ids.length > 0) {
+        const { generations } = await this.videoService.listVideoGenerationPage({
+          filter: { ids },
+          offset: 0,
+          limit: ids.length,
+        });
+        this.generations = new Map(generations.map((g) => [g.id, g]));
+      }
+    } catch (error) {
+      console.error('[StoryboardRunner] Failed to load storyboards:', error);
+    } finally {
+      this.loading = false;
+      this.notify();
+    }
+
+    // Shots that finished while no tab was open
+    this.advanceAll();
+  }
+
+  observe(generation: VideoGeneration) {
+    if (!this.findShot(generation.id)) return;
+
+    this.generations.set(generation.id, generation);
+    this.notify();
+    this.advanceAll();
+  }
+
+  // The database clears the shot's generation_id along with the row
+  forget(generationId: string) {
+    const match = this.findShot(generationId);
+    if (!match) return;
+
+    this.generations.delete(generationId);
+    this.replaceShot(match.storyboard.id, { ...match.shot, generation_id: null });
+  }
+
+  async create(input: StoryboardInput): Promise<Storyboard> {
+    const storyboard = await this.videoService.createStoryboard(input);
+    this.storyboards = [storyboard, ...this.storyboards];
+    this.notify();
+    return storyboard;
+  }
+
+  async update(existing: Storyboard, input: StoryboardInput): Promise<Storyboard> {
+    const storyboard = await this.videoService.updateStoryboard(existing, input);
+    this.storyboards = this.storyboards.map((s) => (s.id === storyboard.id ? storyboard : s));
+    this.notify();
+    return storyboard;
+  }
+
+  async delete(storyboard: Storyboard): Promise<void> {
+    await this.videoService.deleteStoryboard(storyboard.id);
+    this.storyboards = this.storyboards.filter((s) => s.id !== storyboard.id);
+    this.notify();
+  }
+
+  // Submits the first shot; the rest follow on their own
+  async start(storyboard: Storyboard): Promise<void> {
+    const [first] = storyboard.shots;
+    if (first && !first.submitted_at) {
+      await this.submit(storyboard, first);
+    }
+  }
+
+  // Submits a failed shot again, from the same frame as before
+  async retry(storyboard: Storyboard, shot: StoryboardShot): Promise<void> {
+    await this.videoService.resetStoryboardShot(shot);
+    this.errors.delete(shot.id);
+    const reset = { ...shot, generation_id: null, submitted_at: null };
+    this.replaceShot(storyboard.id, reset);
+    await this.submit(this.storyboards.find((s) => s.id === storyboard.id) ?? storyboard, reset);
+  }
+
+  getState(): StoryboardRunnerState {
+    return {
+      storyboards: this.storyboards,
+      progress: Object.fromEntries(this.storyboards.map((s) => [s.id, this.progressOf(s)])),
+      loading: this.loading,
+    };
+  }
+
+  subscribe(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private progressOf(storyboard: Storyboard): StoryboardProgress {
+    const shots = storyboard.shots.map((shot) => ({
+      shot,
+      generation: shot.generation_id ? this.generations.get(shot.generation_id) ?? null : null,
+      submitting: this.submitting.has(shot.id),
+      error: this.errors.get(shot.id) ?? null,
+    }));
+    const completed = shots.filter((s) => s.generation?.status === 'completed').length;
+
+    const stalled = shots.some(
+      (s) =>
+        s.error !== null ||
+        s.generation?.status === 'failed' ||
+        // Claimed but its generation was deleted, or the tab closed mid-submit
+        (s.shot.submitted_at !== null && !s.shot.generation_id && !s.submitting)
+    );
+    const status: StoryboardStatus =
+      shots.length > 0 && completed === shots.length
+        ? 'completed'
+        : stalled
+        ? 'stalled'
+        : shots.some((s) => s.shot.submitted_at || s.submitting)
+        ? 'running'
+        : 'draft';
+
+    return { status, completed, shots };
+  }
+
+  // Submits every shot whose predecessor has completed
+  private advanceAll() {
+    this.storyboards.forEach((storyboard) => {
+      if (this.progressOf(storyboard).status !== 'running') return;
+
+      storyboard.shots.forEach((shot, index) => {
+        if (index === 0 || shot.submitted_at || this.submitting.has(shot.id) || this.errors.has(shot.id)) return;
+        const previous = storyboard.shots[index - 1].generation_id;
+        if (previous && this.generations.get(previous)?.status === 'completed') {
+          this.submit(storyboard, shot);
+        }
+      });
+    });
+  }
+
+  private async submit(storyboard: Storyboard, shot: StoryboardShot): Promise<void> {
+    if (this.submitting.has(shot.id)) return;
+
+    const index = storyboard.shots.findIndex((s) => s.id === shot.id);
+    const previousId = index > 0 ? storyboard.shots[index - 1].generation_id : null;
+    const previous = previousId ? this.generations.get(previousId) ?? null : null;
+
+    this.submitting.add(shot.id);
+    this.notify();
+
+    try {
+      console.log(`[StoryboardRunner] Submitting shot ${index + 1} of "${storyboard.name}"`);
+      const generation = await this.videoService.submitStoryboardShot(storyboard, shot, previous);
+      if (generation) {
+        this.generations.set(generation.id, generation);
+        this.replaceShot(storyboard.id, {
+          ...shot,
+          generation_id: generation.id,
+          submitted_at: new Date().toISOString(),
+        });
+      } else {
+        // Another tab got there first; pick up what it did
+        this.submitting.delete(shot.id);
+        await this.load();
+      }
+    } catch (error) {
+      console.error(`[StoryboardRunner] Failed to submit shot ${index + 1} of "${storyboard.name}":`, error);
+      this.errors.set(shot.id, error instanceof Error ? error.message : 'Failed to submit shot');
+    } finally {
+      this.submitting.delete(shot.id);
+      this.notify();
+    }
+  }
+
+  private findShot(generationId: string): { storyboard: Storyboard; shot: StoryboardShot } | null {
+    for (const storyboard of this.storyboards) {
+      const shot = storyboard.shots.find((s) => s.generation_id === generationId);
+      if (shot) return { storyboard, shot };
+    }
+    return null;
+  }
+
+  private replaceShot(storyboardId: string, shot: StoryboardShot) {
+    this.storyboards = this.storyboards.map((storyboard) =>
+      storyboard.id === storyboardId
+        ? { ...storyboard, shots: storyboard.shots.map((s) => (s.id === shot.id ? shot : s)) }
+        : storyboard
+    );
+    this.notify();
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
@@ -0,0 +1,938 @@
+import { RealtimePostgresChangesPayload, SupabaseClient, User } from '@supabase/supabase-js';
+import {
+  Collection,
+  CreditAccount,
+  CreditTransaction,
+  Project,
+  PromptHistoryEntry,
+  PromptTemplate,
+  Sequence,
+  SequenceClip,
+  Storyboard,
+  StoryboardShot,
+  VideoGeneration,
+} from './supabase';
+import { PriceEntry } from './pricing';
+import { PreflightRules } from './prompt-preflight';
+import {
+  AuthProvider,
+  AuthUser,
+  CollectionStore,
+  CreditLedger,
+  GenerationListFilter,
+  GenerationPage,
+  GenerationPageRequest,
+  GenerationRepository,
+  GenerationSort,
+  GenerationSubscriptionHandlers,
+  StorageBackend,
+  StorageBucket,
+  StorageEntry,
+  StorageObjectRef,
+  InsufficientCreditsError,
+  PreflightRuleStore,
+  ProjectStore,
+  PromptTemplateInput,
+  PromptTemplateStore,
+  SequenceInput,
+  SequenceStore,
+  StoryboardInput,
+  StoryboardStore,
+  UploadOptions,
+} from './persistence';
+
+const PAGE_SIZE = 1000;
+
+let channelCount = 0;
+
+export class SupabaseGenerationRepository implements GenerationRepository {
+  readonly backend = 'supabase' as const;
+
+  constructor(private client: SupabaseClient) {}
+
+  async checkConnection(): Promise<void> {
+    const { error } = await this.client.from('video_generations').select('count').limit(1);
+
+    if (error) {
+      throw new Error(`Failed to reach Supabase: ${error.message}`);
+    }
+  }
+
+  async insert(record: Partial<VideoGeneration>): Promise<VideoGeneration> {
+    const { data, error } = await this.client
+      .from('video_generations')
+      .insert(record)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save video generation: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async get(id: string): Promise<VideoGeneration> {
+    const { data, error } = await this.client
+      .from('video_generations')
+      .select()
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch generation: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async update(id: string, updates: Partial<VideoGeneration>): Promise<VideoGeneration> {
+    const { data, error } = await this.client
+      .from('video_generations')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update video generation: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async delete(id: string): Promise<void> {
+    const { error } = await this.client
+      .from('video_generations')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete video generation: ${error.message}`);
+    }
+  }
+
+  async list(limit: number, filter: GenerationListFilter = {}): Promise<VideoGeneration[]> {
+    const { data, error } = await this.selectGenerations(filter, 'newest').limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list video generations: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async listPage({ filter = {}, sort = 'newest', offset, limit }: GenerationPageRequest): Promise<GenerationPage> {
+    const { data, error, count } = await this.selectGenerations(filter, sort, 'exact').range(
+      offset,
+      offset + limit - 1
+    );
+
+    if (error) {
+      throw new Error(`Failed to list video generations: ${error.message}`);
+    }
+
+    return { generations: data || [], total: count ?? 0 };
+  }
+
+  private selectGenerations(filter: GenerationListFilter, sort: GenerationSort, count?: 'exact') {
+    let query = this.client.from('video_generations').select('*', { count });
+    if (filter.userId) {
+      query = query.eq('user_id', filter.userId);
+    }
+    if (filter.apiProfile) {
+      query = query.eq('api_profile', filter.apiProfile);
+    }
+    if (filter.ids) {
+      query = query.in('id', filter.ids);
+    }
+    if (filter.projectId) {
+      query = query.eq('project_id', filter.projectId);
+    }
+    if (filter.tag) {
+      query = query.contains('tags', [filter.tag]);
+    }
+    if (filter.search) {
+      query = query.textSearch('prompt_tsv', filter.search, { type: 'websearch', config: 'english' });
+    }
+    if (filter.statuses?.length) {
+      query = query.in('status', filter.statuses);
+    }
+    if (filter.model) {
+      query = query.eq('model', filter.model);
+    }
+    if (filter.resolution) {
+      query = query.eq('resolution', filter.resolution);
+    }
+    if (filter.duration !== undefined) {
+      query = query.eq('duration', filter.duration);
+    }
+    if (filter.hasImage !== undefined) {
+      query = filter.hasImage ? query.not('image_url', 'is', null) : query.is('image_url', null);
+    }
+    if (filter.createdFrom) {
+      query = query.gte('created_at', filter.createdFrom);
+    }
+    if (filter.createdBefore) {
+      query = query.lt('created_at', filter.createdBefore);
+    }
+
+    switch (sort) {
+      case 'oldest':
+        return query.order('created_at', { ascending: true });
+      case 'longest':
+        return query.order('duration', { ascending: false }).order('created_at', { ascending: false });
+      case 'priciest':
+        return query
+          .order('cost', { ascending: false, nullsFirst: false })
+          .order('estimated_cost', { ascending: false, nullsFirst: false })
+          .order('created_at', { ascending: false });
+      default:
+        return query.order('created_at', { ascending: false });
+    }
+  }
+
+  async listUnfinished(): Promise<VideoGeneration[]> {
+    const { data, error } = await this.client
+      .from('video_generations')
+      .select()
+      .in('status', ['pending', 'processing'])
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list unfinished generations: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async listCreatedSince(since: Date): Promise<VideoGeneration[]> {
+    const rows: VideoGeneration[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.client
+        .from('video_generations')
+        .select()
+        .gte('created_at', since.toISOString())
+        .order('created_at', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to list video generations: ${error.message}`);
+      }
+
+      rows.push(...data);
+
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    return rows;
+  }
+
+  async getPricing(): Promise<PriceEntry[]> {
+    const { data, error } = await this.client
+      .from('pricing_config')
+      .select('model, resolution, price_per_second');
+
+    if (error) {
+      throw new Error(`Failed to load pricing: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async listPromptHistory(limit: number): Promise<PromptHistoryEntry[]> {
+    const { data, error } = await this.client
+      .from('prompt_history')
+      .select('prompt, uses, completed, failed, last_used_at, favorite')
+      .order('favorite', { ascending: false })
+      .order('last_used_at', { ascending: false, nullsFirst: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load prompt history: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async setPromptFavorite(prompt: string, favorite: boolean): Promise<void> {
+    // user_id defaults to auth.uid(); RLS limits the delete to the caller's rows
+    const { error } = favorite
+      ? await this.client.from('favorite_prompts').upsert({ prompt }, { onConflict: 'user_id,prompt', ignoreDuplicates: true })
+      : await this.client.from('favorite_prompts').delete().eq('prompt', prompt);
+
+    if (error) {
+      throw new Error(`Failed to ${favorite ? 'star' : 'unstar'} prompt: ${error.message}`);
+    }
+  }
+
+  async listOrphanedStorageObjects(): Promise<StorageObjectRef[]> {
+    const orphans: StorageObjectRef[] = [];
+
+    // RLS hides other users' rows, so comparing the bucket against what we can
+    // read would take their files for orphans; the function checks every row
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.client
+        .rpc('list_orphaned_storage_objects')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to list orphaned storage objects: ${error.message}`);
+      }
+
+      const rows = data as { bucket_id: StorageBucket; name: string }[];
+      orphans.push(...rows.map((row) => ({ bucket: row.bucket_id, path: row.name })));
+
+      if (rows.length < PAGE_SIZE) break;
+    }
+
+    return orphans;
+  }
+
+  subscribe({ onChange, onStatus }: GenerationSubscriptionHandlers): () => void {
+    let active = true;
+    onStatus?.('connecting');
+
+    // realtime-js rejoins the channel on its own after an error; we only need
+    // to report the state so the caller can refetch once it is live again
+    const channel = this.client
+      .channel(`video_generations:${++channelCount}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'video_generations' },
+        (payload: RealtimePostgresChangesPayload<VideoGeneration>) => {
+          if (payload.eventType === 'DELETE') {
+            if (payload.old.id) {
+              onChange({ type: 'delete', id: payload.old.id });
+            }
+          } else {
+            onChange({ type: 'upsert', generation: payload.new });
+          }
+        }
+      )
+      .subscribe((status, error) => {
+        if (!active) return;
+
+        if (status === 'SUBSCRIBED') {
+          onStatus?.('live');
+        } else {
+          console.warn(`[SupabaseRealtime] video_generations channel ${status}`, error || '');
+          onStatus?.('disconnected');
+        }
+      });
+
+    return () => {
+      active = false;
+      this.client.removeChannel(channel);
+    };
+  }
+}
+
+export class SupabaseStorageBackend implements StorageBackend {
+  readonly backend = 'supabase' as const;
+
+  constructor(private client: SupabaseClient) {}
+
+  async upload(bucket: StorageBucket, path: string, blob: Blob, options: UploadOptions): Promise<string> {
+    const { error } = await this.client.storage
+      .from(bucket)
+      .upload(path, blob, options);
+
+    if (error) {
+      throw new Error(`Failed to upload to Supabase Storage: ${error.message}`);
+    }
+
+    const { data: urlData } = this.client.storage
+      .from(bucket)
+      .getPublicUrl(path);
+
+    return urlData.publicUrl;
+  }
+
+  async remove(bucket: StorageBucket, paths: string[]): Promise<void> {
+    const { error } = await this.client.storage.from(bucket).remove(paths);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async list(bucket: StorageBucket, prefix: string): Promise<StorageEntry[]> {
+    const entries: StorageEntry[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.client.storage
+        .from(bucket)
+        .list(prefix, { limit: PAGE_SIZE, offset });
+
+      if (error) {
+        throw new Error(`Failed to list ${bucket}/${prefix}: ${error.message}`);
+      }
+
+      // Folders are returned as placeholder entries without an id
+      data.forEach((item) => entries.push({ name: item.name, isFolder: item.id === null }));
+
+      if (data.length < PAGE_SIZE) break;
+    }
+
+    return entries;
+  }
+
+  pathFromUrl(url: string, bucket: StorageBucket): string | null {
+    const marker = `/storage/v1/object/public/${bucket}/`;
+    const index = url.indexOf(marker);
+    if (index === -1) {
+      return null;
+    }
+    return decodeURIComponent(url.slice(index + marker.length).split('?')[0]);
+  }
+}
+
+export class SupabaseCreditLedger implements CreditLedger {
+  constructor(private client: SupabaseClient) {}
+
+  async getAccount(): Promise<CreditAccount | null> {
+    const { data: sessionData } = await this.client.auth.getSession();
+    const userId = sessionData.session?.user.id;
+    if (!userId) {
+      return null;
+    }
+
+    const { data, error } = await this.client
+      .from('accounts')
+      .select()
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load credit account: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async listTransactions(limit: number): Promise<CreditTransaction[]> {
+    const { data, error } = await this.client
+      .from('transactions')
+      .select()
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load transactions: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async reserve(generationId: string): Promise<void> {
+    const { error } = await this.client.rpc('reserve_generation_credits', { p_generation_id: generationId });
+
+    if (error) {
+      if (error.hint === 'insufficient_credits') {
+        throw new InsufficientCreditsError(error.message);
+      }
+      throw new Error(`Failed to reserve credits: ${error.message}`);
+    }
+  }
+
+  async settle(generationId: string): Promise<void> {
+    const { error } = await this.client.rpc('settle_generation_credits', { p_generation_id: generationId });
+
+    if (error) {
+      throw new Error(`Failed to settle credits: ${error.message}`);
+    }
+  }
+
+  async refund(generationId: string): Promise<void> {
+    const { error } = await this.client.rpc('refund_generation_credits', { p_generation_id: generationId });
+
+    if (error) {
+      throw new Error(`Failed to refund credits: ${error.message}`);
+    }
+  }
+}
+
+function toAuthUser(user: User | null | undefined): AuthUser | null {
+  return user ? { id: user.id, email: user.email ?? null } : null;
+}
+
+export class SupabaseAuthProvider implements AuthProvider {
+  constructor(private client: SupabaseClient) {}
+
+  async getUser(): Promise<AuthUser | null> {
+    const { data, error } = await this.client.auth.getSession();
+
+    if (error) {
+      throw new Error(`Failed to read session: ${error.message}`);
+    }
+
+    return toAuthUser(data.session?.user);
+  }
+
+  async getAccessToken(): Promise<string | null> {
+    const { data, error } = await this.client.auth.getSession();
+
+    if (error) {
+      throw new Error(`Failed to read session: ${error.message}`);
+    }
+
+    return data.session?.access_token ?? null;
+  }
+
+  subscribe(listener: (user: AuthUser | null) => void): () => void {
+    const { data } = this.client.auth.onAuthStateChange((_event, session) => {
+      listener(toAuthUser(session?.user));
+    });
+    return () => data.subscription.unsubscribe();
+  }
+
+  async signInWithPassword(email: string, password: string): Promise<void> {
+    const { error } = await this.client.auth.signInWithPassword({ email, password });
+
+    if (error) {
+      throw new Error(`Failed to sign in: ${error.message}`);
+    }
+  }
+
+  async signUp(email: string, password: string): Promise<boolean> {
+    const { data, error } = await this.client.auth.signUp({
+      email,
+      password,
+      options: { emailRedirectTo: window.location.origin },
+    });
+
+    if (error) {
+      throw new Error(`Failed to create account: ${error.message}`);
+    }
+
+    return data.session === null;
+  }
+
+  async sendMagicLink(email: string): Promise<void> {
+    const { error } = await this.client.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: window.location.origin },
+    });
+
+    if (error) {
+      throw new Error(`Failed to send sign-in link: ${error.message}`);
+    }
+  }
+
+  async signOut(): Promise<void> {
+    const { error } = await this.client.auth.signOut();
+
+    if (error) {
+      throw new Error(`Failed to sign out: ${error.message}`);
+    }
+  }
+}
+
+export class SupabasePromptTemplateStore implements PromptTemplateStore {
+  constructor(private client: SupabaseClient) {}
+
+  async list(): Promise<PromptTemplate[]> {
+    const { data, error } = await this.client.from('prompt_templates').select().order('name');
+
+    if (error) {
+      throw new Error(`Failed to load prompt templates: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  // The upsert matches on (user_id, name), so user_id has to be sent explicitly
+  async save(template: PromptTemplateInput): Promise<PromptTemplate> {
+    const { data: sessionData } = await this.client.auth.getSession();
+    const userId = sessionData.session?.user.id;
+    if (!userId) {
+      throw new Error('Sign in to save prompt templates');
+    }
+
+    const { data, error } = await this.client
+      .from('prompt_templates')
+      .upsert({ ...template, user_id: userId }, { onConflict: 'user_id,name' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save prompt template: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async delete(id: string): Promise<void> {
+    const { error } = await this.client.from('prompt_templates').delete().eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete prompt template: ${error.message}`);
+    }
+  }
+}
+
+export class SupabaseProjectStore implements ProjectStore {
+  constructor(private client: SupabaseClient) {}
+
+  async list(): Promise<Project[]> {
+    const { data, error } = await this.client.from('projects').select().order('name');
+
+    if (error) {
+      throw new Error(`Failed to load projects: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  async create(name: string): Promise<Project> {
+    const { data, error } = await this.client.from('projects').insert({ name }).select().single();
+
+    if (error) {
+      throw new Error(`Failed to create project: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async rename(id: string, name: string): Promise<Project> {
+    const { data, error } = await this.client.from('projects').update({ name }).eq('id', id).select().single();
+
+    if (error) {
+      throw new Error(`Failed to rename project: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async delete(id: string): Promise<void> {
+    const { error } = await this.client.from('projects').delete().eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete project: ${error.message}`);
+    }
+  }
+}
+
+interface CollectionRow extends Omit<Collection, 'generation_ids'> {
+  collection_items?: { generation_id: string; position: number }[];
+}
+
+function toCollection({ collection_items = [], ...row }: CollectionRow): Collection {
+  return {
+    ...row,
+    generation_ids: [...collection_items]
+      .sort((a, b) => a.position - b.position)
+      .map((item) => item.generation_id),
+  };
+}
+
+export class SupabaseCollectionStore implements CollectionStore {
+  constructor(private client: SupabaseClient) {}
+
+  async list(): Promise<Collection[]> {
+    const { data, error } = await this.client
+      .from('collections')
+      .select('*, collection_items(generation_id, position)')
+      .order('name');
+
+    if (error) {
+      throw new Error(`Failed to load collections: ${error.message}`);
+    }
+
+    return (data || []).map(toCollection);
+  }
+
+  async create(name: string): Promise<Collection> {
+    const { data, error } = await this.client.from('collections').insert({ name }).select().single();
+
+    if (error) {
+      throw new Error(`Failed to create collection: ${error.message}`);
+    }
+
+    return toCollection(data);
+  }
+
+  async rename(id: string, name: string): Promise<void> {
+    const { error } = await this.client.from('collections').update({ name }).eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to rename collection: ${error.message}`);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    const { error } = await this.client.from('collections').delete().eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete collection: ${error.message}`);
+    }
+  }
+
+  // Drops the items that are gone, then writes every remaining position
+  async setItems(collectionId: string, generationIds: string[]): Promise<void> {
+    let removal = this.client.from('collection_items').delete().eq('collection_id', collectionId);
+    if (generationIds.length > 0) {
+      removal = removal.not('generation_id', 'in', `(${generationIds.join(',')})`);
+    }
+    const { error: removeError } = await removal;
+    if (removeError) {
+      throw new Error(`Failed to update collection: ${removeError.message}`);
+    }
+
+    if (generationIds.length === 0) {
+      return;
+    }
+
+    const { error } = await this.client.from('collection_items').upsert(
+      generationIds.map((generationId, position) => ({
+        collection_id: collectionId,
+        generation_id: generationId,
+        position,
+      })),
+      { onConflict: 'collection_id,generation_id' }
+    );
+
+    if (error) {
+      throw new Error(`Failed to update collection: ${error.message}`);
+    }
+  }
+}
+
+interface StoryboardRow extends Omit<Storyboard, 'shots'> {
+  storyboard_shots?: StoryboardShot[];
+}
+
+function toStoryboard({ storyboard_shots = [], ...row }: StoryboardRow): Storyboard {
+  return { ...row, shots: [...storyboard_shots].sort((a, b) => a.position - b.position) };
+}
+
+export class SupabaseStoryboardStore implements StoryboardStore {
+  constructor(private client: SupabaseClient) {}
+
+  async list(): Promise<Storyboard[]> {
+    const { data, error } = await this.client
+      .from('storyboards')
+      .select('*, storyboard_shots(*)')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load storyboards: ${error.message}`);
+    }
+
+    return (data || []).map(toStoryboard);
+  }
+
+  async create({ shots, ...settings }: StoryboardInput): Promise<Storyboard> {
+    const { data, error } = await this.client.from('storyboards').insert(settings).select().single();
+
+    if (error) {
+      throw new Error(`Failed to create storyboard: ${error.message}`);
+    }
+
+    try {
+      return { ...data, shots: await this.insertShots(data.id, shots) };
+    } catch (shotError) {
+      // Don't leave an empty storyboard behind
+      await this.client.from('storyboards').delete().eq('id', data.id);
+      throw shotError;
+    }
+  }
+
+  async update(id: string, { shots, ...settings }: StoryboardInput): Promise<Storyboard> {
+    const { data, error } = await this.client.from('storyboards').update(settings).eq('id', id).select().single();
+
+    if (error) {
+      throw new Error(`Failed to update storyboard: ${error.message}`);
+    }
+
+    // Shots are written before the stale ones are removed, so a failure
+    // part-way leaves the old shots or extra ones behind, never none
+    const { data: existing, error: loadError } = await this.client
+      .from('storyboard_shots')
+      .select('id')
+      .eq('storyboard_id', id)
+      .order('position', { ascending: true });
+    if (loadError) {
+      throw new Error(`Failed to update storyboard: ${loadError.message}`);
+    }
+
+    const { data: saved, error: saveError } = await this.client
+      .from('storyboard_shots')
+      .upsert(
+        shots.map(({ prompt, duration }, position) => ({
+          id: existing[position]?.id ?? crypto.randomUUID(),
+          storyboard_id: id,
+          position,
+          prompt,
+          duration,
+        }))
+      )
+      .select();
+    if (saveError) {
+      throw new Error(`Failed to save storyboard shots: ${saveError.message}`);
+    }
+
+    let removal = this.client.from('storyboard_shots').delete().eq('storyboard_id', id);
+    if (saved.length > 0) {
+      removal = removal.not('id', 'in', `(${saved.map((shot) => shot.id).join(',')})`);
+    }
+    const { error: removeError } = await removal;
+    if (removeError) {
+      throw new Error(`Failed to update storyboard: ${removeError.message}`);
+    }
+
+    return { ...data, shots: saved.sort((a, b) => a.position - b.position) };
+  }
+
+  async delete(id: string): Promise<void> {
+    const { error } = await this.client.from('storyboards').delete().eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete storyboard: ${error.message}`);
+    }
+  }
+
+  // Only updates the row while submitted_at is still empty, so of two tabs
+  // racing for the same shot exactly one gets it back
+  async claimShot(shotId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('storyboard_shots')
+      .update({ submitted_at: new Date().toISOString() })
+      .eq('id', shotId)
+      .is('submitted_at', null)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to claim storyboard shot: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  async setShotGeneration(shotId: string, generationId: string): Promise<void> {
+    const { error } = await this.client
+      .from('storyboard_shots')
+      .update({ generation_id: generationId })
+      .eq('id', shotId);
+
+    if (error) {
+      throw new Error(`Failed to update storyboard shot: ${error.message}`);
+    }
+  }
+
+  async resetShot(shotId: string): Promise<void> {
+    const { error } = await this.client
+      .from('storyboard_shots')
+      .update({ generation_id: null, submitted_at: null })
+      .eq('id', shotId);
+
+    if (error) {
+      throw new Error(`Failed to reset storyboard shot: ${error.message}`);
+    }
+  }
+
+  private async insertShots(
+    storyboardId: string,
+    shots: StoryboardInput['shots']
+  ): Promise<StoryboardShot[]> {
+    const { data, error } = await this.client
+      .from('storyboard_shots')
+      .insert(shots.map(({ prompt, duration }, position) => ({ storyboard_id: storyboardId, position, prompt, duration })))
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to save storyboard shots: ${error.message}`);
+    }
+
+    return (data || []).sort((a, b) => a.position - b.position);
+  }
+}
+
+interface SequenceRow extends Omit<Sequence, 'clips'> {
+  sequence_clips?: SequenceClip[];
+}
+
+function toSequence({ sequence_clips = [], ...row }: SequenceRow): Sequence {
+  return { ...row, clips: [...sequence_clips].sort((a, b) => a.position - b.position) };
+}
+
+export class SupabaseSequenceStore implements SequenceStore {
+  constructor(private client: SupabaseClient) {}
+
+  async list(): Promise<Sequence[]> {
+    const { data, error } = await this.client
+      .from('sequences')
+      .select('*, sequence_clips(position, generation_id, in_point, out_point)')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load sequences: ${error.message}`);
+    }
+
+    return (data || []).map(toSequence);
+  }
+
+  async create({ clips, ...sequence }: SequenceInput): Promise<Sequence> {
+    const { data, error } = await this.client.from('sequences').insert(sequence).select().single();
+
+    if (error) {
+      throw new Error(`Failed to save sequence: ${error.message}`);
+    }
+
+    const rows = clips.map((clip, position) => ({ ...clip, sequence_id: data.id, position }));
+    const { error: clipError } = await this.client.from('sequence_clips').insert(rows);
+    if (clipError) {
+      // Don't leave a sequence behind that doesn't know its sources
+      await this.client.from('sequences').delete().eq('id', data.id);
+      throw new Error(`Failed to save sequence clips: ${clipError.message}`);
+    }
+
+    return toSequence({ ...data, sequence_clips: rows });
+  }
+
+  async delete(id: string): Promise<void> {
+    const { error } = await this.client.from('sequences').delete().eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete sequence: ${error.message}`);
+    }
+  }
+}
+
+export class SupabasePreflightRuleStore implements PreflightRuleStore {
+  constructor(private client: SupabaseClient) {}
+
+  async load(): Promise<Partial<PreflightRules> | null> {
+    const { data, error } = await this.client.from('preflight_rules').select('rules').eq('id', 1).maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load preflight rules: ${error.message}`);
+    }
+
+    return data?.rules ?? null;
+  }
+
+  // RLS only lets admins write; see the preflight_rules migration
+  async save(rules: PreflightRules): Promise<void> {
+    const { data: sessionData } = await this.client.auth.getSession();
+    const { error } = await this.client
+      .from('preflight_rules')
+      .upsert({ id: 1, rules, updated_by: sessionData.session?.user.id ?? null });
+
+    if (error) {
+      throw new Error(`Failed to save preflight rules: ${error.message}`);
+    }
+  }
+
+  async canEdit(): Promise<boolean> {
+    const { data, error } = await this.client.rpc('is_admin');
+
+    if (error) {
+      throw new Error(`Failed to check admin status: ${error.message}`);
+    }
+
+    return data === true;
+  }
+}
@@ -1,16 +1,13 @@
 import { createClient } from '@supabase/supabase-js';
+import { SoraErrorCategory } from './sora-errors';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error(
-    'Missing Supabase environment variables. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file.'
-  );
-}
-
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Null when the env vars are missing; the app then falls back to browser storage
+export const supabase = supabaseUrl && supabaseAnonKey ? createClient(supabaseUrl, supabaseAnonKey) : null;
 
+export const isSupabaseConfigured = supabase !== null;
 
 export type VideoGeneration = {
   id: string;
@@ -22,9 +19,146 @@ export type VideoGeneration = {
   duration: number;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   video_url: string | null;
+  thumbnail_url: string | null;
+  spritesheet_url: string | null;
   openai_job_id: string | null;
   error_message: string | null;
+  error_status: number | null;
+  error_type: string | null;
+  error_code: string | null;
+  error_category: SoraErrorCategory | null;
+  error_retryable: boolean | null;
+  error_request_id: string | null;
   metadata: Record<string, any>;
   image_url: string | null;
   image_filename: string | null;
+  parent_generation_id: string | null;
+  // Set when the starting image is a frame of another generation
+  source_generation_id: string | null;
+  // Seconds into that generation's video
+  source_timestamp: number | null;
+  // Supabase Auth user who created the row; null with the IndexedDB backend
+  user_id: string | null;
+  // Name of the API key profile that submitted the job, if any
+  api_profile: string | null;
+  project_id: string | null;
+  tags: string[];
+  estimated_cost: number | null;
+  cost: number | null;
+};
+
+export type CreditAccount = {
+  id: string;
+  user_id: string;
+  balance: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type CreditTransactionType = 'credit' | 'reservation' | 'settlement' | 'refund' | 'adjustment';
+
+export type CreditTransaction = {
+  id: string;
+  account_id: string;
+  user_id: string;
+  video_generation_id: string | null;
+  type: CreditTransactionType;
+  // Signed change to the balance; negative amounts take credits away
+  amount: number;
+  balance_after: number;
+  description: string | null;
+  created_at: string;
+};
+
+export type PromptTemplate = {
+  id: string;
+  user_id: string;
+  name: string;
+  // May contain {variable} placeholders; see prompt-templates.ts
+  prompt: string;
+  model: 'sora-2' | 'sora-2-pro';
+  resolution: string;
+  duration: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type Project = {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type Collection = {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  // From collection_items, in collection order
+  generation_ids: string[];
+};
+
+export type StoryboardShot = {
+  id: string;
+  storyboard_id: string;
+  user_id: string;
+  position: number;
+  prompt: string;
+  duration: number;
+  // The generation rendering this shot; null until submitted or once deleted
+  generation_id: string | null;
+  // Set when a tab claims the shot, so only one of them submits it
+  submitted_at: string | null;
+  created_at: string;
+};
+
+export type Storyboard = {
+  id: string;
+  user_id: string;
+  name: string;
+  model: 'sora-2' | 'sora-2-pro';
+  resolution: string;
+  project_id: string | null;
+  created_at: string;
+  updated_at: string;
+  // From storyboard_shots, in shot order
+  shots: StoryboardShot[];
+};
+
+export type SequenceClip = {
+  position: number;
+  // Null once the source generation is deleted
+  generation_id: string | null;
+  // Seconds into the source
+  in_point: number;
+  out_point: number;
+};
+
+// A rendered cut of several generations, stored under video_files/sequences/
+export type Sequence = {
+  id: string;
+  user_id: string;
+  name: string;
+  video_url: string;
+  content_type: string;
+  duration: number;
+  resolution: string;
+  created_at: string;
+  updated_at: string;
+  // From sequence_clips, in sequence order
+  clips: SequenceClip[];
+};
+
+// A row of the prompt_history view: one per distinct prompt
+export type PromptHistoryEntry = {
+  prompt: string;
+  uses: number;
+  completed: number;
+  failed: number;
+  // Null for a starred prompt whose generations have all been deleted
+  last_used_at: string | null;
+  favorite: boolean;
 };
@@ -0,0 +1,167 @@
+export interface SyncedPlaybackState {
+  playing: boolean;
+  currentTime: number;
+  // Of the longest video; shorter ones stop at their last frame
+  duration: number;
+  rate: number;
+}
+
+type StateListener = (state: SyncedPlaybackState) => void;
+
+// Videos further than this from the clock are seeked back into line
+const DRIFT_TOLERANCE_S = 0.08;
+
+export const PLAYBACK_RATES = [0.25, 0.5, 1, 1.5, 2];
+
+// Plays a group of <video> elements as one. The longest video is the clock:
+// the others are started, paused, seeked and rate-changed with it, and nudged
+// back when they drift. Native controls should be hidden so the videos can
+// only be driven through here.
+export class SyncedPlayback {
+  private videos: HTMLVideoElement[] = [];
+  private playing = false;
+  private rate = 1;
+  private frame: number | null = null;
+  private listeners = new Set<StateListener>();
+
+  private handleMetadata = () => this.notify();
+
+  private handleEnded = () => {
+    if (this.videos.every((video) => video.ended || video.currentTime >= video.duration)) {
+      this.stopClock();
+      this.playing = false;
+      this.notify();
+    }
+  };
+
+  setVideos(videos: HTMLVideoElement[]) {
+    this.videos.forEach((video) => {
+      video.removeEventListener('loadedmetadata', this.handleMetadata);
+      video.removeEventListener('ended', this.handleEnded);
+    });
+    this.videos = videos;
+    this.videos.forEach((video) => {
+      video.playbackRate = this.rate;
+      video.addEventListener('loadedmetadata', this.handleMetadata);
+      video.addEventListener('ended', this.handleEnded);
+    });
+    this.pause();
+    this.seek(0);
+  }
+
+  async play(): Promise<void> {
+    const clock = this.clock();
+    if (!clock) return;
+
+    // Pressing play at the end starts over, like a single video would
+    if (clock.ended || clock.currentTime >= clock.duration) {
+      this.seek(0);
+    }
+
+    this.playing = true;
+    this.notify();
+    const time = clock.currentTime;
+    await Promise.all(
+      this.videos
+        .filter((video) => !Number.isFinite(video.duration) || time < video.duration)
+        .map((video) =>
+          video.play().catch((error) => {
+            console.error('[SyncedPlayback] Failed to start a video:', error);
+          })
+        )
+    );
+    this.startClock();
+  }
+
+  pause() {
+    this.stopClock();
+    this.videos.forEach((video) => video.pause());
+    this.playing = false;
+    this.notify();
+  }
+
+  // Videos shorter than `time` show their last frame
+  seek(time: number) {
+    this.videos.forEach((video) => {
+      const end = Number.isFinite(video.duration) ? video.duration : time;
+      video.currentTime = Math.min(time, end);
+    });
+    this.notify();
+  }
+
+  setRate(rate: number) {
+    this.rate = rate;
+    this.videos.forEach((video) => {
+      video.playbackRate = rate;
+    });
+    this.notify();
+  }
+
+  getState(): SyncedPlaybackState {
+    const clock = this.clock();
+    return {
+      playing: this.playing,
+      currentTime: clock?.currentTime ?? 0,
+      duration: clock && Number.isFinite(clock.duration) ? clock.duration : 0,
+      rate: this.rate,
+    };
+  }
+
+  subscribe(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  destroy() {
+    this.setVideos([]);
+    this.listeners.clear();
+  }
+
+  private clock(): HTMLVideoElement | null {
+    return this.videos.reduce<HTMLVideoElement | null>(
+      (longest, video) => (!longest || (video.duration || 0) > (longest.duration || 0) ? video : longest),
+      null
+    );
+  }
+
+  private startClock() {
+    this.stopClock();
+    const tick = () => {
+      this.correctDrift();
+      this.notify();
+      this.frame = requestAnimationFrame(tick);
+    };
+    this.frame = requestAnimationFrame(tick);
+  }
+
+  private stopClock() {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+  }
+
+  private correctDrift() {
+    const clock = this.clock();
+    if (!clock) return;
+
+    const time = clock.currentTime;
+    this.videos.forEach((video) => {
+      if (video === clock || time >= video.duration) return;
+      if (Math.abs(video.currentTime - time) > DRIFT_TOLERANCE_S) {
+        video.currentTime = time;
+      }
+      // A video that stalled to buffer is started again once the clock moves on
+      if (this.playing && video.paused && !video.ended) {
+        video.play().catch(() => {});
+      }
+    });
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
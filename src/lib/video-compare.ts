@@ -0,0 +1,94 @@
+import { VideoGeneration } from './supabase';
+import { formatCost } from './pricing';
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+// The compare view lives at ?compare=<id>,<id>,... so it can be shared
+const COMPARE_PARAM = 'compare';
+
+export function parseCompareIds(params: URLSearchParams): string[] {
+  const ids = (params.get(COMPARE_PARAM) ?? '').split(',').map((id) => id.trim()).filter(Boolean);
+  return [...new Set(ids)].slice(0, MAX_COMPARE);
+}
+
+// An empty list removes the parameter; other params are left alone
+export function writeCompareIds(ids: string[], params: URLSearchParams): URLSearchParams {
+  const next = new URLSearchParams(params);
+  if (ids.length > 0) {
+    next.set(COMPARE_PARAM, ids.join(','));
+  } else {
+    next.delete(COMPARE_PARAM);
+  }
+  return next;
+}
+
+export interface SettingDiff {
+  label: string;
+  values: string[];
+  // False when every video has the same value
+  differs: boolean;
+}
+
+const SETTINGS: { label: string; value: (generation: VideoGeneration) => string }[] = [
+  { label: 'Model', value: (g) => g.model },
+  { label: 'Resolution', value: (g) => g.resolution },
+  { label: 'Duration', value: (g) => `${g.duration}s` },
+  { label: 'Starting image', value: (g) => g.image_filename || (g.image_url ? 'Yes' : 'None') },
+  { label: 'Remix of', value: (g) => (g.parent_generation_id ? g.parent_generation_id.slice(0, 8) : '—') },
+  {
+    label: 'Cost',
+    value: (g) =>
+      g.cost !== null ? formatCost(g.cost) : g.estimated_cost !== null ? `~${formatCost(g.estimated_cost)}` : '—',
+  },
+  { label: 'Created', value: (g) => new Date(g.created_at).toLocaleString() },
+];
+
+export function diffSettings(generations: VideoGeneration[]): SettingDiff[] {
+  return SETTINGS.map(({ label, value }) => {
+    const values = generations.map(value);
+    return { label, values, differs: new Set(values).size > 1 };
+  });
+}
+
+export type WordChange = 'same' | 'added' | 'removed';
+
+export interface WordDiff {
+  text: string;
+  change: WordChange;
+}
+
+// Word-level diff of `other` against `base`, from their longest common
+// subsequence. Whitespace is kept with the word before it, so joining the
+// texts gives back the prompts.
+export function diffWords(base: string, other: string): WordDiff[] {
+  const a = base.match(/\S+\s*/g) ?? [];
+  const b = other.match(/\S+\s*/g) ?? [];
+  const same = (x: string, y: string) => x.trim().toLowerCase() === y.trim().toLowerCase();
+
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(a[i], b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const diff: WordDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(a[i], b[j])) {
+      diff.push({ text: b[j], change: 'same' });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      diff.push({ text: a[i++], change: 'removed' });
+    } else {
+      diff.push({ text: b[j++], change: 'added' });
+    }
+  }
+  a.slice(i).forEach((text) => diff.push({ text, change: 'removed' }));
+  b.slice(j).forEach((text) => diff.push({ text, change: 'added' }));
+  return diff;
+}
@@ -1,47 +1,214 @@
-import { supabase, VideoGeneration } from './supabase';
-import { SoraAPI, VideoGenerationRequest } from './sora-api';
+import {
+  Collection,
+  CreditAccount,
+  CreditTransaction,
+  Project,
+  PromptHistoryEntry,
+  PromptTemplate,
+  Sequence,
+  Storyboard,
+  StoryboardShot,
+  VideoGeneration,
+} from './supabase';
+import {
+  Resolution,
+  SoraAPI,
+  SoraAPIOptions,
+  VideoContentVariant,
+  VideoDuration,
+  VideoGenerationRequest,
+} from './sora-api';
+import { RequestScheduler, RequestSchedulerOptions } from './request-scheduler';
+import { SoraAPIError } from './sora-errors';
+import { DEFAULT_PRICING, PricingModel, SpendSummaryData, summarizeSpend } from './pricing';
+import {
+  normalizePreflightRules,
+  PreflightIssue,
+  PreflightRequest,
+  PreflightRules,
+  runPreflight,
+} from './prompt-preflight';
+import { normalizeTags } from './generation-tags';
+import { extractLastFrame, resizeImageToResolution } from './image-utils';
+import {
+  AuthProvider,
+  CollectionStore,
+  createPersistence,
+  CreditLedger,
+  GenerationListFilter,
+  GenerationPage,
+  GenerationPageRequest,
+  GenerationRepository,
+  GenerationSubscriptionHandlers,
+  Persistence,
+  ProjectStore,
+  PromptTemplateInput,
+  PromptTemplateStore,
+  SequenceInput,
+  SequenceStore,
+  StorageBackend,
+  StorageBucket,
+  StorageObjectRef,
+  StoryboardInput,
+  StoryboardStore,
+} from './persistence';
+
+export type { StorageBucket, StorageObjectRef } from './persistence';
+
+interface StoredVideoAssets {
+  videoUrl: string;
+  thumbnailUrl: string | null;
+  spritesheetUrl: string | null;
+}
+
+export interface VideoServiceOptions extends Omit<SoraAPIOptions, 'scheduler'> {
+  scheduler?: RequestSchedulerOptions;
+  // Defaults to the backend chosen by resolvePersistenceBackend()
+  persistence?: Persistence;
+  // Name of the API key profile in use, recorded on every generation
+  apiProfile?: string;
+}
+
+// The video frame a generation's starting image was taken from
+export interface FrameSource {
+  generationId: string;
+  // Seconds into the source video
+  timestamp: number;
+}
+
+export interface DeleteGenerationResult {
+  removedObjects: StorageObjectRef[];
+  failures: string[];
+}
+
+export interface PurgeOrphansResult {
+  removed: number;
+  failures: string[];
+}
+
+// Rendered sequences live in video_files next to the per-generation folders
+const SEQUENCES_FOLDER = 'sequences';
+
+const CONTENT_VARIANT_FILES: Record<VideoContentVariant, { suffix: string; contentType: string }> = {
+  video: { suffix: '.mp4', contentType: 'video/mp4' },
+  thumbnail: { suffix: '_thumbnail.webp', contentType: 'image/webp' },
+  spritesheet: { suffix: '_spritesheet.jpg', contentType: 'image/jpeg' },
+};
 
 export class VideoService {
   private soraAPI: SoraAPI;
+  private persistence: Persistence;
+  private pricing: Promise<PricingModel> | null = null;
+  private preflightRules: Promise<PreflightRules> | null = null;
+  private apiProfile: string | null;
+
+  constructor(apiKey: string, options: VideoServiceOptions = {}) {
+    const { scheduler, persistence, apiProfile, ...soraOptions } = options;
+    this.soraAPI = new SoraAPI(apiKey, {
+      ...soraOptions,
+      scheduler: new RequestScheduler(scheduler),
+    });
+    this.persistence = persistence || createPersistence();
+    this.apiProfile = apiProfile || null;
+  }
+
+  private get repository(): GenerationRepository {
+    return this.persistence.repository;
+  }
 
-  constructor(apiKey: string) {
-    this.soraAPI = new SoraAPI(apiKey);
+  private get storage(): StorageBackend {
+    return this.persistence.storage;
+  }
+
+  private get ledger(): CreditLedger | null {
+    return this.persistence.ledger;
+  }
+
+  private get templates(): PromptTemplateStore | null {
+    return this.persistence.templates;
+  }
+
+  private get projects(): ProjectStore | null {
+    return this.persistence.projects;
+  }
+
+  private get collections(): CollectionStore | null {
+    return this.persistence.collections;
+  }
+
+  private get storyboards(): StoryboardStore | null {
+    return this.persistence.storyboards;
+  }
+
+  private get sequences(): SequenceStore | null {
+    return this.persistence.sequences;
+  }
+
+  private get auth(): AuthProvider | null {
+    return this.persistence.auth;
+  }
+
+  // Null when the backend has no sign-in
+  private async currentUserId(): Promise<string | null> {
+    const user = this.auth ? await this.auth.getUser() : null;
+    return user?.id ?? null;
+  }
+
+  // OpenAI jobs live under the key, organization and project that created
+  // them, so jobs of other profiles can't be checked or deleted from here
+  private ownsJob(generation: VideoGeneration): boolean {
+    return (generation.api_profile ?? null) === this.apiProfile;
   }
 
   async createVideoGeneration(
     request: VideoGenerationRequest,
-    imageFile?: File
+    imageFile?: File,
+    projectId: string | null = null,
+    frameSource: FrameSource | null = null
   ): Promise<VideoGeneration> {
     let imageUrl: string | null = null;
+    let imagePath: string | null = null;
     let imageFilename: string | null = null;
 
     if (imageFile) {
       const uploadResult = await this.uploadImage(imageFile);
       imageUrl = uploadResult.url;
+      imagePath = uploadResult.path;
       imageFilename = imageFile.name;
     }
 
-    const dbRecord: Partial<VideoGeneration> = {
-      prompt: request.prompt,
-      model: request.model,
-      resolution: request.resolution,
-      duration: request.duration,
-      status: 'pending',
-      image_url: imageUrl,
-      image_filename: imageFilename,
-    };
-
-    const { data, error } = await supabase
-      .from('video_generations')
-      .insert(dbRecord)
-      .select()
-      .single();
+    let data: VideoGeneration;
+    try {
+      const dbRecord: Partial<VideoGeneration> = {
+        prompt: request.prompt,
+        model: request.model,
+        resolution: request.resolution,
+        duration: request.duration,
+        status: 'pending',
+        image_url: imageUrl,
+        image_filename: imageFilename,
+        user_id: await this.currentUserId(),
+        api_profile: this.apiProfile,
+        project_id: projectId,
+        source_generation_id: frameSource?.generationId ?? null,
+        source_timestamp: frameSource?.timestamp ?? null,
+        estimated_cost: (await this.getPricing()).estimate(request.model, request.resolution, request.duration),
+      };
 
-    if (error) {
-      throw new Error(`Failed to save video generation: ${error.message}`);
+      data = await this.repository.insert(dbRecord);
+    } catch (error) {
+      // Without a row nothing points at the image, so deleting can't find it later
+      if (imagePath) {
+        await this.storage
+          .remove('image_files', [imagePath])
+          .catch((removeError) => console.error('[VideoService] Failed to remove uploaded image:', removeError));
+      }
+      throw error;
     }
 
     try {
+      await this.reserveCredits(data);
+
       const videoRequest: VideoGenerationRequest = {
         ...request,
         imageUrl: imageUrl || undefined,
@@ -49,51 +216,82 @@ export class VideoService {
       };
       const response = await this.soraAPI.createVideo(videoRequest);
 
-      await supabase
-        .from('video_generations')
-        .update({
-          openai_job_id: response.id,
-          status: 'processing',
-          metadata: response,
+      return await this.repository.update(data.id, {
+        openai_job_id: response.id,
+        status: 'processing',
+        metadata: response,
+      });
+    } catch (error) {
+      await this.repository
+        .update(data.id, {
+          status: 'failed',
+          ...errorFields(error, 'Unknown error'),
         })
-        .eq('id', data.id);
+        .catch((updateError) => console.error('[VideoService] Failed to record failure:', updateError));
+      await this.refundCredits(data.id);
 
-      const { data: updatedData } = await supabase
-        .from('video_generations')
-        .select()
-        .eq('id', data.id)
-        .single();
+      throw error;
+    }
+  }
 
-      return updatedData!;
+  async createRemix(parent: VideoGeneration, prompt: string): Promise<VideoGeneration> {
+    if (parent.status !== 'completed' || !parent.openai_job_id) {
+      throw new Error('Only completed generations can be remixed');
+    }
+
+    const dbRecord: Partial<VideoGeneration> = {
+      prompt,
+      model: parent.model,
+      resolution: parent.resolution,
+      duration: parent.duration,
+      status: 'pending',
+      parent_generation_id: parent.id,
+      user_id: await this.currentUserId(),
+      api_profile: this.apiProfile,
+      // Remixes stay in the project of the video they came from
+      project_id: parent.project_id,
+      estimated_cost: (await this.getPricing()).estimate(parent.model, parent.resolution, parent.duration),
+    };
+
+    const data = await this.repository.insert(dbRecord);
+
+    try {
+      await this.reserveCredits(data);
+
+      console.log(`[VideoService] Remixing OpenAI job ${parent.openai_job_id} for generation ${data.id}`);
+      const response = await this.soraAPI.remixVideo(parent.openai_job_id, prompt);
+
+      return await this.repository.update(data.id, {
+        openai_job_id: response.id,
+        status: 'processing',
+        metadata: response,
+      });
     } catch (error) {
-      await supabase
-        .from('video_generations')
-        .update({
+      await this.repository
+        .update(data.id, {
           status: 'failed',
-          error_message: error instanceof Error ? error.message : 'Unknown error',
+          ...errorFields(error, 'Unknown error'),
         })
-        .eq('id', data.id);
+        .catch((updateError) => console.error('[VideoService] Failed to record failure:', updateError));
+      await this.refundCredits(data.id);
 
       throw error;
     }
   }
 
   async checkVideoStatus(generationId: string): Promise<VideoGeneration> {
-    const { data: generation, error } = await supabase
-      .from('video_generations')
-      .select()
-      .eq('id', generationId)
-      .single();
-
-    if (error) {
-      throw new Error(`Failed to fetch generation: ${error.message}`);
-    }
+    const generation = await this.repository.get(generationId);
 
     if (!generation.openai_job_id) {
       console.log(`[VideoService] No OpenAI job ID for generation ${generationId}`);
       return generation;
     }
 
+    if (!this.ownsJob(generation)) {
+      console.log(`[VideoService] Generation ${generationId} belongs to profile ${generation.api_profile}, not checking it`);
+      return generation;
+    }
+
     try {
       console.log(`[VideoService] Checking status for OpenAI job: ${generation.openai_job_id}`);
       const status = await this.soraAPI.getVideo(generation.openai_job_id);
@@ -113,25 +311,48 @@ export class VideoService {
       if (status.status === 'completed') {
         console.log(`[VideoService] Video completed, downloading from OpenAI...`);
 
+        // OpenAI bills the render once it completes, even if our download fails
+        // below. With a ledger, settling records the cost instead.
+        if (!this.ledger && generation.cost === null) {
+          const seconds = Number(status.seconds) || generation.duration;
+          updates.cost = (await this.getPricing()).estimate(generation.model, generation.resolution, seconds);
+        }
+
         if (generation.video_url) {
           console.log(`[VideoService] Video already downloaded and stored`);
           updates.status = 'completed';
+
+          // Backfill previews for videos stored before variants were downloaded
+          if (!generation.thumbnail_url || !generation.spritesheet_url) {
+            const previews = await this.downloadAndStorePreviews(generation.openai_job_id, generationId);
+            updates.thumbnail_url = generation.thumbnail_url || previews.thumbnailUrl;
+            updates.spritesheet_url = generation.spritesheet_url || previews.spritesheetUrl;
+          }
         } else {
           try {
-            const videoUrl = await this.downloadAndStoreVideo(generation.openai_job_id, generationId);
-            console.log(`[VideoService] Video stored at: ${videoUrl}`);
+            const assets = await this.downloadAndStoreVideo(generation.openai_job_id, generationId);
+            console.log(`[VideoService] Video stored at: ${assets.videoUrl}`);
             updates.status = 'completed';
-            updates.video_url = videoUrl;
+            updates.video_url = assets.videoUrl;
+            updates.thumbnail_url = assets.thumbnailUrl;
+            updates.spritesheet_url = assets.spritesheetUrl;
           } catch (downloadError) {
             console.error(`[VideoService] Failed to download video:`, downloadError);
             updates.status = 'failed';
-            updates.error_message = downloadError instanceof Error ? downloadError.message : 'Failed to download video';
+            Object.assign(updates, errorFields(downloadError, 'Failed to download video'));
           }
         }
       } else if (status.status === 'failed' || status.error) {
         console.log(`[VideoService] Video failed with error:`, status.error);
         updates.status = 'failed';
-        updates.error_message = status.error?.message || 'Video generation failed';
+        // Failed jobs aren't billed; with a ledger, the refund records that
+        if (!this.ledger) {
+          updates.cost = 0;
+        }
+        Object.assign(
+          updates,
+          errorFields(SoraAPIError.fromJobError(status.error, 'Video generation failed'), 'Video generation failed')
+        );
       } else if (status.status === 'processing' || status.status === 'queued' || status.status === 'in_progress') {
         console.log(`[VideoService] Video still processing (status: ${status.status})`);
         updates.status = 'processing';
@@ -141,23 +362,16 @@ export class VideoService {
 
       if (Object.keys(updates).length > 1) {
         console.log(`[VideoService] Updating database with:`, updates);
-        const { error: updateError } = await supabase
-          .from('video_generations')
-          .update(updates)
-          .eq('id', generationId);
-
-        if (updateError) {
+        try {
+          const updated = await this.repository.update(generationId, updates);
+          await this.closeCreditReservation(updated, status.status === 'completed');
+          return updated;
+        } catch (updateError) {
           console.error(`[VideoService] Failed to update database:`, updateError);
         }
       }
 
-      const { data: updatedData } = await supabase
-        .from('video_generations')
-        .select()
-        .eq('id', generationId)
-        .single();
-
-      return updatedData!;
+      return await this.repository.get(generationId);
     } catch (error) {
       console.error('[VideoService] Error checking video status:', error);
       if (error instanceof Error) {
@@ -170,85 +384,647 @@ export class VideoService {
     }
   }
 
-  private async downloadAndStoreVideo(videoId: string, generationId: string): Promise<string> {
-    console.log(`[VideoService] Downloading video ${videoId} from OpenAI...`);
+  // Holds the estimated cost against the user's balance until the job
+  // finishes. Skipped when there is no ledger, no signed-in account or no
+  // price for this model/resolution.
+  private async reserveCredits(generation: VideoGeneration): Promise<void> {
+    if (!this.ledger || generation.estimated_cost === null) {
+      return;
+    }
 
-    const blob = await this.soraAPI.downloadContent(videoId);
+    const account = await this.ledger.getAccount();
+    if (!account) {
+      return;
+    }
 
-    console.log(`[VideoService] Downloaded ${blob.size} bytes, uploading to Supabase Storage...`);
+    console.log(`[VideoService] Reserving ${generation.estimated_cost} credits for generation ${generation.id}`);
+    await this.ledger.reserve(generation.id);
+  }
 
-    const fileName = `${generationId}/${videoId}.mp4`;
-    const { error } = await supabase.storage
-      .from('video_files')
-      .upload(fileName, blob, {
-        contentType: 'video/mp4',
-        upsert: true,
-      });
+  // Jobs OpenAI bills for are settled, failed ones are refunded. The database
+  // allows the refund because the row is failed and can't complete any more;
+  // see the credit ledger migration. Both calls are idempotent.
+  private async closeCreditReservation(generation: VideoGeneration, billed: boolean): Promise<void> {
+    if (billed || generation.status === 'completed') {
+      try {
+        await this.ledger?.settle(generation.id);
+      } catch (error) {
+        console.error(`[VideoService] Failed to settle credits for ${generation.id}:`, error);
+      }
+    } else if (generation.status === 'failed') {
+      await this.refundCredits(generation.id);
+    }
+  }
 
-    if (error) {
-      throw new Error(`Failed to upload to Supabase Storage: ${error.message}`);
+  private async refundCredits(generationId: string): Promise<void> {
+    try {
+      await this.ledger?.refund(generationId);
+    } catch (error) {
+      console.error(`[VideoService] Failed to refund credits for ${generationId}:`, error);
     }
+  }
 
-    const { data: urlData } = supabase.storage
-      .from('video_files')
-      .getPublicUrl(fileName);
+  private async downloadAndStoreVideo(videoId: string, generationId: string): Promise<StoredVideoAssets> {
+    const videoUrl = await this.storeContentVariant(videoId, generationId, 'video');
+    const previews = await this.downloadAndStorePreviews(videoId, generationId);
 
-    console.log(`[VideoService] Video stored successfully at: ${urlData.publicUrl}`);
-    return urlData.publicUrl;
+    return { videoUrl, ...previews };
   }
 
-  private async uploadImage(file: File): Promise<{ url: string }> {
+  // Thumbnails and spritesheets are nice-to-have, so a failure here is logged
+  // rather than failing a generation whose video downloaded fine.
+  private async downloadAndStorePreviews(
+    videoId: string,
+    generationId: string
+  ): Promise<Omit<StoredVideoAssets, 'videoUrl'>> {
+    const [thumbnailUrl, spritesheetUrl] = await Promise.all(
+      (['thumbnail', 'spritesheet'] as const).map(async (variant) => {
+        try {
+          return await this.storeContentVariant(videoId, generationId, variant);
+        } catch (error) {
+          console.warn(`[VideoService] Failed to store ${variant} for video ${videoId}:`, error);
+          return null;
+        }
+      })
+    );
+
+    return { thumbnailUrl, spritesheetUrl };
+  }
+
+  private async storeContentVariant(
+    videoId: string,
+    generationId: string,
+    variant: VideoContentVariant
+  ): Promise<string> {
+    console.log(`[VideoService] Downloading ${variant} for video ${videoId} from OpenAI...`);
+
+    const blob = await this.soraAPI.downloadContent(videoId, variant);
+
+    console.log(`[VideoService] Downloaded ${blob.size} bytes, uploading to ${this.storage.backend} storage...`);
+
+    const { suffix, contentType } = CONTENT_VARIANT_FILES[variant];
+    const fileName = `${generationId}/${videoId}${suffix}`;
+    const url = await this.storage.upload('video_files', fileName, blob, {
+      contentType,
+      upsert: true,
+    });
+
+    console.log(`[VideoService] ${variant} stored successfully at: ${url}`);
+    return url;
+  }
+
+  private async uploadImage(file: File): Promise<{ url: string; path: string }> {
     console.log(`[VideoService] Uploading image: ${file.name}`);
 
     const fileExt = file.name.split('.').pop();
     const fileName = `${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
     const filePath = `uploads/${fileName}`;
 
-    const { error } = await supabase.storage
-      .from('image_files')
-      .upload(filePath, file, {
+    let url: string;
+    try {
+      url = await this.storage.upload('image_files', filePath, file, {
         contentType: file.type,
         upsert: false,
       });
+    } catch (error) {
+      throw new Error(`Failed to upload image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    console.log(`[VideoService] Image uploaded successfully at: ${url}`);
+    return { url, path: filePath };
+  }
+
+  async listVideoGenerations(
+    limit: number = 50,
+    filter: Omit<GenerationListFilter, 'userId'> = {}
+  ): Promise<VideoGeneration[]> {
+    const userId = await this.currentUserId();
+    return this.repository.list(limit, { ...filter, userId: userId ?? undefined });
+  }
+
+  async listVideoGenerationPage(
+    request: GenerationPageRequest & { filter?: Omit<GenerationListFilter, 'userId'> }
+  ): Promise<GenerationPage> {
+    const userId = await this.currentUserId();
+    return this.repository.listPage({ ...request, filter: { ...request.filter, userId: userId ?? undefined } });
+  }
+
+  // Only the active profile's jobs; the rest are checked once their profile is in use
+  async listUnfinishedGenerations(): Promise<VideoGeneration[]> {
+    const unfinished = await this.repository.listUnfinished();
+    return unfinished.filter((generation) => this.ownsJob(generation));
+  }
+
+  subscribeToGenerations(handlers: GenerationSubscriptionHandlers): () => void {
+    return this.repository.subscribe(handlers);
+  }
+
+  // Loaded once per service; falls back to the built-in price list if the
+  // pricing table is missing or empty so estimates still show up
+  getPricing(): Promise<PricingModel> {
+    if (!this.pricing) {
+      this.pricing = this.repository
+        .getPricing()
+        .then((entries) => {
+          if (entries.length === 0) {
+            console.warn('[VideoService] pricing_config is empty, using default prices');
+            return new PricingModel(DEFAULT_PRICING);
+          }
+          return new PricingModel(entries);
+        })
+        .catch((error) => {
+          console.warn('[VideoService] Failed to load pricing, using default prices:', error);
+          return new PricingModel(DEFAULT_PRICING);
+        });
+    }
+    return this.pricing;
+  }
+
+  // Cached like pricing; falls back to the defaults when the rules can't be read
+  getPreflightRules(): Promise<PreflightRules> {
+    if (!this.preflightRules) {
+      this.preflightRules = this.persistence.preflight
+        .load()
+        .then(normalizePreflightRules)
+        .catch((error) => {
+          console.warn('[VideoService] Failed to load preflight rules, using defaults:', error);
+          return normalizePreflightRules(null);
+        });
+    }
+    return this.preflightRules;
+  }
+
+  async savePreflightRules(rules: PreflightRules): Promise<PreflightRules> {
+    const normalized = normalizePreflightRules(rules);
+    await this.persistence.preflight.save(normalized);
+    this.preflightRules = Promise.resolve(normalized);
+    return normalized;
+  }
+
+  async canEditPreflightRules(): Promise<boolean> {
+    try {
+      return await this.persistence.preflight.canEdit();
+    } catch (error) {
+      console.warn('[VideoService] Failed to check preflight rule permissions:', error);
+      return false;
+    }
+  }
+
+  // Local checks run before a prompt is submitted; see prompt-preflight.ts
+  async preflightPrompt(request: PreflightRequest): Promise<PreflightIssue[]> {
+    return runPreflight(request, await this.getPreflightRules());
+  }
+
+  async getSpendSummary(days: number): Promise<SpendSummaryData> {
+    const now = new Date();
+    const since = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1));
+    const [generations, pricing] = await Promise.all([
+      this.repository.listCreatedSince(since),
+      this.getPricing(),
+    ]);
+    return summarizeSpend(generations, pricing, days, now);
+  }
+
+  // Null when the backend has no ledger or nobody with an account is signed in
+  async getCreditAccount(): Promise<CreditAccount | null> {
+    return this.ledger ? this.ledger.getAccount() : null;
+  }
+
+  async listCreditTransactions(limit: number = 20): Promise<CreditTransaction[]> {
+    return this.ledger ? this.ledger.listTransactions(limit) : [];
+  }
+
+  async listPromptHistory(limit: number = 500): Promise<PromptHistoryEntry[]> {
+    return this.repository.listPromptHistory(limit);
+  }
+
+  async setPromptFavorite(prompt: string, favorite: boolean): Promise<void> {
+    await this.repository.setPromptFavorite(prompt, favorite);
+  }
+
+  // False when the backend has nowhere to keep templates
+  supportsPromptTemplates(): boolean {
+    return this.templates !== null;
+  }
+
+  async listPromptTemplates(): Promise<PromptTemplate[]> {
+    return this.templates ? this.templates.list() : [];
+  }
+
+  async savePromptTemplate(template: PromptTemplateInput): Promise<PromptTemplate> {
+    if (!this.templates) {
+      throw new Error('Prompt templates need the Supabase backend');
+    }
+    return this.templates.save({ ...template, name: template.name.trim() });
+  }
+
+  async deletePromptTemplate(id: string): Promise<void> {
+    if (!this.templates) {
+      throw new Error('Prompt templates need the Supabase backend');
+    }
+    await this.templates.delete(id);
+  }
+
+  // False when the backend has nowhere to keep projects
+  supportsProjects(): boolean {
+    return this.projects !== null;
+  }
+
+  async listProjects(): Promise<Project[]> {
+    return this.projects ? this.projects.list() : [];
+  }
+
+  async createProject(name: string): Promise<Project> {
+    if (!this.projects) {
+      throw new Error('Projects need the Supabase backend');
+    }
+    return this.projects.create(name.trim());
+  }
+
+  async renameProject(id: string, name: string): Promise<Project> {
+    if (!this.projects) {
+      throw new Error('Projects need the Supabase backend');
+    }
+    return this.projects.rename(id, name.trim());
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    if (!this.projects) {
+      throw new Error('Projects need the Supabase backend');
+    }
+    await this.projects.delete(id);
+  }
+
+  async setGenerationProject(generationId: string, projectId: string | null): Promise<VideoGeneration> {
+    return this.repository.update(generationId, { project_id: projectId });
+  }
+
+  // Tags live on the row, so they work with every backend
+  async setGenerationTags(generationId: string, tags: string[]): Promise<VideoGeneration> {
+    return this.repository.update(generationId, { tags: normalizeTags(tags) });
+  }
+
+  // False when the backend has nowhere to keep collections
+  supportsCollections(): boolean {
+    return this.collections !== null;
+  }
+
+  async listCollections(): Promise<Collection[]> {
+    return this.collections ? this.collections.list() : [];
+  }
+
+  async createCollection(name: string): Promise<Collection> {
+    if (!this.collections) {
+      throw new Error('Collections need the Supabase backend');
+    }
+    return this.collections.create(name.trim());
+  }
+
+  async renameCollection(collection: Collection, name: string): Promise<Collection> {
+    if (!this.collections) {
+      throw new Error('Collections need the Supabase backend');
+    }
+    await this.collections.rename(collection.id, name.trim());
+    return { ...collection, name: name.trim() };
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    if (!this.collections) {
+      throw new Error('Collections need the Supabase backend');
+    }
+    await this.collections.delete(id);
+  }
+
+  // Saves `generationIds` as the collection's contents, in that order; adding,
+  // removing and reordering all go through here
+  async setCollectionItems(collection: Collection, generationIds: string[]): Promise<Collection> {
+    if (!this.collections) {
+      throw new Error('Collections need the Supabase backend');
+    }
+    const ids = [...new Set(generationIds)];
+    await this.collections.setItems(collection.id, ids);
+    return { ...collection, generation_ids: ids };
+  }
+
+  // The collection's generations in collection order
+  async listCollectionGenerations(collection: Collection): Promise<VideoGeneration[]> {
+    if (collection.generation_ids.length === 0) {
+      return [];
+    }
+    const { generations } = await this.listVideoGenerationPage({
+      filter: { ids: collection.generation_ids },
+      offset: 0,
+      limit: collection.generation_ids.length,
+    });
+    const byId = new Map(generations.map((g) => [g.id, g]));
+    return collection.generation_ids.flatMap((id) => byId.get(id) ?? []);
+  }
+
+  // False when the backend has nowhere to keep storyboards
+  supportsStoryboards(): boolean {
+    return this.storyboards !== null;
+  }
+
+  async listStoryboards(): Promise<Storyboard[]> {
+    return this.storyboards ? this.storyboards.list() : [];
+  }
+
+  async createStoryboard(storyboard: StoryboardInput): Promise<Storyboard> {
+    if (!this.storyboards) {
+      throw new Error('Storyboards need the Supabase backend');
+    }
+    if (storyboard.shots.length === 0) {
+      throw new Error('A storyboard needs at least one shot');
+    }
+    return this.storyboards.create({ ...storyboard, name: storyboard.name.trim() });
+  }
+
+  async updateStoryboard(existing: Storyboard, storyboard: StoryboardInput): Promise<Storyboard> {
+    if (!this.storyboards) {
+      throw new Error('Storyboards need the Supabase backend');
+    }
+    if (existing.shots.some((shot) => shot.submitted_at)) {
+      throw new Error('A storyboard can only be edited before its first shot is submitted');
+    }
+    if (storyboard.shots.length === 0) {
+      throw new Error('A storyboard needs at least one shot');
+    }
+    return this.storyboards.update(existing.id, { ...storyboard, name: storyboard.name.trim() });
+  }
+
+  async deleteStoryboard(id: string): Promise<void> {
+    if (!this.storyboards) {
+      throw new Error('Storyboards need the Supabase backend');
+    }
+    await this.storyboards.delete(id);
+  }
+
+  // Submits one shot of a storyboard. Every shot after the first starts from
+  // the last frame of `previous`, fitted to the storyboard's resolution, so
+  // the shots continue from one another. Resolves to null when another tab
+  // claimed the shot first.
+  async submitStoryboardShot(
+    storyboard: Storyboard,
+    shot: StoryboardShot,
+    previous: VideoGeneration | null
+  ): Promise<VideoGeneration | null> {
+    if (!this.storyboards) {
+      throw new Error('Storyboards need the Supabase backend');
+    }
+    if (shot.position > 0 && (previous?.status !== 'completed' || !previous.video_url)) {
+      throw new Error('The previous shot has not finished yet');
+    }
+    if (!(await this.storyboards.claimShot(shot.id))) {
+      return null;
+    }
+
+    let generation: VideoGeneration;
+    try {
+      let imageFile: File | undefined;
+      let frameSource: FrameSource | null = null;
+      if (previous?.video_url) {
+        console.log(`[VideoService] Taking the last frame of ${previous.id} for storyboard shot ${shot.position + 1}`);
+        const frame = await extractLastFrame(previous.video_url, `${previous.id}-last-frame.jpg`);
+        imageFile = (await resizeImageToResolution(frame.file, storyboard.resolution as Resolution)).file;
+        frameSource = { generationId: previous.id, timestamp: frame.timestamp };
+      }
+
+      generation = await this.createVideoGeneration(
+        {
+          prompt: shot.prompt,
+          model: storyboard.model,
+          resolution: storyboard.resolution as Resolution,
+          duration: shot.duration as VideoDuration,
+        },
+        imageFile,
+        storyboard.project_id,
+        frameSource
+      );
+    } catch (error) {
+      // Give the claim back so the shot can be retried
+      await this.storyboards
+        .resetShot(shot.id)
+        .catch((resetError) => console.error('[VideoService] Failed to release storyboard shot:', resetError));
+      throw error;
+    }
+
+    await this.storyboards.setShotGeneration(shot.id, generation.id);
+    return generation;
+  }
+
+  async resetStoryboardShot(shot: StoryboardShot): Promise<void> {
+    if (!this.storyboards) {
+      throw new Error('Storyboards need the Supabase backend');
+    }
+    await this.storyboards.resetShot(shot.id);
+  }
+
+  // False when the backend has nowhere to keep sequences; they can still be
+  // rendered and downloaded
+  supportsSequences(): boolean {
+    return this.sequences !== null;
+  }
+
+  async listSequences(): Promise<Sequence[]> {
+    return this.sequences ? this.sequences.list() : [];
+  }
+
+  // Uploads a rendered sequence to video_files and records the clips it was
+  // cut from. The file is removed again if the row can't be saved.
+  async saveSequence(
+    file: Blob,
+    sequence: Omit<SequenceInput, 'video_url' | 'content_type'>
+  ): Promise<Sequence> {
+    if (!this.sequences) {
+      throw new Error('Saving sequences needs the Supabase backend');
+    }
+
+    // Recorders report codecs too (video/webm;codecs=vp9), which storage rejects
+    const contentType = file.type.split(';')[0] || 'video/webm';
+    const path = `${SEQUENCES_FOLDER}/${crypto.randomUUID()}${contentType === 'video/mp4' ? '.mp4' : '.webm'}`;
+    console.log(`[VideoService] Uploading ${file.size} byte sequence to ${path}`);
+    const videoUrl = await this.storage.upload('video_files', path, file, { contentType, upsert: false });
+
+    try {
+      return await this.sequences.create({
+        ...sequence,
+        name: sequence.name.trim(),
+        video_url: videoUrl,
+        content_type: contentType,
+      });
+    } catch (error) {
+      await this.storage
+        .remove('video_files', [path])
+        .catch((removeError) => console.error('[VideoService] Failed to remove sequence file:', removeError));
+      throw error;
+    }
+  }
+
+  async deleteSequence(sequence: Sequence): Promise<void> {
+    if (!this.sequences) {
+      throw new Error('Saving sequences needs the Supabase backend');
+    }
+
+    const path = this.storage.pathFromUrl(sequence.video_url, 'video_files');
+    if (path) {
+      try {
+        await this.storage.remove('video_files', [path]);
+      } catch (error) {
+        // Left for the orphan cleanup on the Test page
+        console.warn(`[VideoService] Failed to remove sequence file ${path}:`, error);
+      }
+    }
+    await this.sequences.delete(sequence.id);
+  }
+
+  // Removes the row together with everything it owns: stored video variants,
+  // the uploaded reference image and the job on OpenAI's side. Cleanup errors
+  // don't stop the row from being deleted; they are returned so the caller can
+  // tell the user what was left behind.
+  async deleteVideoGeneration(generationId: string): Promise<DeleteGenerationResult> {
+    const generation = await this.repository.get(generationId);
+
+    const failures: string[] = [];
+    const objects: StorageObjectRef[] = [];
 
-    if (error) {
-      throw new Error(`Failed to upload image: ${error.message}`);
+    try {
+      const videoPaths = await this.listAllStoragePaths('video_files', generationId);
+      objects.push(...videoPaths.map((path) => ({ bucket: 'video_files' as const, path })));
+    } catch (error) {
+      failures.push(`Could not list stored video files: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
 
-    const { data: urlData } = supabase.storage
-      .from('image_files')
-      .getPublicUrl(filePath);
+    const imagePath = generation.image_url
+      ? this.storage.pathFromUrl(generation.image_url, 'image_files')
+      : null;
+    if (imagePath) {
+      objects.push({ bucket: 'image_files', path: imagePath });
+    }
+
+    const removal = await this.removeStorageObjects(objects);
+    failures.push(...removal.failures);
 
-    console.log(`[VideoService] Image uploaded successfully at: ${urlData.publicUrl}`);
-    return { url: urlData.publicUrl };
+    // The row's reservation would otherwise stay open forever. Failed and
+    // never-submitted jobs are refunded; any other job OpenAI has may be
+    // billed, so it is settled at its price.
+    if (this.ledger) {
+      const refund = generation.status === 'failed' || !generation.openai_job_id;
+      try {
+        await (refund ? this.ledger.refund(generationId) : this.ledger.settle(generationId));
+      } catch (error) {
+        failures.push(
+          `Could not ${refund ? 'refund' : 'settle'} reserved credits: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    if (generation.openai_job_id && !this.ownsJob(generation)) {
+      failures.push('The OpenAI job was left in place because another API key profile created it');
+    } else if (generation.openai_job_id) {
+      try {
+        console.log(`[VideoService] Deleting OpenAI job ${generation.openai_job_id}`);
+        await this.soraAPI.deleteVideo(generation.openai_job_id);
+      } catch (error) {
+        failures.push(`Could not delete the OpenAI job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    await this.repository.delete(generationId);
+
+    if (failures.length > 0) {
+      console.warn(`[VideoService] Generation ${generationId} deleted with cleanup failures:`, failures);
+    }
+
+    return { removedObjects: removal.removed, failures };
   }
 
-  async listVideoGenerations(limit: number = 50): Promise<VideoGeneration[]> {
-    const { data, error } = await supabase
-      .from('video_generations')
-      .select()
-      .order('created_at', { ascending: false })
-      .limit(limit);
+  // Finds stored files that no generation row points at any more, e.g. from
+  // deletions made before storage cleanup existed. On Supabase only files the
+  // signed-in user uploaded are candidates.
+  async findOrphanedStorageObjects(): Promise<StorageObjectRef[]> {
+    const orphans = await this.repository.listOrphanedStorageObjects();
+    console.log(`[VideoService] Found ${orphans.length} orphaned storage objects`);
+    return orphans;
+  }
 
-    if (error) {
-      throw new Error(`Failed to list video generations: ${error.message}`);
+  // Only removes what a fresh scan still reports, so a file that got a row
+  // since the list was shown is kept. If the scan fails nothing is removed.
+  async purgeOrphanedStorageObjects(objects: StorageObjectRef[]): Promise<PurgeOrphansResult> {
+    const confirmed = new Set(
+      (await this.findOrphanedStorageObjects()).map((orphan) => `${orphan.bucket}/${orphan.path}`)
+    );
+    const stillOrphaned = objects.filter((object) => confirmed.has(`${object.bucket}/${object.path}`));
+    if (stillOrphaned.length < objects.length) {
+      console.log(`[VideoService] Keeping ${objects.length - stillOrphaned.length} object(s) that are referenced again`);
     }
 
-    return data || [];
+    const { removed, failures } = await this.removeStorageObjects(stillOrphaned);
+    return { removed: removed.length, failures };
   }
 
-  async deleteVideoGeneration(generationId: string): Promise<void> {
-    const { error } = await supabase
-      .from('video_generations')
-      .delete()
-      .eq('id', generationId);
+  private async removeStorageObjects(
+    objects: StorageObjectRef[]
+  ): Promise<{ removed: StorageObjectRef[]; failures: string[] }> {
+    const removed: StorageObjectRef[] = [];
+    const failures: string[] = [];
+    const buckets: StorageBucket[] = ['video_files', 'image_files'];
 
-    if (error) {
-      throw new Error(`Failed to delete video generation: ${error.message}`);
+    for (const bucket of buckets) {
+      const paths = objects.filter((o) => o.bucket === bucket).map((o) => o.path);
+      if (paths.length === 0) continue;
+
+      try {
+        await this.storage.remove(bucket, paths);
+        console.log(`[VideoService] Removed ${paths.length} file(s) from ${bucket}`);
+        removed.push(...paths.map((path) => ({ bucket, path })));
+      } catch (error) {
+        failures.push(
+          `Could not remove ${paths.length} file(s) from ${bucket}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
     }
+
+    return { removed, failures };
+  }
+
+  private async listAllStoragePaths(bucket: StorageBucket, prefix: string): Promise<string[]> {
+    const entries = await this.storage.list(bucket, prefix);
+    return entries.filter((entry) => !entry.isFolder).map((entry) => `${prefix}/${entry.name}`);
+  }
+
+  getApiProfile(): string | null {
+    return this.apiProfile;
+  }
+
+  getPersistence(): Persistence {
+    return this.persistence;
   }
 
   getSoraAPI(): SoraAPI {
     return this.soraAPI;
   }
+
+  getScheduler(): RequestScheduler {
+    return this.soraAPI.getScheduler();
+  }
+}
+
+// Row fields describing a failure; structured details are only known for SoraAPIError
+function errorFields(error: unknown, fallbackMessage: string): Partial<VideoGeneration> {
+  if (error instanceof SoraAPIError) {
+    return {
+      error_message: error.message,
+      error_status: error.status,
+      error_type: error.type,
+      error_code: error.code,
+      error_category: error.category,
+      error_retryable: error.retryable,
+      error_request_id: error.requestId,
+    };
+  }
+
+  return {
+    error_message: error instanceof Error ? error.message : fallbackMessage,
+    error_category: 'unknown',
+  };
 }
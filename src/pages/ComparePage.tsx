@@ -0,0 +1,309 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { ArrowLeft, Columns, Link, LogOut, Pause, Play, X } from 'lucide-react';
+import { VideoService } from '../lib/video-service';
+import { VideoGeneration } from '../lib/supabase';
+import { PLAYBACK_RATES, SyncedPlayback, SyncedPlaybackState } from '../lib/synced-playback';
+import { diffSettings, diffWords, MIN_COMPARE, parseCompareIds, writeCompareIds } from '../lib/video-compare';
+
+interface ComparePageProps {
+  videoService: VideoService;
+  onNavigate: (page: 'generator' | 'test' | 'compare' | 'sequence') => void;
+  onLogout: () => void;
+}
+
+const LABELS = ['A', 'B', 'C', 'D'];
+
+function formatTime(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}.${Math.floor((seconds % 1) * 10)}`;
+}
+
+function replaceCompareIds(ids: string[]) {
+  const url = new URL(window.location.href);
+  url.search = writeCompareIds(ids, url.searchParams).toString();
+  window.history.replaceState(window.history.state, '', url);
+}
+
+export function ComparePage({ videoService, onNavigate, onLogout }: ComparePageProps) {
+  const [ids, setIds] = useState(() => parseCompareIds(new URLSearchParams(window.location.search)));
+  // null while loading
+  const [generations, setGenerations] = useState<VideoGeneration[] | null>(null);
+  const [copied, setCopied] = useState(false);
+  const videoRefs = useRef<(HTMLVideoElement | null)[]>([]);
+  const playback = useMemo(() => new SyncedPlayback(), []);
+  const [playbackState, setPlaybackState] = useState<SyncedPlaybackState>(playback.getState());
+
+  useEffect(() => {
+    replaceCompareIds(ids);
+  }, [ids]);
+
+  const idsKey = ids.join(',');
+  useEffect(() => {
+    let cancelled = false;
+    const requested = idsKey ? idsKey.split(',') : [];
+    if (requested.length === 0) {
+      setGenerations([]);
+      return;
+    }
+
+    videoService
+      .listVideoGenerationPage({ filter: { ids: requested }, offset: 0, limit: requested.length })
+      .then(({ generations: rows }) => {
+        if (cancelled) return;
+        const byId = new Map(rows.map((g) => [g.id, g]));
+        setGenerations(requested.flatMap((id) => byId.get(id) ?? []));
+      })
+      .catch((error) => {
+        console.error('[ComparePage] Failed to load generations:', error);
+        if (!cancelled) setGenerations([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [videoService, idsKey]);
+
+  const playable = (generations ?? []).filter((g) => g.status === 'completed' && g.video_url);
+  const playableKey = playable.map((g) => g.id).join(',');
+
+  useEffect(() => {
+    const unsubscribe = playback.subscribe(setPlaybackState);
+    return () => {
+      unsubscribe();
+      playback.destroy();
+    };
+  }, [playback]);
+
+  // Regroup whenever the set of videos on screen changes
+  useEffect(() => {
+    const count = playableKey ? playableKey.split(',').length : 0;
+    playback.setVideos(
+      videoRefs.current.slice(0, count).filter((video): video is HTMLVideoElement => video !== null)
+    );
+  }, [playback, playableKey]);
+
+  const settings = useMemo(() => diffSettings(generations ?? []), [generations]);
+  const missing = generations ? ids.length - generations.length : 0;
+
+  const handleRemove = (id: string) => {
+    setIds((prev) => prev.filter((other) => other !== id));
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('[ComparePage] Failed to copy link:', error);
+    }
+  };
+
+  const handleBack = () => {
+    replaceCompareIds([]);
+    onNavigate('generator');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50">
+      <nav className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={handleBack}
+              className="flex items-center gap-2 text-gray-700 hover:text-gray-900 transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              Back to Generator
+            </button>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleCopyLink}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                title="Copy a link to this comparison"
+              >
+                <Link className="w-4 h-4" />
+                {copied ? 'Copied!' : 'Copy link'}
+              </button>
+              <button
+                onClick={() => {
+                  replaceCompareIds([]);
+                  onLogout();
+                }}
+                className="flex items-center gap-2 px-4 py-2 bg-red-50 hover:bg-red-100 text-red-600 rounded-lg transition-colors"
+              >
+                <LogOut className="w-4 h-4" />
+                Logout
+              </button>
+            </div>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto px-6 py-8">
+        <div className="mb-6 flex items-center gap-3">
+          <Columns className="w-6 h-6 text-gray-700" />
+          <h1 className="text-xl font-semibold text-gray-800">Compare</h1>
+          {missing > 0 && (
+            <span className="text-sm text-amber-700">
+              {missing} of the linked videos {missing === 1 ? 'was' : 'were'} not found or deleted
+            </span>
+          )}
+        </div>
+
+        {generations === null ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="text-gray-600 mt-4">Loading videos...</p>
+          </div>
+        ) : generations.length < MIN_COMPARE ? (
+          <div className="bg-white rounded-xl shadow-lg p-12 text-center">
+            <Columns className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-700 mb-2">Nothing to compare</h3>
+            <p className="text-gray-500">Select two to four videos in the history and press Compare.</p>
+          </div>
+        ) : (
+          <>
+            <div className={`grid gap-4 grid-cols-1 md:grid-cols-2 ${generations.length === 3 ? 'xl:grid-cols-3' : ''}`}>
+              {generations.map((generation, index) => {
+                const slot = playable.indexOf(generation);
+                return (
+                  <div key={generation.id} className="bg-white rounded-xl shadow-lg overflow-hidden border border-gray-200">
+                    {slot >= 0 ? (
+                      <video
+                        ref={(element) => {
+                          videoRefs.current[slot] = element;
+                        }}
+                        src={generation.video_url ?? undefined}
+                        poster={generation.thumbnail_url || undefined}
+                        playsInline
+                        muted={slot > 0}
+                        preload="auto"
+                        className="w-full aspect-video bg-black"
+                      />
+                    ) : (
+                      <div className="w-full aspect-video bg-gray-100 flex items-center justify-center text-sm text-gray-500">
+                        {generation.status === 'failed' ? 'Generation failed' : 'Not finished yet'}
+                      </div>
+                    )}
+                    <div className="px-4 py-3 flex items-center gap-3">
+                      <span className="w-7 h-7 rounded-full bg-blue-600 text-white text-sm font-semibold flex items-center justify-center">
+                        {LABELS[index]}
+                      </span>
+                      <span className="flex-1 text-sm text-gray-600">
+                        {generation.model} · {generation.resolution} · {generation.duration}s
+                      </span>
+                      <button
+                        onClick={() => handleRemove(generation.id)}
+                        className="p-1 text-gray-400 hover:text-gray-600 rounded"
+                        title="Remove from comparison"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {playable.length > 0 && (
+              <div className="mt-4 bg-white rounded-xl shadow p-4 flex items-center gap-4">
+                <button
+                  onClick={() => (playbackState.playing ? playback.pause() : playback.play())}
+                  className="w-10 h-10 rounded-full bg-blue-600 hover:bg-blue-700 text-white flex items-center justify-center transition-colors"
+                  title={playbackState.playing ? 'Pause all' : 'Play all'}
+                >
+                  {playbackState.playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+                </button>
+                <input
+                  type="range"
+                  min={0}
+                  max={playbackState.duration || 0}
+                  step={0.01}
+                  value={playbackState.currentTime}
+                  onChange={(e) => playback.seek(Number(e.target.value))}
+                  className="flex-1"
+                />
+                <span className="text-sm text-gray-600 font-mono w-28 text-right">
+                  {formatTime(playbackState.currentTime)} / {formatTime(playbackState.duration)}
+                </span>
+                <select
+                  value={playbackState.rate}
+                  onChange={(e) => playback.setRate(Number(e.target.value))}
+                  className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg bg-white"
+                  title="Playback speed"
+                >
+                  {PLAYBACK_RATES.map((rate) => (
+                    <option key={rate} value={rate}>
+                      {rate}×
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {playable.length > 1 && (
+              <p className="mt-2 text-xs text-gray-500">
+                Only video {LABELS[0]} plays sound. Shorter videos hold their last frame until the longest one ends.
+              </p>
+            )}
+
+            <div className="mt-8 bg-white rounded-xl shadow-lg overflow-hidden">
+              <h2 className="px-6 py-4 text-lg font-semibold text-gray-800 border-b border-gray-200">Differences</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="px-6 py-2 font-medium w-40"></th>
+                    {generations.map((generation, index) => (
+                      <th key={generation.id} className="px-4 py-2 font-medium">
+                        {LABELS[index]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {settings.map((setting) => (
+                    <tr key={setting.label} className={setting.differs ? 'bg-amber-50' : ''}>
+                      <td className="px-6 py-2 text-gray-600">{setting.label}</td>
+                      {setting.values.map((value, index) => (
+                        <td
+                          key={index}
+                          className={`px-4 py-2 ${setting.differs ? 'font-medium text-gray-900' : 'text-gray-500'}`}
+                        >
+                          {value}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr className="align-top">
+                    <td className="px-6 py-3 text-gray-600">
+                      Prompt
+                      <p className="text-xs text-gray-400 mt-1">Changes against {LABELS[0]}</p>
+                    </td>
+                    {generations.map((generation, index) => (
+                      <td key={generation.id} className="px-4 py-3 text-gray-800 leading-relaxed">
+                        {index === 0
+                          ? generation.prompt
+                          : diffWords(generations[0].prompt, generation.prompt).map((word, position) =>
+                              word.change === 'same' ? (
+                                <span key={position}>{word.text}</span>
+                              ) : word.change === 'added' ? (
+                                <span key={position} className="bg-green-100 text-green-800">
+                                  {word.text}
+                                </span>
+                              ) : (
+                                <span key={position} className="bg-red-100 text-red-700 line-through">
+                                  {word.text}
+                                </span>
+                              )
+                            )}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,131 +1,428 @@
-import { useState, useEffect, useRef } from 'react';
-import { Video, History, TestTube, RefreshCw, LogOut } from 'lucide-react';
-import { VideoService } from '../lib/video-service';
-import { VideoGeneration } from '../lib/supabase';
-import { VideoGenerationForm } from '../components/VideoGenerationForm';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  Video,
+  History,
+  TestTube,
+  RefreshCw,
+  LogOut,
+  Layers,
+  WifiOff,
+  BarChart3,
+  ShieldCheck,
+  Library,
+  Columns,
+  X,
+  Clapperboard,
+  Film,
+} from 'lucide-react';
+import { FrameSource, VideoService } from '../lib/video-service';
+import {
+  Collection,
+  Project,
+  PromptHistoryEntry,
+  PromptTemplate,
+  Storyboard,
+  StoryboardShot,
+  VideoGeneration,
+} from '../lib/supabase';
+import { ReferenceFrame, VideoGenerationForm } from '../components/VideoGenerationForm';
+import { BatchGenerationForm, BatchJob } from '../components/BatchGenerationForm';
 import { VideoPlayer } from '../components/VideoPlayer';
 import { Toast, ToastType } from '../components/Toast';
+import { RequestQueueStatus } from '../components/RequestQueueStatus';
+import { SpendSummary } from '../components/SpendSummary';
+import { CreditBalance } from '../components/CreditBalance';
+import { ApiProfileSwitcher } from '../components/ApiProfileSwitcher';
+import { PreflightRulesEditor } from '../components/PreflightRulesEditor';
+import { HistoryFilters } from '../components/HistoryFilters';
+import { CollectionsDrawer } from '../components/CollectionsDrawer';
+import { StoryboardForm } from '../components/StoryboardForm';
 import { SoraModel, Resolution, VideoDuration } from '../lib/sora-api';
+import { buildLineageIndex } from '../lib/remix-lineage';
+import { captureVideoFrame, resizeImageToResolution } from '../lib/image-utils';
+import { ERROR_GUIDANCE, describeError } from '../lib/sora-errors';
+import { StatusPoller, StatusPollerState, DEFAULT_POLL_INTERVAL_MS } from '../lib/status-poller';
+import { PromptTemplateInput, StoryboardInput, SubscriptionStatus } from '../lib/persistence';
+import { StoryboardRunner, StoryboardRunnerState } from '../lib/storyboard-runner';
+import {
+  compareGenerations,
+  HistoryQuery,
+  historyQueryToFilter,
+  isHistoryQueryFiltered,
+  matchesGenerationFilter,
+  parseHistoryQuery,
+  writeHistoryQuery,
+} from '../lib/generation-query';
+import { PricingModel } from '../lib/pricing';
+import { ApiKeyProfile } from '../lib/api-key-storage';
+import { hasPreflightErrors, PreflightRules } from '../lib/prompt-preflight';
+import { MAX_COMPARE, MIN_COMPARE, writeCompareIds } from '../lib/video-compare';
 
 interface GeneratorPageProps {
   videoService: VideoService;
-  onNavigate: (page: 'generator' | 'test') => void;
+  onNavigate: (page: 'generator' | 'test' | 'compare' | 'sequence') => void;
   onLogout: () => void;
+  // Empty when keys aren't managed in the browser, e.g. behind the Sora proxy
+  profiles: ApiKeyProfile[];
+  activeProfileId: string | null;
+  onSwitchProfile: (id: string) => void;
+  onManageProfiles?: () => void;
 }
 
+type FormMode = 'single' | 'batch' | 'storyboard';
+
 interface ToastState {
   message: string;
   type: ToastType;
+  details?: string;
+}
+
+// Rows fetched per page of the history
+const HISTORY_PAGE_SIZE = 24;
+
+// Inserts or replaces a row, ignoring events older than what we already have
+function mergeGeneration(
+  generations: VideoGeneration[],
+  incoming: VideoGeneration,
+  compare: (a: VideoGeneration, b: VideoGeneration) => number
+): VideoGeneration[] {
+  const existing = generations.find((g) => g.id === incoming.id);
+  if (!existing) {
+    return [incoming, ...generations].sort(compare);
+  }
+  if (existing.updated_at > incoming.updated_at) {
+    return generations;
+  }
+  return generations.map((g) => (g.id === incoming.id ? incoming : g));
 }
 
-export function GeneratorPage({ videoService, onNavigate, onLogout }: GeneratorPageProps) {
+// Distinct, non-empty names in first-seen order
+function mergeNames(names: string[], more: (string | null)[]): string[] {
+  const merged = new Set(names);
+  more.forEach((name) => {
+    if (name) merged.add(name);
+  });
+  return [...merged];
+}
+
+export function GeneratorPage({
+  videoService,
+  onNavigate,
+  onLogout,
+  profiles,
+  activeProfileId,
+  onSwitchProfile,
+  onManageProfiles,
+}: GeneratorPageProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const [generations, setGenerations] = useState<VideoGeneration[]>([]);
   const [loading, setLoading] = useState(true);
   const [toast, setToast] = useState<ToastState | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [lastCheckTime, setLastCheckTime] = useState<Date | null>(null);
+  const [connection, setConnection] = useState<SubscriptionStatus>('connecting');
+  const [remixSource, setRemixSource] = useState<VideoGeneration | null>(null);
+  const [referenceFrame, setReferenceFrame] = useState<ReferenceFrame | null>(null);
+  const [formMode, setFormMode] = useState<FormMode>('single');
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [pricing, setPricing] = useState<PricingModel | null>(null);
+  // Stays null when the backend can't store templates
+  const [templates, setTemplates] = useState<PromptTemplate[] | null>(null);
+  const [promptHistory, setPromptHistory] = useState<PromptHistoryEntry[]>([]);
+  const [preflightRules, setPreflightRules] = useState<PreflightRules | null>(null);
+  const [canEditPreflight, setCanEditPreflight] = useState(false);
+  const [showPreflightEditor, setShowPreflightEditor] = useState(false);
+  const [showSpend, setShowSpend] = useState(false);
+  const [historyQuery, setHistoryQuery] = useState(() => parseHistoryQuery(new URLSearchParams(window.location.search)));
+  // Rows matching the history filter, including pages not loaded yet
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [seenProfiles, setSeenProfiles] = useState<string[]>([]);
+  const [seenTags, setSeenTags] = useState<string[]>([]);
+  // Both stay null when the backend can't store them
+  const [projects, setProjects] = useState<Project[] | null>(null);
+  const [collections, setCollections] = useState<Collection[] | null>(null);
+  // Project that new videos go into; '' for none
+  const [projectId, setProjectId] = useState('');
+  const [showCollections, setShowCollections] = useState(false);
+  // Videos picked for the compare view, in the order they were picked
+  const [compareIds, setCompareIds] = useState<string[]>([]);
   const generationsRef = useRef<VideoGeneration[]>([]);
+  const historyQueryRef = useRef(historyQuery);
+  // Latest query and handlers for the subscription below, which would
+  // otherwise resubscribe on every render
+  const latestHistoryRef = useRef<{
+    historyQuery: HistoryQuery;
+    loadGenerations: () => Promise<void>;
+    applyToHistory: (generation: VideoGeneration) => void;
+    announceStatusChange: (generation: VideoGeneration) => void;
+  } | null>(null);
+  const loadingMoreRef = useRef(false);
+  const loadMoreSentinelRef = useRef<HTMLDivElement>(null);
+  const formRef = useRef<HTMLDivElement>(null);
+  const poller = useMemo(() => new StatusPoller(videoService), [videoService]);
+  const [pollerState, setPollerState] = useState<StatusPollerState>(poller.getState());
+  // Null when the backend can't store storyboards
+  const storyboardRunner = useMemo(
+    () => (videoService.supportsStoryboards() ? new StoryboardRunner(videoService) : null),
+    [videoService]
+  );
+  const [storyboardState, setStoryboardState] = useState<StoryboardRunnerState | null>(
+    storyboardRunner?.getState() ?? null
+  );
   
   // Keep ref in sync with state
   useEffect(() => {
     generationsRef.current = generations;
   }, [generations]);
 
+  // Every card shows its remix lineage, so the trees are built once per change
+  const lineageIndex = useMemo(() => buildLineageIndex(generations), [generations]);
+
+  // Rows change under us from the poller, other tabs and the webhook, so the
+  // history follows the subscription instead of polling itself. Changing the
+  // filters starts over with a fresh load and is reflected in the URL.
+  const historyKey = writeHistoryQuery(historyQuery, new URLSearchParams()).toString();
   useEffect(() => {
-    loadGenerations();
-  }, []);
+    const latest = latestHistoryRef.current;
+    if (!latest) return;
+
+    let missedEvents = false;
+    historyQueryRef.current = latest.historyQuery;
+    setLoading(true);
+
+    const url = new URL(window.location.href);
+    url.search = writeHistoryQuery(latest.historyQuery, url.searchParams).toString();
+    window.history.replaceState(window.history.state, '', url);
+
+    const unsubscribe = videoService.subscribeToGenerations({
+      onChange: (change) => {
+        if (change.type === 'delete') {
+          if (generationsRef.current.some((g) => g.id === change.id)) {
+            setHistoryTotal((total) => total - 1);
+          }
+          setGenerations((prev) => prev.filter((g) => g.id !== change.id));
+          storyboardRunner?.forget(change.id);
+          return;
+        }
+        latestHistoryRef.current?.announceStatusChange(change.generation);
+        latestHistoryRef.current?.applyToHistory(change.generation);
+        storyboardRunner?.observe(change.generation);
+      },
+      onStatus: (status) => {
+        setConnection(status);
+        if (status === 'disconnected') {
+          missedEvents = true;
+        } else if (status === 'live' && missedEvents) {
+          // Catch up on whatever happened while the channel was down
+          console.log('[GeneratorPage] Subscription restored, refetching history');
+          missedEvents = false;
+          latestHistoryRef.current?.loadGenerations();
+          storyboardRunner?.load();
+        }
+      },
+    });
+
+    latest.loadGenerations();
+    return unsubscribe;
+  }, [videoService, historyKey, storyboardRunner]);
 
-  // Auto-poll for pending/processing videos every 5 seconds
+  // Infinite scroll: fetch the next page once the end of the list comes into
+  // view. Recreated after every page so a sentinel that stays visible keeps
+  // loading.
+  const loadMoreRef = useRef(() => {});
+  loadMoreRef.current = () => {
+    loadMoreGenerations();
+  };
+  const hasMoreHistory = generations.length < historyTotal;
   useEffect(() => {
-    const pending = generations.filter(
-      (g) => g.status === 'processing' || g.status === 'pending'
+    const sentinel = loadMoreSentinelRef.current;
+    if (!sentinel || !hasMoreHistory || loading) {
+      return;
+    }
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          loadMoreRef.current();
+        }
+      },
+      { rootMargin: '400px' }
     );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreHistory, loading, generations.length]);
+
+  useEffect(() => {
+    videoService.getPricing().then(setPricing);
+  }, [videoService]);
+
+  useEffect(() => {
+    videoService.getPreflightRules().then(setPreflightRules);
+    videoService.canEditPreflightRules().then(setCanEditPreflight);
+  }, [videoService]);
 
-    // Only set up polling if there are pending videos
-    if (pending.length === 0) {
+  useEffect(() => {
+    if (!videoService.supportsPromptTemplates()) {
+      setTemplates(null);
       return;
     }
+    videoService
+      .listPromptTemplates()
+      .then(setTemplates)
+      .catch((error) => {
+        console.error('[GeneratorPage] Failed to load prompt templates:', error);
+        setTemplates([]);
+      });
+  }, [videoService]);
 
-    console.log(`[GeneratorPage] Setting up auto-polling for ${pending.length} pending videos`);
-    const interval = setInterval(() => {
-      checkPendingGenerations();
-    }, 5000); // Check every 5 seconds
+  useEffect(() => {
+    if (!videoService.supportsProjects()) {
+      setProjects(null);
+    } else {
+      videoService
+        .listProjects()
+        .then(setProjects)
+        .catch((error) => {
+          console.error('[GeneratorPage] Failed to load projects:', error);
+          setProjects([]);
+        });
+    }
 
-    // Also check immediately
-    checkPendingGenerations();
+    if (!videoService.supportsCollections()) {
+      setCollections(null);
+    } else {
+      videoService
+        .listCollections()
+        .then(setCollections)
+        .catch((error) => {
+          console.error('[GeneratorPage] Failed to load collections:', error);
+          setCollections([]);
+        });
+    }
+  }, [videoService]);
 
-    return () => clearInterval(interval);
-  }, [generations]);
+  useEffect(() => {
+    setStoryboardState(storyboardRunner?.getState() ?? null);
+    if (!storyboardRunner) return;
+    const unsubscribe = storyboardRunner.subscribe(setStoryboardState);
+    storyboardRunner.load();
+    return unsubscribe;
+  }, [storyboardRunner]);
+
+  // Only one tab polls OpenAI at a time; see StatusPoller
+  useEffect(() => {
+    setPollerState(poller.getState());
+    const unsubscribe = poller.subscribe(setPollerState);
+    poller.start();
+    return () => {
+      unsubscribe();
+      poller.stop();
+    };
+  }, [poller]);
 
+  // Reloads from the top, keeping as many rows as are already shown
   const loadGenerations = async () => {
+    const query = historyQueryRef.current;
     try {
-      const data = await videoService.listVideoGenerations();
-      setGenerations(data);
+      const page = await videoService.listVideoGenerationPage({
+        filter: historyQueryToFilter(query),
+        sort: query.sort,
+        offset: 0,
+        limit: Math.max(HISTORY_PAGE_SIZE, generationsRef.current.length),
+      });
+      if (historyQueryRef.current !== query) {
+        return;
+      }
+      setGenerations(page.generations);
+      setHistoryTotal(page.total);
+      setSeenProfiles((prev) => mergeNames(prev, page.generations.map((g) => g.api_profile)));
+      setSeenTags((prev) => mergeNames(prev, page.generations.flatMap((g) => g.tags ?? [])));
     } catch (error) {
       showToast('Failed to load video history', 'error');
     } finally {
-      setLoading(false);
+      if (historyQueryRef.current === query) {
+        setLoading(false);
+      }
     }
   };
 
-  const checkPendingGenerations = async () => {
-    // Use ref to get current state without causing re-renders
-    const currentGenerations = generationsRef.current;
-    const pending = currentGenerations.filter(
-      (g) => g.status === 'processing' || g.status === 'pending'
-    );
-
-    if (pending.length === 0) {
+  const loadMoreGenerations = async () => {
+    if (loadingMoreRef.current) {
       return;
     }
+    const query = historyQueryRef.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      const page = await videoService.listVideoGenerationPage({
+        filter: historyQueryToFilter(query),
+        sort: query.sort,
+        offset: generationsRef.current.length,
+        limit: HISTORY_PAGE_SIZE,
+      });
+      if (historyQueryRef.current !== query) {
+        return;
+      }
+      // Rows that arrived live can shift the offsets, so skip ones we have
+      setGenerations((prev) => {
+        const known = new Set(prev.map((g) => g.id));
+        return [...prev, ...page.generations.filter((g) => !known.has(g.id))];
+      });
+      setHistoryTotal(page.generations.length === 0 ? generationsRef.current.length : page.total);
+      setSeenProfiles((prev) => mergeNames(prev, page.generations.map((g) => g.api_profile)));
+      setSeenTags((prev) => mergeNames(prev, page.generations.flatMap((g) => g.tags ?? [])));
+    } catch (error) {
+      console.error('[GeneratorPage] Failed to load more videos:', error);
+      showToast('Failed to load more videos', 'error');
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  };
 
-    console.log(`[GeneratorPage] Checking status for ${pending.length} pending videos...`);
-    setLastCheckTime(new Date());
+  // Keeps a new or changed row in the history only while it matches the filters
+  const applyToHistory = (generation: VideoGeneration) => {
+    const query = historyQueryRef.current;
+    const known = generationsRef.current.some((g) => g.id === generation.id);
+    if (!matchesGenerationFilter(generation, historyQueryToFilter(query))) {
+      if (known) {
+        setHistoryTotal((total) => total - 1);
+        setGenerations((prev) => prev.filter((g) => g.id !== generation.id));
+      }
+      return;
+    }
+    if (!known) {
+      setHistoryTotal((total) => total + 1);
+    }
+    setGenerations((prev) => mergeGeneration(prev, generation, compareGenerations(query.sort)));
+  };
 
-    // Check status for all pending videos in parallel
-    const statusUpdates = await Promise.all(
-      pending.map(async (gen) => {
-        try {
-          console.log(`[GeneratorPage] Checking video ${gen.id} (Job: ${gen.openai_job_id})`);
-          const updated = await videoService.checkVideoStatus(gen.id);
-          return { previous: gen, updated };
-        } catch (error) {
-          console.error(`[GeneratorPage] Error checking status for ${gen.id}:`, error);
-          return null;
-        }
-      })
-    );
+  const announceStatusChange = (updated: VideoGeneration) => {
+    const previous = generationsRef.current.find((g) => g.id === updated.id);
+    if (!previous || previous.status === updated.status) {
+      return;
+    }
 
-    // Process status updates: update state first (pure), then handle side effects
-    statusUpdates.forEach((update) => {
-      if (!update) return;
-
-      const { previous, updated } = update;
-      const wasCompleted = previous.status === 'completed';
-      const wasFailed = previous.status === 'failed';
-      const isNowCompleted = updated.status === 'completed' && !wasCompleted;
-      const isNowFailed = updated.status === 'failed' && !wasFailed;
-
-      // Pure state update - no side effects
-      setGenerations((prev) => prev.map((g) => (g.id === updated.id ? updated : g)));
-
-      // Handle side effects outside state updater
-      if (isNowCompleted) {
-        console.log(`[GeneratorPage] Video ${updated.id} completed!`);
-        showToast('Video generation completed!', 'success');
-      } else if (isNowFailed) {
-        console.log(`[GeneratorPage] Video ${updated.id} failed`);
-        showToast('Video generation failed', 'error');
-      }
-    });
+    if (updated.status === 'completed') {
+      console.log(`[GeneratorPage] Video ${updated.id} completed!`);
+      showToast('Video generation completed!', 'success');
+    } else if (updated.status === 'failed') {
+      console.log(`[GeneratorPage] Video ${updated.id} failed`);
+      const { title, guidance } = ERROR_GUIDANCE[updated.error_category || 'unknown'];
+      showToast(`Video generation failed: ${title}`, 'error', guidance);
+    }
   };
 
+  latestHistoryRef.current = { historyQuery, loadGenerations, applyToHistory, announceStatusChange };
+
   const handleManualRefresh = async () => {
     setIsRefreshing(true);
     console.log('[GeneratorPage] Manual refresh triggered');
     try {
-      await checkPendingGenerations();
+      await poller.checkNow();
+      if (connection !== 'live') {
+        // Without a live subscription the results won't be pushed to us
+        await loadGenerations();
+      }
       showToast('Status refreshed', 'success');
     } catch (error) {
       showToast('Failed to refresh status', 'error');
@@ -140,41 +437,351 @@ export function GeneratorPage({ videoService, onNavigate, onLogout }: GeneratorP
     resolution: Resolution;
     duration: VideoDuration;
     imageFile?: File;
+    frameSource?: FrameSource;
   }) => {
     setIsGenerating(true);
     try {
-      const { imageFile, ...requestParams } = params;
-      const generation = await videoService.createVideoGeneration(requestParams, imageFile);
-      setGenerations((prev) => [generation, ...prev]);
+      // The form checks as the user types; this catches anything it missed
+      // before a request goes out
+      const issues = await videoService.preflightPrompt(
+        remixSource ? { ...remixSource, prompt: params.prompt } : params
+      );
+      if (hasPreflightErrors(issues)) {
+        showToast(
+          'The prompt did not pass the preflight check',
+          'error',
+          issues.filter((issue) => issue.severity === 'error').map((issue) => issue.message).join(' ')
+        );
+        return;
+      }
+
+      if (remixSource) {
+        const generation = await videoService.createRemix(remixSource, params.prompt);
+        applyToHistory(generation);
+        setRemixSource(null);
+        showToast('Remix started!', 'success');
+        return;
+      }
+
+      const { imageFile, frameSource, ...requestParams } = params;
+      const generation = await videoService.createVideoGeneration(
+        requestParams,
+        imageFile,
+        projectId || null,
+        frameSource ?? null
+      );
+      applyToHistory(generation);
       showToast('Video generation started!', 'success');
     } catch (error) {
-      showToast(
-        error instanceof Error ? error.message : 'Failed to start video generation',
-        'error'
-      );
+      const { message, guidance } = describeError(error);
+      showToast(message || 'Failed to start video generation', 'error', guidance || undefined);
     } finally {
       setIsGenerating(false);
     }
   };
 
+  const handleBatchRow = async (job: BatchJob) => {
+    const issues = await videoService.preflightPrompt(job);
+    if (hasPreflightErrors(issues)) {
+      throw new Error(issues.filter((issue) => issue.severity === 'error').map((issue) => issue.message).join(' '));
+    }
+
+    const { imageFile, ...requestParams } = job;
+    const resizedImage = imageFile
+      ? (await resizeImageToResolution(imageFile, job.resolution)).file
+      : undefined;
+    const generation = await videoService.createVideoGeneration(requestParams, resizedImage, projectId || null);
+    applyToHistory(generation);
+    return generation;
+  };
+
+  const handleBatchStateChange = (isRunning: boolean) => {
+    setIsBatchRunning(isRunning);
+    if (!isRunning) {
+      // Pick up rows that failed to submit so they show up in the history too
+      loadGenerations();
+      showToast('Batch submitted. See the summary for per-row results.', 'info');
+    }
+  };
+
+  // Resolves to false when nothing was saved, so the editor stays open
+  const handleSaveStoryboard = async (
+    input: StoryboardInput,
+    existing: Storyboard | null,
+    start: boolean
+  ): Promise<boolean> => {
+    if (!storyboardRunner) return false;
+
+    try {
+      const results = await Promise.all(
+        input.shots.map((shot) => videoService.preflightPrompt({ ...input, ...shot }))
+      );
+      const problems = results.flatMap((issues, index) =>
+        issues.filter((issue) => issue.severity === 'error').map((issue) => `Shot ${index + 1}: ${issue.message}`)
+      );
+      if (problems.length > 0) {
+        showToast('Some shots did not pass the preflight check', 'error', problems.join(' '));
+        return false;
+      }
+
+      const storyboard = existing
+        ? await storyboardRunner.update(existing, input)
+        : await storyboardRunner.create(input);
+      if (start) {
+        handleStartStoryboard(storyboard);
+      } else {
+        showToast('Storyboard saved', 'success');
+      }
+      return true;
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to save storyboard', 'error');
+      return false;
+    }
+  };
+
+  const handleStartStoryboard = async (storyboard: Storyboard) => {
+    if (!storyboardRunner) return;
+    try {
+      await storyboardRunner.start(storyboard);
+      showToast(`Storyboard "${storyboard.name}" started`, 'success');
+    } catch (error) {
+      const { message, guidance } = describeError(error);
+      showToast(message || 'Failed to start storyboard', 'error', guidance || undefined);
+    }
+  };
+
+  const handleRetryShot = async (storyboard: Storyboard, shot: StoryboardShot) => {
+    try {
+      await storyboardRunner?.retry(storyboard, shot);
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to retry shot', 'error');
+    }
+  };
+
+  const handleDeleteStoryboard = async (storyboard: Storyboard) => {
+    try {
+      await storyboardRunner?.delete(storyboard);
+      showToast('Storyboard deleted', 'success');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to delete storyboard', 'error');
+    }
+  };
+
+  const handleRemix = (generation: VideoGeneration) => {
+    setFormMode('single');
+    setRemixSource(generation);
+    setReferenceFrame(null);
+    formRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const handleUseFrame = async (generation: VideoGeneration, video: HTMLVideoElement) => {
+    try {
+      const frame = await captureVideoFrame(
+        video,
+        `${generation.id}-frame-${video.currentTime.toFixed(2)}s.jpg`
+      );
+      setFormMode('single');
+      setRemixSource(null);
+      setReferenceFrame({ file: frame.file, source: { generationId: generation.id, timestamp: frame.timestamp } });
+      formRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+      showToast('Frame loaded as the starting image', 'success');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to capture frame', 'error');
+    }
+  };
+
   const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this video generation?')) {
+    if (!confirm('Delete this video generation? Its stored video, images and OpenAI job will be removed too.')) {
       return;
     }
 
     try {
-      await videoService.deleteVideoGeneration(id);
+      const result = await videoService.deleteVideoGeneration(id);
+      if (generationsRef.current.some((g) => g.id === id)) {
+        setHistoryTotal((total) => total - 1);
+      }
       setGenerations((prev) => prev.filter((g) => g.id !== id));
-      showToast('Video generation deleted', 'success');
+      setCompareIds((prev) => prev.filter((gid) => gid !== id));
+      storyboardRunner?.forget(id);
+      // The database drops the collection items along with the row
+      setCollections((prev) =>
+        prev && prev.map((c) => ({ ...c, generation_ids: c.generation_ids.filter((gid) => gid !== id) }))
+      );
+      if (remixSource?.id === id) {
+        setRemixSource(null);
+      }
+      // The form keeps the image, but it can no longer point at its source
+      if (referenceFrame?.source.generationId === id) {
+        setReferenceFrame(null);
+      }
+      if (result.failures.length > 0) {
+        showToast(`Video generation deleted, but some cleanup failed: ${result.failures.join('; ')}`, 'info');
+      } else {
+        showToast('Video generation deleted', 'success');
+      }
+    } catch (error) {
+      showToast(
+        error instanceof Error ? error.message : 'Failed to delete video generation',
+        'error'
+      );
+    }
+  };
+
+  const handleCreateProject = async (name: string): Promise<Project | null> => {
+    try {
+      const project = await videoService.createProject(name);
+      setProjects((prev) => [...(prev || []), project].sort((a, b) => a.name.localeCompare(b.name)));
+      showToast(`Created project "${project.name}"`, 'success');
+      return project;
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to create project', 'error');
+      return null;
+    }
+  };
+
+  const handleSetProject = async (generation: VideoGeneration, targetProjectId: string | null) => {
+    try {
+      applyToHistory(await videoService.setGenerationProject(generation.id, targetProjectId));
     } catch (error) {
-      showToast('Failed to delete video generation', 'error');
+      showToast(error instanceof Error ? error.message : 'Failed to change the project', 'error');
     }
   };
 
-  const showToast = (message: string, type: ToastType) => {
-    setToast({ message, type });
+  const handleSetTags = async (generation: VideoGeneration, tags: string[]) => {
+    try {
+      const updated = await videoService.setGenerationTags(generation.id, tags);
+      setSeenTags((prev) => mergeNames(prev, updated.tags));
+      applyToHistory(updated);
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to update tags', 'error');
+    }
+  };
+
+  const replaceCollection = (collection: Collection) =>
+    setCollections((prev) => prev && prev.map((c) => (c.id === collection.id ? collection : c)));
+
+  const handleSetCollectionItems = async (collection: Collection, generationIds: string[]) => {
+    try {
+      replaceCollection(await videoService.setCollectionItems(collection, generationIds));
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to update the collection', 'error');
+    }
+  };
+
+  const handleToggleCollection = (collection: Collection, generation: VideoGeneration) =>
+    handleSetCollectionItems(
+      collection,
+      collection.generation_ids.includes(generation.id)
+        ? collection.generation_ids.filter((id) => id !== generation.id)
+        : [...collection.generation_ids, generation.id]
+    );
+
+  const handleToggleCompare = (generation: VideoGeneration) => {
+    if (compareIds.includes(generation.id)) {
+      setCompareIds((prev) => prev.filter((id) => id !== generation.id));
+    } else if (compareIds.length >= MAX_COMPARE) {
+      showToast(`Up to ${MAX_COMPARE} videos can be compared at once`, 'info');
+    } else {
+      setCompareIds((prev) => [...prev, generation.id]);
+    }
+  };
+
+  const handleOpenCompare = () => {
+    const url = new URL(window.location.href);
+    url.search = writeCompareIds(compareIds, url.searchParams).toString();
+    window.history.replaceState(window.history.state, '', url);
+    onNavigate('compare');
+  };
+
+  const handleCreateCollection = async (name: string) => {
+    try {
+      const collection = await videoService.createCollection(name);
+      setCollections((prev) => [...(prev || []), collection].sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to create collection', 'error');
+    }
+  };
+
+  const handleRenameCollection = async (collection: Collection, name: string) => {
+    try {
+      replaceCollection(await videoService.renameCollection(collection, name));
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to rename collection', 'error');
+    }
+  };
+
+  const handleDeleteCollection = async (collection: Collection) => {
+    try {
+      await videoService.deleteCollection(collection.id);
+      setCollections((prev) => prev && prev.filter((c) => c.id !== collection.id));
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to delete collection', 'error');
+    }
+  };
+
+  const handleSavePreflightRules = async (rules: PreflightRules): Promise<boolean> => {
+    try {
+      setPreflightRules(await videoService.savePreflightRules(rules));
+      showToast('Preflight rules saved', 'success');
+      return true;
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to save preflight rules', 'error');
+      return false;
+    }
+  };
+
+  const handleToggleFavorite = async (entry: PromptHistoryEntry) => {
+    const favorite = !entry.favorite;
+    setPromptHistory((prev) => prev.map((e) => (e.prompt === entry.prompt ? { ...e, favorite } : e)));
+    try {
+      await videoService.setPromptFavorite(entry.prompt, favorite);
+    } catch (error) {
+      setPromptHistory((prev) => prev.map((e) => (e.prompt === entry.prompt ? { ...e, favorite: !favorite } : e)));
+      showToast(error instanceof Error ? error.message : 'Failed to update favorites', 'error');
+    }
   };
 
+  const handleSaveTemplate = async (template: PromptTemplateInput) => {
+    try {
+      const saved = await videoService.savePromptTemplate(template);
+      setTemplates((prev) =>
+        [...(prev || []).filter((t) => t.id !== saved.id && t.name !== saved.name), saved].sort((a, b) =>
+          a.name.localeCompare(b.name)
+        )
+      );
+      showToast(`Saved template "${saved.name}"`, 'success');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to save template', 'error');
+    }
+  };
+
+  const handleDeleteTemplate = async (template: PromptTemplate) => {
+    try {
+      await videoService.deletePromptTemplate(template.id);
+      setTemplates((prev) => (prev || []).filter((t) => t.id !== template.id));
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to delete template', 'error');
+    }
+  };
+
+  const showToast = (message: string, type: ToastType, details?: string) => {
+    setToast({ message, type, details });
+  };
+
+  const finishedCount = generations.filter((g) => g.status === 'completed' || g.status === 'failed').length;
+
+  // Reloaded as generations are added or finish so the outcome counts stay current
+  useEffect(() => {
+    videoService
+      .listPromptHistory()
+      .then(setPromptHistory)
+      .catch((error) => console.error('[GeneratorPage] Failed to load prompt history:', error));
+  }, [videoService, generations.length, finishedCount]);
+  const profileFilterOptions = mergeNames(
+    profiles.map((profile) => profile.name),
+    [...seenProfiles, historyQuery.profile]
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50">
       <nav className="bg-white border-b border-gray-200 shadow-sm">
@@ -187,6 +794,50 @@ export function GeneratorPage({ videoService, onNavigate, onLogout }: GeneratorP
               <h1 className="text-2xl font-bold text-gray-800">Sora 2 Generator</h1>
             </div>
             <div className="flex items-center gap-3">
+              <RequestQueueStatus scheduler={videoService.getScheduler()} />
+              <ApiProfileSwitcher
+                profiles={profiles}
+                activeProfileId={activeProfileId}
+                onSwitch={onSwitchProfile}
+                onManage={onManageProfiles}
+              />
+              <CreditBalance videoService={videoService} refreshKey={`${generations.length}:${finishedCount}`} />
+              <button
+                onClick={() => setShowSpend(!showSpend)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                  showSpend ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 hover:bg-gray-200'
+                }`}
+              >
+                <BarChart3 className="w-4 h-4" />
+                Spend
+              </button>
+              {collections && (
+                <button
+                  onClick={() => setShowCollections(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                >
+                  <Library className="w-4 h-4" />
+                  Collections
+                </button>
+              )}
+              <button
+                onClick={() => onNavigate('sequence')}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                title="Join clips into one video"
+              >
+                <Film className="w-4 h-4" />
+                Sequence
+              </button>
+              {canEditPreflight && preflightRules && (
+                <button
+                  onClick={() => setShowPreflightEditor(true)}
+                  className="flex items-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                  title="Edit the prompt preflight rules"
+                >
+                  <ShieldCheck className="w-4 h-4" />
+                  Rules
+                </button>
+              )}
               <button
                 onClick={() => onNavigate('test')}
                 className="flex items-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
@@ -207,25 +858,133 @@ export function GeneratorPage({ videoService, onNavigate, onLogout }: GeneratorP
       </nav>
 
       <main className="max-w-7xl mx-auto px-6 py-8">
-        <div className="bg-white rounded-2xl shadow-xl p-8 mb-8">
-          <h2 className="text-xl font-semibold text-gray-800 mb-6">Create New Video</h2>
-          <VideoGenerationForm onSubmit={handleGenerate} isGenerating={isGenerating} />
+        {showSpend && (
+          <SpendSummary
+            videoService={videoService}
+            refreshKey={finishedCount}
+          />
+        )}
+
+        <div ref={formRef} className="bg-white rounded-2xl shadow-xl p-8 mb-8 scroll-mt-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-semibold text-gray-800">
+              {remixSource
+                ? 'Remix Video'
+                : formMode === 'batch'
+                ? 'Batch Generation'
+                : formMode === 'storyboard'
+                ? 'Storyboards'
+                : 'Create New Video'}
+            </h2>
+            {!remixSource && (
+              <div className="inline-flex bg-gray-100 rounded-lg p-1">
+                <button
+                  onClick={() => setFormMode('single')}
+                  disabled={isBatchRunning}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                    formMode === 'single' ? 'bg-white shadow text-gray-900' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  <Video className="w-4 h-4" />
+                  Single
+                </button>
+                <button
+                  onClick={() => setFormMode('batch')}
+                  disabled={isGenerating}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                    formMode === 'batch' ? 'bg-white shadow text-gray-900' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  <Layers className="w-4 h-4" />
+                  Batch
+                </button>
+                {storyboardState && (
+                  <button
+                    onClick={() => setFormMode('storyboard')}
+                    disabled={isGenerating || isBatchRunning}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                      formMode === 'storyboard' ? 'bg-white shadow text-gray-900' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <Clapperboard className="w-4 h-4" />
+                    Storyboard
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+          {formMode === 'storyboard' && storyboardState && !remixSource ? (
+            <StoryboardForm
+              storyboards={storyboardState.storyboards}
+              progress={storyboardState.progress}
+              onSave={handleSaveStoryboard}
+              onStart={handleStartStoryboard}
+              onRetry={handleRetryShot}
+              onDelete={handleDeleteStoryboard}
+              pricing={pricing}
+              projects={projects ?? undefined}
+              defaultProjectId={projectId}
+            />
+          ) : formMode === 'batch' && !remixSource ? (
+            <BatchGenerationForm
+              onSubmitRow={handleBatchRow}
+              isGenerating={isGenerating}
+              onBatchStateChange={handleBatchStateChange}
+              pricing={pricing}
+              templates={templates ?? undefined}
+            />
+          ) : (
+            <VideoGenerationForm
+              onSubmit={handleGenerate}
+              isGenerating={isGenerating}
+              remixSource={remixSource}
+              onCancelRemix={() => setRemixSource(null)}
+              referenceFrame={referenceFrame}
+              onClearReferenceFrame={() => setReferenceFrame(null)}
+              pricing={pricing}
+              templates={templates ?? undefined}
+              onSaveTemplate={templates ? handleSaveTemplate : undefined}
+              onDeleteTemplate={templates ? handleDeleteTemplate : undefined}
+              promptHistory={promptHistory}
+              onToggleFavorite={handleToggleFavorite}
+              preflightRules={preflightRules}
+              projects={projects ?? undefined}
+              projectId={projectId}
+              onProjectChange={setProjectId}
+              onCreateProject={projects ? handleCreateProject : undefined}
+            />
+          )}
         </div>
 
         <div className="mb-6 flex items-center justify-between">
           <div className="flex items-center gap-3">
             <History className="w-6 h-6 text-gray-700" />
             <h2 className="text-xl font-semibold text-gray-800">Video History</h2>
-            <span className="text-sm text-gray-500">({generations.length} total)</span>
+            <span className="text-sm text-gray-500">
+              ({hasMoreHistory ? `${generations.length} of ${historyTotal}` : `${historyTotal} total`})
+            </span>
+            {connection === 'disconnected' && (
+              <div
+                className="flex items-center gap-2 px-3 py-1 bg-amber-50 text-amber-700 rounded-full text-xs"
+                title="Live updates are unavailable. The history will be refreshed once the connection is back."
+              >
+                <WifiOff className="w-3 h-3" />
+                <span>Reconnecting...</span>
+              </div>
+            )}
             {generations.some((g) => g.status === 'processing' || g.status === 'pending') && (
               <div className="flex items-center gap-2 px-3 py-1 bg-blue-50 text-blue-700 rounded-full text-xs">
                 <div className="w-2 h-2 bg-blue-600 rounded-full animate-pulse"></div>
-                <span>Auto-checking every 5s</span>
+                <span>
+                  {pollerState.isOwner
+                    ? `Auto-checking every ${DEFAULT_POLL_INTERVAL_MS / 1000}s`
+                    : 'Checked by another open tab'}
+                </span>
               </div>
             )}
-            {lastCheckTime && (
+            {pollerState.lastCheck && (
               <span className="text-xs text-gray-400">
-                Last check: {lastCheckTime.toLocaleTimeString()}
+                Last check: {new Date(pollerState.lastCheck).toLocaleTimeString()}
               </span>
             )}
           </div>
@@ -241,11 +1000,25 @@ export function GeneratorPage({ videoService, onNavigate, onLogout }: GeneratorP
           )}
         </div>
 
+        <HistoryFilters
+          query={historyQuery}
+          onChange={setHistoryQuery}
+          profileOptions={profileFilterOptions}
+          projects={projects ?? undefined}
+          tagOptions={mergeNames(seenTags, generations.flatMap((g) => g.tags ?? [])).sort()}
+        />
+
         {loading ? (
           <div className="text-center py-12">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
             <p className="text-gray-600 mt-4">Loading videos...</p>
           </div>
+        ) : generations.length === 0 && isHistoryQueryFiltered(historyQuery) ? (
+          <div className="bg-white rounded-xl shadow-lg p-12 text-center">
+            <Video className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-700 mb-2">No matching videos</h3>
+            <p className="text-gray-500">Try a different search or clear some filters.</p>
+          </div>
         ) : generations.length === 0 ? (
           <div className="bg-white rounded-xl shadow-lg p-12 text-center">
             <Video className="w-16 h-16 text-gray-300 mx-auto mb-4" />
@@ -259,16 +1032,84 @@ export function GeneratorPage({ videoService, onNavigate, onLogout }: GeneratorP
                 key={generation.id}
                 generation={generation}
                 onDelete={handleDelete}
+                onRemix={handleRemix}
+                lineage={lineageIndex.get(generation.id)}
+                onSetTags={handleSetTags}
+                onSelectTag={(tag) => setHistoryQuery((query) => ({ ...query, tag }))}
+                projects={projects ?? undefined}
+                onSetProject={projects ? handleSetProject : undefined}
+                collections={collections ?? undefined}
+                onToggleCollection={collections ? handleToggleCollection : undefined}
+                compareSelected={compareIds.includes(generation.id)}
+                onToggleCompare={handleToggleCompare}
+                onUseFrame={handleUseFrame}
               />
             ))}
           </div>
         )}
+
+        {!loading && hasMoreHistory && (
+          <div ref={loadMoreSentinelRef} className="mt-6 text-center">
+            <button
+              onClick={loadMoreGenerations}
+              disabled={loadingMore}
+              className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {loadingMore ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
       </main>
 
+      {compareIds.length > 0 && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-30 flex items-center gap-3 bg-white rounded-xl shadow-2xl border border-gray-200 px-4 py-3">
+          <span className="text-sm text-gray-700">
+            {compareIds.length} of {MAX_COMPARE} selected
+          </span>
+          <button
+            onClick={handleOpenCompare}
+            disabled={compareIds.length < MIN_COMPARE}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={compareIds.length < MIN_COMPARE ? `Select at least ${MIN_COMPARE} videos` : undefined}
+          >
+            <Columns className="w-4 h-4" />
+            Compare
+          </button>
+          <button
+            onClick={() => setCompareIds([])}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded"
+            title="Clear selection"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {showCollections && collections && (
+        <CollectionsDrawer
+          videoService={videoService}
+          collections={collections}
+          onCreate={handleCreateCollection}
+          onRename={handleRenameCollection}
+          onDelete={handleDeleteCollection}
+          onReorder={handleSetCollectionItems}
+          onClose={() => setShowCollections(false)}
+        />
+      )}
+
+      {showPreflightEditor && preflightRules && (
+        <PreflightRulesEditor
+          rules={preflightRules}
+          onSave={handleSavePreflightRules}
+          onClose={() => setShowPreflightEditor(false)}
+        />
+      )}
+
       {toast && (
         <Toast
           message={toast.message}
           type={toast.type}
+          details={toast.details}
           onClose={() => setToast(null)}
         />
       )}
@@ -0,0 +1,564 @@
+import { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Download, Film, LogOut, Plus, Save, Scissors, Trash2, X } from 'lucide-react';
+import { VideoService } from '../lib/video-service';
+import { Sequence, VideoGeneration } from '../lib/supabase';
+import { Toast, ToastType } from '../components/Toast';
+import {
+  clipLength,
+  createTimelineClip,
+  moveClip,
+  TimelineClip,
+  timelineDuration,
+  trimClip,
+} from '../lib/sequence-timeline';
+import { renderSequence, supportsSequenceRendering } from '../lib/sequence-renderer';
+
+interface SequencePageProps {
+  videoService: VideoService;
+  onNavigate: (page: 'generator' | 'test' | 'compare' | 'sequence') => void;
+  onLogout: () => void;
+}
+
+interface ToastState {
+  message: string;
+  type: ToastType;
+}
+
+interface RenderResult {
+  blob: Blob;
+  url: string;
+  duration: number;
+  resolution: string;
+}
+
+const LIBRARY_PAGE_SIZE = 24;
+// Drag payloads: a generation from the library, or a clip already on the timeline
+const GENERATION_DRAG_TYPE = 'application/x-sora-generation';
+const CLIP_DRAG_TYPE = 'application/x-sora-clip';
+const PIXELS_PER_SECOND = 24;
+
+function formatSeconds(seconds: number): string {
+  return `${seconds.toFixed(1)}s`;
+}
+
+export function SequencePage({ videoService, onNavigate, onLogout }: SequencePageProps) {
+  const [library, setLibrary] = useState<VideoGeneration[]>([]);
+  const [libraryTotal, setLibraryTotal] = useState(0);
+  const [loadingLibrary, setLoadingLibrary] = useState(true);
+  const [clips, setClips] = useState<TimelineClip[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [renderProgress, setRenderProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<RenderResult | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // Null when the backend can't store sequences
+  const [sequences, setSequences] = useState<Sequence[] | null>(null);
+  const [toast, setToast] = useState<ToastState | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const resultUrlRef = useRef<string | null>(null);
+
+  const selected = clips.find((clip) => clip.key === selectedKey) ?? null;
+  const duration = timelineDuration(clips);
+  const resolutions = [...new Set(clips.map((clip) => clip.generation.resolution))];
+  const isRendering = renderProgress !== null;
+  const canRender = supportsSequenceRendering();
+
+  const showToast = (message: string, type: ToastType) => {
+    setToast({ message, type });
+  };
+
+  useEffect(() => {
+    videoService
+      .listVideoGenerationPage({ filter: { statuses: ['completed'] }, offset: 0, limit: LIBRARY_PAGE_SIZE })
+      .then((page) => {
+        setLibrary(page.generations);
+        setLibraryTotal(page.total);
+      })
+      .catch((error) => console.error('[SequencePage] Failed to load completed videos:', error))
+      .finally(() => setLoadingLibrary(false));
+
+    if (videoService.supportsSequences()) {
+      videoService
+        .listSequences()
+        .then(setSequences)
+        .catch((error) => {
+          console.error('[SequencePage] Failed to load sequences:', error);
+          setSequences([]);
+        });
+    }
+  }, [videoService]);
+
+  // Drop the rendered file when leaving the page
+  useEffect(
+    () => () => {
+      abortRef.current?.abort();
+      if (resultUrlRef.current) URL.revokeObjectURL(resultUrlRef.current);
+    },
+    []
+  );
+
+  const replaceResult = (next: RenderResult | null) => {
+    if (resultUrlRef.current) URL.revokeObjectURL(resultUrlRef.current);
+    resultUrlRef.current = next?.url ?? null;
+    setResult(next);
+  };
+
+  // A render no longer matches once the timeline changes
+  const changeClips = (update: (prev: TimelineClip[]) => TimelineClip[]) => {
+    setClips(update);
+    replaceResult(null);
+  };
+
+  const loadMoreLibrary = async () => {
+    setLoadingLibrary(true);
+    try {
+      const page = await videoService.listVideoGenerationPage({
+        filter: { statuses: ['completed'] },
+        offset: library.length,
+        limit: LIBRARY_PAGE_SIZE,
+      });
+      const known = new Set(library.map((g) => g.id));
+      setLibrary([...library, ...page.generations.filter((g) => !known.has(g.id))]);
+      setLibraryTotal(page.total);
+    } catch (error) {
+      console.error('[SequencePage] Failed to load more videos:', error);
+      showToast('Failed to load more videos', 'error');
+    } finally {
+      setLoadingLibrary(false);
+    }
+  };
+
+  const addClip = (generation: VideoGeneration, index: number = clips.length) => {
+    const clip = createTimelineClip(generation);
+    changeClips((prev) => [...prev.slice(0, index), clip, ...prev.slice(index)]);
+    setSelectedKey(clip.key);
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const generationId = e.dataTransfer.getData(GENERATION_DRAG_TYPE);
+    const clipKey = e.dataTransfer.getData(CLIP_DRAG_TYPE);
+    if (generationId) {
+      const generation = library.find((g) => g.id === generationId);
+      if (generation) addClip(generation, index);
+    } else if (clipKey) {
+      const from = clips.findIndex((clip) => clip.key === clipKey);
+      if (from >= 0) changeClips((prev) => moveClip(prev, from, from < index ? index - 1 : index));
+    }
+  };
+
+  const allowDrop = (e: React.DragEvent) => {
+    if (e.dataTransfer.types.includes(GENERATION_DRAG_TYPE) || e.dataTransfer.types.includes(CLIP_DRAG_TYPE)) {
+      e.preventDefault();
+    }
+  };
+
+  const updateTrim = (clip: TimelineClip, inPoint: number, outPoint: number) => {
+    const trimmed = trimClip(clip, inPoint, outPoint);
+    changeClips((prev) => prev.map((c) => (c.key === clip.key ? trimmed : c)));
+    if (previewRef.current) {
+      previewRef.current.currentTime = trimmed.inPoint !== clip.inPoint ? trimmed.inPoint : trimmed.outPoint;
+    }
+  };
+
+  const removeClip = (key: string) => {
+    changeClips((prev) => prev.filter((clip) => clip.key !== key));
+    if (selectedKey === key) setSelectedKey(null);
+  };
+
+  const handleRender = async () => {
+    if (clips.length === 0) return;
+
+    const resolution = clips[0].generation.resolution;
+    const [width, height] = resolution.split('x').map(Number);
+    const abort = new AbortController();
+    abortRef.current = abort;
+    replaceResult(null);
+    setRenderProgress(0);
+
+    try {
+      const blob = await renderSequence(clips, {
+        width,
+        height,
+        onProgress: setRenderProgress,
+        signal: abort.signal,
+      });
+      replaceResult({ blob, url: URL.createObjectURL(blob), duration, resolution });
+    } catch (error) {
+      if (!abort.signal.aborted) {
+        console.error('[SequencePage] Failed to render sequence:', error);
+        showToast(error instanceof Error ? error.message : 'Failed to render sequence', 'error');
+      }
+    } finally {
+      abortRef.current = null;
+      setRenderProgress(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!result) return;
+    const name = window.prompt('Sequence name')?.trim();
+    if (!name) return;
+
+    setIsSaving(true);
+    try {
+      const sequence = await videoService.saveSequence(result.blob, {
+        name,
+        duration: result.duration,
+        resolution: result.resolution,
+        clips: clips.map((clip) => ({
+          generation_id: clip.generation.id,
+          in_point: clip.inPoint,
+          out_point: clip.outPoint,
+        })),
+      });
+      setSequences((prev) => [sequence, ...(prev || [])]);
+      showToast('Sequence saved', 'success');
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to save sequence', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteSequence = async (sequence: Sequence) => {
+    if (!confirm(`Delete the sequence "${sequence.name}"? Its source videos are kept.`)) return;
+    try {
+      await videoService.deleteSequence(sequence);
+      setSequences((prev) => prev && prev.filter((s) => s.id !== sequence.id));
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to delete sequence', 'error');
+    }
+  };
+
+  const extension = result?.blob.type.startsWith('video/mp4') ? 'mp4' : 'webm';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50">
+      <nav className="bg-white border-b border-gray-200 shadow-sm">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => onNavigate('generator')}
+              className="flex items-center gap-2 text-gray-700 hover:text-gray-900 transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              Back to Generator
+            </button>
+            <button
+              onClick={onLogout}
+              className="flex items-center gap-2 px-4 py-2 bg-red-50 hover:bg-red-100 text-red-600 rounded-lg transition-colors"
+            >
+              <LogOut className="w-4 h-4" />
+              Logout
+            </button>
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto px-6 py-8 space-y-8">
+        <div className="flex items-center gap-3">
+          <Film className="w-6 h-6 text-gray-700" />
+          <h1 className="text-xl font-semibold text-gray-800">Sequence Builder</h1>
+        </div>
+
+        <section className="bg-white rounded-xl shadow-lg p-6">
+          <h2 className="text-sm font-semibold text-gray-700 mb-3">Completed videos</h2>
+          {library.length === 0 && !loadingLibrary ? (
+            <p className="text-sm text-gray-500">Videos show up here once they have finished rendering.</p>
+          ) : (
+            <div className="flex gap-3 overflow-x-auto pb-2">
+              {library.map((generation) => (
+                <div
+                  key={generation.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData(GENERATION_DRAG_TYPE, generation.id);
+                    e.dataTransfer.effectAllowed = 'copy';
+                  }}
+                  className="flex-shrink-0 w-40 rounded-lg border border-gray-200 overflow-hidden cursor-grab active:cursor-grabbing bg-white"
+                  title={generation.prompt}
+                >
+                  {generation.thumbnail_url ? (
+                    <img src={generation.thumbnail_url} alt="" className="w-full aspect-video object-cover bg-black" />
+                  ) : (
+                    <div className="w-full aspect-video bg-gray-800" />
+                  )}
+                  <div className="p-2 flex items-center gap-1">
+                    <p className="flex-1 min-w-0 text-xs text-gray-700 truncate">{generation.prompt}</p>
+                    <button
+                      type="button"
+                      onClick={() => addClip(generation)}
+                      className="p-1 text-blue-600 hover:bg-blue-50 rounded"
+                      title="Add to the end of the timeline"
+                    >
+                      <Plus className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              {library.length < libraryTotal && (
+                <button
+                  type="button"
+                  onClick={loadMoreLibrary}
+                  disabled={loadingLibrary}
+                  className="flex-shrink-0 w-32 text-sm text-gray-600 border border-dashed border-gray-300 hover:bg-gray-50 rounded-lg disabled:opacity-50"
+                >
+                  {loadingLibrary ? 'Loading...' : 'Load more'}
+                </button>
+              )}
+            </div>
+          )}
+        </section>
+
+        <section className="bg-white rounded-xl shadow-lg p-6">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-sm font-semibold text-gray-700">
+              Timeline
+              <span className="ml-2 font-normal text-gray-500">
+                {clips.length} clip{clips.length === 1 ? '' : 's'} · {formatSeconds(duration)}
+              </span>
+            </h2>
+            {resolutions.length > 1 && (
+              <span className="text-xs text-amber-700">
+                Mixed resolutions; clips are letterboxed to {resolutions[0]}
+              </span>
+            )}
+          </div>
+          <div
+            onDragOver={allowDrop}
+            onDrop={(e) => handleDrop(e, clips.length)}
+            className="flex gap-2 overflow-x-auto min-h-[6rem] p-2 bg-gray-50 border-2 border-dashed border-gray-200 rounded-lg"
+          >
+            {clips.length === 0 && (
+              <p className="m-auto text-sm text-gray-500">Drag completed videos here</p>
+            )}
+            {clips.map((clip, index) => (
+              <div
+                key={clip.key}
+                draggable={!isRendering}
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(CLIP_DRAG_TYPE, clip.key);
+                  e.dataTransfer.effectAllowed = 'move';
+                }}
+                onDragOver={allowDrop}
+                onDrop={(e) => handleDrop(e, index)}
+                onClick={() => setSelectedKey(clip.key)}
+                style={{ width: `${Math.max(clipLength(clip) * PIXELS_PER_SECOND, 96)}px` }}
+                className={`flex-shrink-0 rounded-lg overflow-hidden border-2 cursor-pointer bg-white ${
+                  clip.key === selectedKey ? 'border-blue-600' : 'border-gray-200 hover:border-gray-300'
+                }`}
+              >
+                {clip.generation.thumbnail_url ? (
+                  <img
+                    src={clip.generation.thumbnail_url}
+                    alt=""
+                    className="w-full h-12 object-cover bg-black pointer-events-none"
+                  />
+                ) : (
+                  <div className="w-full h-12 bg-gray-800" />
+                )}
+                <div className="px-2 py-1 flex items-center justify-between text-xs text-gray-600">
+                  <span>
+                    {index + 1} · {formatSeconds(clipLength(clip))}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      removeClip(clip.key);
+                    }}
+                    disabled={isRendering}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Remove from timeline"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+              <video
+                ref={previewRef}
+                key={selected.key}
+                src={selected.generation.video_url ?? undefined}
+                controls
+                preload="metadata"
+                onLoadedMetadata={(e) => {
+                  e.currentTarget.currentTime = selected.inPoint;
+                }}
+                onTimeUpdate={(e) => {
+                  if (!e.currentTarget.paused && e.currentTarget.currentTime >= selected.outPoint) {
+                    e.currentTarget.pause();
+                  }
+                }}
+                className="w-full aspect-video bg-black rounded-lg"
+              />
+              <div className="space-y-3 text-sm">
+                <p className="text-gray-800 line-clamp-3">{selected.generation.prompt}</p>
+                <p className="text-xs text-gray-500">
+                  Source is {selected.generation.duration}s at {selected.generation.resolution}
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  {(['inPoint', 'outPoint'] as const).map((point) => (
+                    <div key={point}>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">
+                        {point === 'inPoint' ? 'In' : 'Out'} (seconds)
+                      </label>
+                      <div className="flex gap-1">
+                        <input
+                          type="number"
+                          min={0}
+                          max={selected.generation.duration}
+                          step={0.1}
+                          value={selected[point]}
+                          disabled={isRendering}
+                          onChange={(e) =>
+                            point === 'inPoint'
+                              ? updateTrim(selected, Number(e.target.value), selected.outPoint)
+                              : updateTrim(selected, selected.inPoint, Number(e.target.value))
+                          }
+                          className="w-full px-2 py-1.5 border border-gray-300 rounded-lg"
+                        />
+                        <button
+                          type="button"
+                          disabled={isRendering}
+                          onClick={() => {
+                            const time = previewRef.current?.currentTime ?? 0;
+                            if (point === 'inPoint') {
+                              updateTrim(selected, time, selected.outPoint);
+                            } else {
+                              updateTrim(selected, selected.inPoint, time);
+                            }
+                          }}
+                          className="flex items-center gap-1 px-2 py-1.5 text-xs bg-gray-100 hover:bg-gray-200 rounded-lg whitespace-nowrap"
+                          title={`Set the ${point === 'inPoint' ? 'in' : 'out'} point to the current frame`}
+                        >
+                          <Scissors className="w-3.5 h-3.5" />
+                          Here
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="mt-6 flex items-center gap-3">
+            {isRendering ? (
+              <>
+                <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-2 bg-blue-600 transition-all"
+                    style={{ width: `${Math.min((renderProgress / Math.max(duration, 0.1)) * 100, 100)}%` }}
+                  />
+                </div>
+                <span className="text-sm text-gray-600">
+                  Rendering {formatSeconds(renderProgress)} of {formatSeconds(duration)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => abortRef.current?.abort()}
+                  className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={handleRender}
+                  disabled={clips.length === 0 || !canRender}
+                  className="flex items-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Film className="w-4 h-4" />
+                  Render sequence
+                </button>
+                <p className="text-xs text-gray-500">
+                  {canRender
+                    ? 'Rendering plays the clips in real time; keep this tab visible until it finishes.'
+                    : 'This browser cannot record video. Try a recent Chrome, Edge or Firefox.'}
+                </p>
+              </>
+            )}
+          </div>
+
+          {result && (
+            <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4 items-start">
+              <video src={result.url} controls className="w-full aspect-video bg-black rounded-lg" />
+              <div className="space-y-3">
+                <p className="text-sm text-gray-700">
+                  {formatSeconds(result.duration)} at {result.resolution},{' '}
+                  {(result.blob.size / (1024 * 1024)).toFixed(1)} MB
+                </p>
+                <a
+                  href={result.url}
+                  download={`sequence-${Date.now()}.${extension}`}
+                  className="flex items-center justify-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors text-sm"
+                >
+                  <Download className="w-4 h-4" />
+                  Download
+                </a>
+                {sequences && (
+                  <button
+                    type="button"
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors text-sm disabled:opacity-50"
+                  >
+                    <Save className="w-4 h-4" />
+                    {isSaving ? 'Saving...' : 'Save to library'}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </section>
+
+        {sequences && sequences.length > 0 && (
+          <section className="bg-white rounded-xl shadow-lg p-6">
+            <h2 className="text-sm font-semibold text-gray-700 mb-3">Saved sequences</h2>
+            <div className="divide-y divide-gray-100">
+              {sequences.map((sequence) => (
+                <div key={sequence.id} className="py-3 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-800 truncate">{sequence.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatSeconds(Number(sequence.duration))} · {sequence.resolution} · {sequence.clips.length}{' '}
+                      clip{sequence.clips.length === 1 ? '' : 's'} · {new Date(sequence.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  <a
+                    href={sequence.video_url}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="p-1 text-gray-400 hover:text-gray-700"
+                    title="Open the rendered file"
+                  >
+                    <Download className="w-4 h-4" />
+                  </a>
+                  <button
+                    type="button"
+                    onClick={() => handleDeleteSequence(sequence)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Delete sequence"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </main>
+
+      {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />}
+    </div>
+  );
+}
@@ -1,14 +1,42 @@
-import { useState, useEffect } from 'react';
-import { ArrowLeft, CheckCircle, XCircle, Database, Wifi, Code, Play, RefreshCw, Video, LogOut } from 'lucide-react';
-import { VideoService } from '../lib/video-service';
-import { supabase, VideoGeneration } from '../lib/supabase';
+import { useState, useEffect, useMemo } from 'react';
+import { ArrowLeft, CheckCircle, XCircle, Database, Wifi, Code, Play, RefreshCw, Video, LogOut, HardDrive, Search, Trash2, FlaskConical, Zap } from 'lucide-react';
+import { VideoService, StorageObjectRef } from '../lib/video-service';
+import { MockSoraServer, InjectedError, MOCK_SORA_BASE_URL, MOCK_FAIL_MARKER } from '../lib/mock-sora-server';
+import { VideoGeneration } from '../lib/supabase';
+import { PERSISTENCE_LABELS } from '../lib/persistence';
 
 interface TestPageProps {
   videoService: VideoService;
-  onNavigate: (page: 'generator' | 'test') => void;
+  onNavigate: (page: 'generator' | 'test' | 'compare' | 'sequence') => void;
   onLogout: () => void;
 }
 
+const ERROR_PRESETS: { label: string; error: InjectedError }[] = [
+  {
+    label: '429 rate limit (retried after 2s)',
+    error: { status: 429, type: 'requests', code: 'rate_limit_exceeded', message: 'Rate limit reached for requests', retryAfterSeconds: 2 },
+  },
+  {
+    label: '500 server error',
+    error: { status: 500, type: 'server_error', message: 'The server had an error while processing your request.', times: 5 },
+  },
+  {
+    label: '401 invalid API key',
+    error: { status: 401, type: 'invalid_request_error', code: 'invalid_api_key', message: 'Incorrect API key provided.' },
+  },
+  {
+    label: 'Moderation rejection on create',
+    error: {
+      method: 'POST',
+      path: /^\/videos$/,
+      status: 400,
+      type: 'invalid_request_error',
+      code: 'moderation_blocked',
+      message: 'Your request was rejected by the safety system.',
+    },
+  },
+];
+
 interface TestResult {
   name: string;
   status: 'idle' | 'running' | 'success' | 'error';
@@ -17,9 +45,12 @@ interface TestResult {
 }
 
 export function TestPage({ videoService, onNavigate, onLogout }: TestPageProps) {
+  const persistence = videoService.getPersistence();
+  const backendLabel = PERSISTENCE_LABELS[persistence.repository.backend];
+
   const [tests, setTests] = useState<TestResult[]>([
     { name: 'OpenAI API Connection', status: 'idle' },
-    { name: 'Supabase Database Connection', status: 'idle' },
+    { name: `${backendLabel} Database Connection`, status: 'idle' },
     { name: 'Database Schema Validation', status: 'idle' },
     { name: 'Test Video Generation (Minimal)', status: 'idle' },
   ]);
@@ -28,6 +59,24 @@ export function TestPage({ videoService, onNavigate, onLogout }: TestPageProps)
   const [recentVideos, setRecentVideos] = useState<VideoGeneration[]>([]);
   const [loadingVideos, setLoadingVideos] = useState(true);
   const [refreshingVideo, setRefreshingVideo] = useState<string | null>(null);
+  const [orphans, setOrphans] = useState<StorageObjectRef[] | null>(null);
+  const [scanningOrphans, setScanningOrphans] = useState(false);
+  const [purgingOrphans, setPurgingOrphans] = useState(false);
+  const [mockMode, setMockMode] = useState(false);
+  const [mockServer] = useState(() => new MockSoraServer());
+  const [errorPreset, setErrorPreset] = useState(0);
+
+  // Shares persistence with the real service; only the OpenAI side is simulated
+  const mockService = useMemo(
+    () =>
+      new VideoService('mock-api-key', {
+        baseUrl: MOCK_SORA_BASE_URL,
+        transport: mockServer.fetch,
+        persistence,
+      }),
+    [mockServer, persistence]
+  );
+  const activeService = mockMode ? mockService : videoService;
 
   useEffect(() => {
     loadRecentVideos();
@@ -59,7 +108,7 @@ export function TestPage({ videoService, onNavigate, onLogout }: TestPageProps)
 
   const testOpenAIConnection = async () => {
     addLog('Testing OpenAI API connection...');
-    const result = await videoService.getSoraAPI().testConnection();
+    const result = await activeService.getSoraAPI().testConnection();
     addLog(`API response: ${result.message}`);
 
     if (!result.success) {
@@ -69,29 +118,27 @@ export function TestPage({ videoService, onNavigate, onLogout }: TestPageProps)
     addLog('OpenAI API connection successful');
   };
 
-  const testSupabaseConnection = async () => {
-    addLog('Testing Supabase database connection...');
-    const { error } = await supabase.from('video_generations').select('count').limit(1);
+  const testDatabaseConnection = async () => {
+    addLog(`Testing ${backendLabel} database connection...`);
 
-    if (error) {
-      addLog(`Supabase error: ${error.message}`);
-      throw new Error(error.message);
+    try {
+      await persistence.repository.checkConnection();
+    } catch (error) {
+      addLog(`${backendLabel} error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw error;
     }
 
-    addLog('Supabase database connection successful');
+    addLog(`${backendLabel} database connection successful`);
   };
 
   const testDatabaseSchema = async () => {
     addLog('Validating database schema...');
 
-    const { error } = await supabase
-      .from('video_generations')
-      .select('*')
-      .limit(1);
-
-    if (error) {
-      addLog(`Schema validation error: ${error.message}`);
-      throw new Error(error.message);
+    try {
+      await persistence.repository.list(1);
+    } catch (error) {
+      addLog(`Schema validation error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw error;
     }
 
     addLog('Database schema validated successfully');
@@ -103,7 +150,7 @@ export function TestPage({ videoService, onNavigate, onLogout }: TestPageProps)
     addLog('Parameters: prompt="Test video", model=sora-2, resolution=1280x720, duration=4s');
 
     try {
-      const generation = await videoService.createVideoGeneration({
+      const generation = await activeService.createVideoGeneration({
         prompt: 'A simple test video with a rotating cube',
         model: 'sora-2',
         resolution: '1280x720',
@@ -127,7 +174,7 @@ export function TestPage({ videoService, onNavigate, onLogout }: TestPageProps)
     await runTest(0, testOpenAIConnection);
     await new Promise((resolve) => setTimeout(resolve, 500));
 
-    await runTest(1, testSupabaseConnection);
+    await runTest(1, testDatabaseConnection);
     await new Promise((resolve) => setTimeout(resolve, 500));
 
     await runTest(2, testDatabaseSchema);
@@ -138,6 +185,22 @@ export function TestPage({ videoService, onNavigate, onLogout }: TestPageProps)
     addLog('All tests completed');
   };
 
+  const toggleMockMode = () => {
+    const enabled = !mockMode;
+    setMockMode(enabled);
+    addLog(
+      enabled
+        ? `Mock mode enabled: OpenAI calls go to the in-browser mock server (${MOCK_SORA_BASE_URL})`
+        : 'Mock mode disabled: OpenAI calls go to the real API'
+    );
+  };
+
+  const injectError = () => {
+    const preset = ERROR_PRESETS[errorPreset];
+    mockServer.injectError(preset.error);
+    addLog(`Injected mock error: ${preset.label}`);
+  };
+
   const clearLogs = () => {
     setLogs([]);
   };
@@ -145,7 +208,7 @@ export function TestPage({ videoService, onNavigate, onLogout }: TestPageProps)
   const loadRecentVideos = async () => {
     try {
       setLoadingVideos(true);
-      const videos = await videoService.listVideoGenerations(10);
+      const videos = await activeService.listVideoGenerations(10);
       setRecentVideos(videos);
       addLog(`Loaded ${videos.length} recent video generations`);
     } catch (error) {
@@ -160,7 +223,7 @@ export function TestPage({ videoService, onNavigate, onLogout }: TestPageProps)
       setRefreshingVideo(videoId);
       addLog(`\n=== Refreshing status for video ${videoId} ===`);
 
-      const updated = await videoService.checkVideoStatus(videoId);
+      const updated = await activeService.checkVideoStatus(videoId);
 
       addLog(`Current status: ${updated.status}`);
       addLog(`OpenAI Job ID: ${updated.openai_job_id || 'none'}`);
@@ -182,6 +245,41 @@ export function TestPage({ videoService, onNavigate, onLogout }: TestPageProps)
     }
   };
 
+  const scanForOrphans = async () => {
+    try {
+      setScanningOrphans(true);
+      addLog('Scanning storage buckets for objects without a matching generation...');
+      const found = await activeService.findOrphanedStorageObjects();
+      setOrphans(found);
+      addLog(`Found ${found.length} orphaned storage objects`);
+      found.forEach((orphan) => addLog(`  ${orphan.bucket}/${orphan.path}`));
+    } catch (error) {
+      addLog(`Error scanning storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setScanningOrphans(false);
+    }
+  };
+
+  const purgeOrphans = async () => {
+    if (!orphans || orphans.length === 0) return;
+    if (!confirm(`Permanently delete ${orphans.length} orphaned storage objects?`)) {
+      return;
+    }
+
+    try {
+      setPurgingOrphans(true);
+      addLog(`Purging ${orphans.length} orphaned storage objects...`);
+      const result = await activeService.purgeOrphanedStorageObjects(orphans);
+      addLog(`Removed ${result.removed} objects`);
+      result.failures.forEach((failure) => addLog(`Purge error: ${failure}`));
+      setOrphans(result.failures.length > 0 ? orphans : []);
+    } catch (error) {
+      addLog(`Error purging storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setPurgingOrphans(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-50">
       <nav className="bg-white border-b border-gray-200 shadow-sm">
@@ -217,15 +315,59 @@ export function TestPage({ videoService, onNavigate, onLogout }: TestPageProps)
           <div className="bg-white rounded-xl shadow-lg p-6">
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-xl font-semibold text-gray-800">Test Suite</h2>
-              <button
-                onClick={runAllTests}
-                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
-              >
-                <Play className="w-4 h-4" />
-                Run All Tests
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={toggleMockMode}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                    mockMode
+                      ? 'bg-purple-600 hover:bg-purple-700 text-white'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                  }`}
+                  title="Run the suite against an in-browser mock of the Sora API"
+                >
+                  <FlaskConical className="w-4 h-4" />
+                  Mock {mockMode ? 'On' : 'Off'}
+                </button>
+                <button
+                  onClick={runAllTests}
+                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                >
+                  <Play className="w-4 h-4" />
+                  Run All Tests
+                </button>
+              </div>
             </div>
 
+            {mockMode && (
+              <div className="mb-6 p-4 bg-purple-50 border border-purple-100 rounded-lg space-y-3">
+                <p className="text-xs text-purple-800">
+                  OpenAI requests are answered locally; no credits are spent. Jobs complete after a few seconds with a
+                  sample clip. Include <code className="font-mono">{MOCK_FAIL_MARKER}</code> in a prompt to simulate a
+                  failed job.
+                </p>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={errorPreset}
+                    onChange={(e) => setErrorPreset(Number(e.target.value))}
+                    className="flex-1 px-3 py-2 text-sm border border-purple-200 rounded-lg bg-white"
+                  >
+                    {ERROR_PRESETS.map((preset, index) => (
+                      <option key={preset.label} value={index}>
+                        {preset.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={injectError}
+                    className="flex items-center gap-1.5 px-3 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
+                  >
+                    <Zap className="w-4 h-4" />
+                    Inject
+                  </button>
+                </div>
+              </div>
+            )}
+
             <div className="space-y-4">
               {tests.map((test, index) => (
                 <div
@@ -264,7 +406,7 @@ export function TestPage({ videoService, onNavigate, onLogout }: TestPageProps)
                     <button
                       onClick={() => {
                         if (index === 0) runTest(0, testOpenAIConnection);
-                        if (index === 1) runTest(1, testSupabaseConnection);
+                        if (index === 1) runTest(1, testDatabaseConnection);
                         if (index === 2) runTest(2, testDatabaseSchema);
                         if (index === 3) runTest(3, testVideoGeneration);
                       }}
@@ -328,7 +470,7 @@ export function TestPage({ videoService, onNavigate, onLogout }: TestPageProps)
               <h3 className="font-semibold text-gray-800">Database</h3>
             </div>
             <p className="text-sm text-gray-600">
-              Verify Supabase connection and validate database schema structure
+              Verify the {backendLabel} connection and validate database schema structure
             </p>
           </div>
 
@@ -345,6 +487,54 @@ export function TestPage({ videoService, onNavigate, onLogout }: TestPageProps)
           </div>
         </div>
 
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-3">
+              <HardDrive className="w-6 h-6 text-gray-700" />
+              <h2 className="text-xl font-semibold text-gray-800">Storage Maintenance</h2>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={scanForOrphans}
+                disabled={scanningOrphans || purgingOrphans}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Search className={`w-4 h-4 ${scanningOrphans ? 'animate-pulse' : ''}`} />
+                {scanningOrphans ? 'Scanning...' : 'Find Orphans'}
+              </button>
+              <button
+                onClick={purgeOrphans}
+                disabled={!orphans || orphans.length === 0 || scanningOrphans || purgingOrphans}
+                className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+                {purgingOrphans ? 'Purging...' : `Purge${orphans && orphans.length > 0 ? ` ${orphans.length}` : ''}`}
+              </button>
+            </div>
+          </div>
+          <p className="text-sm text-gray-600">
+            Finds files in the <code className="font-mono text-xs">video_files</code> and{' '}
+            <code className="font-mono text-xs">image_files</code> buckets that no video generation references any
+            more and removes them.
+          </p>
+          {orphans && (
+            orphans.length === 0 ? (
+              <p className="mt-4 text-sm text-green-600 flex items-center gap-2">
+                <CheckCircle className="w-4 h-4" />
+                No orphaned storage objects
+              </p>
+            ) : (
+              <div className="mt-4 max-h-48 overflow-y-auto bg-gray-50 rounded-lg p-3 font-mono text-xs text-gray-700 space-y-1">
+                {orphans.map((orphan) => (
+                  <div key={`${orphan.bucket}/${orphan.path}`}>
+                    {orphan.bucket}/{orphan.path}
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+        </div>
+
         <div className="bg-white rounded-xl shadow-lg p-6">
           <div className="flex items-center justify-between mb-6">
             <div className="flex items-center gap-3">
@@ -412,7 +602,10 @@ export function TestPage({ videoService, onNavigate, onLogout }: TestPageProps)
                         )}
                         {video.error_message && (
                           <div className="text-xs text-red-600 mt-2 bg-red-50 p-2 rounded">
-                            Error: {video.error_message}
+                            Error{video.error_category && ` (${video.error_category})`}: {video.error_message}
+                            {video.error_request_id && (
+                              <div className="font-mono text-red-400 mt-1">Request ID: {video.error_request_id}</div>
+                            )}
                           </div>
                         )}
                       </div>
@@ -432,6 +625,7 @@ export function TestPage({ videoService, onNavigate, onLogout }: TestPageProps)
                           <video
                             src={video.video_url}
                             controls
+                            poster={video.thumbnail_url || undefined}
                             className="w-full rounded-lg bg-black"
                           >
                             Your browser does not support the video tag.
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_PERSISTENCE_BACKEND?: 'supabase' | 'indexeddb';
+  readonly VITE_OPENAI_API_BASE_URL?: string;
+  readonly VITE_SORA_MOCK?: string;
+  readonly VITE_SORA_PROXY_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
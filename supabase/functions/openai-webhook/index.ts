@@ -0,0 +1,357 @@
+// Receives OpenAI `video.completed` / `video.failed` webhooks so finished
+// videos are stored even when no browser tab is open to poll for them.
+//
+// Required secrets: OPENAI_WEBHOOK_SECRET (whsec_...) and OPENAI_API_KEY.
+// SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are provided by the runtime.
+// Deploy with --no-verify-jwt: OpenAI can't send a Supabase JWT, requests are
+// authenticated by their webhook signature instead.
+
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+type ContentVariant = 'video' | 'thumbnail' | 'spritesheet';
+
+interface WebhookEvent {
+  id: string;
+  type: string;
+  created_at: number;
+  data: { id: string };
+}
+
+interface OpenAIVideo {
+  id: string;
+  status: string;
+  seconds?: string;
+  error?: { message?: string; type?: string; code?: string | null };
+}
+
+interface VideoGenerationRow {
+  id: string;
+  status: string;
+  model: string;
+  resolution: string;
+  duration: number;
+  cost: number | null;
+  openai_job_id: string | null;
+  video_url: string | null;
+  thumbnail_url: string | null;
+  spritesheet_url: string | null;
+}
+
+// Same file layout as VideoService.storeContentVariant so the browser and the
+// webhook overwrite each other's uploads instead of duplicating them
+const CONTENT_VARIANT_FILES: Record<ContentVariant, { suffix: string; contentType: string }> = {
+  video: { suffix: '.mp4', contentType: 'video/mp4' },
+  thumbnail: { suffix: '_thumbnail.webp', contentType: 'image/webp' },
+  spritesheet: { suffix: '_spritesheet.jpg', contentType: 'image/jpeg' },
+};
+
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const OPENAI_API_BASE = (Deno.env.get('OPENAI_API_BASE_URL') || 'https://api.openai.com/v1').replace(/\/+$/, '');
+
+class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+Deno.serve(async (request) => {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const webhookSecret = Deno.env.get('OPENAI_WEBHOOK_SECRET');
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!webhookSecret || !apiKey || !supabaseUrl || !serviceRoleKey) {
+    console.error('[openai-webhook] Missing OPENAI_WEBHOOK_SECRET, OPENAI_API_KEY or Supabase credentials');
+    return json({ error: 'Webhook receiver is not configured' }, 500);
+  }
+
+  const body = await request.text();
+
+  try {
+    await verifySignature(webhookSecret, request.headers, body);
+  } catch (error) {
+    if (error instanceof WebhookVerificationError) {
+      console.warn(`[openai-webhook] Rejected request: ${error.message}`);
+      return json({ error: error.message }, 400);
+    }
+    throw error;
+  }
+
+  const event: WebhookEvent = JSON.parse(body);
+  if (event.type !== 'video.completed' && event.type !== 'video.failed') {
+    console.log(`[openai-webhook] Ignoring ${event.type} event ${event.id}`);
+    return json({ received: true });
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  try {
+    // Frees the job's slot in the sora-proxy limits even if no tab ever polls it
+    await markProxyJobFinished(supabase, event.data.id);
+    const result = await handleVideoEvent(supabase, apiKey, event);
+    console.log(`[openai-webhook] ${event.type} for ${event.data.id}: ${result}`);
+    return json({ received: true, result });
+  } catch (error) {
+    // A non-2xx response makes OpenAI retry the delivery later
+    console.error(`[openai-webhook] Failed to handle ${event.type} event ${event.id}:`, error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
+
+// Mirrors the completed/failed branches of VideoService.checkVideoStatus.
+// Deliveries can repeat and the browser poller may get there first, so every
+// step checks what is already stored before doing any work.
+async function handleVideoEvent(supabase: SupabaseClient, apiKey: string, event: WebhookEvent): Promise<string> {
+  const videoId = event.data.id;
+
+  const { data: generation, error } = await supabase
+    .from('video_generations')
+    .select('id, status, model, resolution, duration, cost, openai_job_id, video_url, thumbnail_url, spritesheet_url')
+    .eq('openai_job_id', videoId)
+    .maybeSingle<VideoGenerationRow>();
+
+  if (error) {
+    throw new Error(`Failed to fetch generation: ${error.message}`);
+  }
+  if (!generation) {
+    // Not created through this app; acknowledge so OpenAI stops retrying
+    return 'no matching generation';
+  }
+
+  // The browser may have stored the result first, but only the webhook can be
+  // relied on to close the reservation, so it is still closed here
+  if (generation.status === 'completed' && generation.video_url && generation.thumbnail_url && generation.spritesheet_url) {
+    await closeCreditReservation(supabase, generation.id, 'completed');
+    return 'already stored';
+  }
+
+  const video = await openAIRequest<OpenAIVideo>(apiKey, `/videos/${videoId}`);
+  const updates: Record<string, unknown> = { metadata: video };
+
+  if (event.type === 'video.failed' || video.status === 'failed') {
+    if (generation.status === 'failed') {
+      await closeCreditReservation(supabase, generation.id, 'failed');
+      return 'already failed';
+    }
+    Object.assign(updates, {
+      status: 'failed',
+      error_message: video.error?.message || 'Video generation failed',
+      error_type: video.error?.type || null,
+      error_code: video.error?.code || null,
+      error_category: categorizeJobError(video.error),
+      error_retryable: false,
+      // Failed jobs aren't billed
+      cost: 0,
+    });
+  } else {
+    const [videoUrl, thumbnailUrl, spritesheetUrl] = await Promise.all([
+      generation.video_url || storeContentVariant(supabase, apiKey, videoId, generation.id, 'video'),
+      generation.thumbnail_url || storePreview(supabase, apiKey, videoId, generation.id, 'thumbnail'),
+      generation.spritesheet_url || storePreview(supabase, apiKey, videoId, generation.id, 'spritesheet'),
+    ]);
+
+    Object.assign(updates, {
+      status: 'completed',
+      video_url: videoUrl,
+      thumbnail_url: thumbnailUrl,
+      spritesheet_url: spritesheetUrl,
+    });
+
+    if (generation.cost === null) {
+      updates.cost = await renderCost(supabase, generation, Number(video.seconds) || generation.duration);
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('video_generations')
+    .update(updates)
+    .eq('id', generation.id);
+
+  if (updateError) {
+    throw new Error(`Failed to update generation: ${updateError.message}`);
+  }
+
+  await closeCreditReservation(supabase, generation.id, updates.status as 'completed' | 'failed');
+
+  return `marked ${updates.status}`;
+}
+
+// Settles or refunds the owner's credit reservation; a no-op if the browser
+// already did
+async function closeCreditReservation(
+  supabase: SupabaseClient,
+  generationId: string,
+  status: 'completed' | 'failed'
+): Promise<void> {
+  const ledgerFunction = status === 'completed' ? 'settle_generation_credits' : 'refund_generation_credits';
+  const { error } = await supabase.rpc(ledgerFunction, { p_generation_id: generationId });
+  if (error) {
+    throw new Error(`Failed to ${status === 'completed' ? 'settle' : 'refund'} credits: ${error.message}`);
+  }
+}
+
+// Jobs not created through the sora-proxy have no row, so this is then a no-op
+async function markProxyJobFinished(supabase: SupabaseClient, videoId: string): Promise<void> {
+  const { error } = await supabase
+    .from('sora_proxy_jobs')
+    .update({ finished_at: new Date().toISOString() })
+    .eq('openai_job_id', videoId)
+    .is('finished_at', null);
+
+  if (error) {
+    console.warn(`[openai-webhook] Failed to mark proxy job ${videoId} finished:`, error);
+  }
+}
+
+// Same calculation as PricingModel.estimate; null when no price is configured
+async function renderCost(
+  supabase: SupabaseClient,
+  generation: VideoGenerationRow,
+  seconds: number
+): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('pricing_config')
+    .select('price_per_second')
+    .eq('model', generation.model)
+    .eq('resolution', generation.resolution)
+    .maybeSingle<{ price_per_second: number }>();
+
+  if (error || !data) {
+    console.warn(`[openai-webhook] No price for ${generation.model} at ${generation.resolution}`, error || '');
+    return null;
+  }
+
+  return Math.round(Number(data.price_per_second) * seconds * 10000) / 10000;
+}
+
+// Previews are nice-to-have, same as in the browser: log and move on
+async function storePreview(
+  supabase: SupabaseClient,
+  apiKey: string,
+  videoId: string,
+  generationId: string,
+  variant: 'thumbnail' | 'spritesheet'
+): Promise<string | null> {
+  try {
+    return await storeContentVariant(supabase, apiKey, videoId, generationId, variant);
+  } catch (error) {
+    console.warn(`[openai-webhook] Failed to store ${variant} for video ${videoId}:`, error);
+    return null;
+  }
+}
+
+async function storeContentVariant(
+  supabase: SupabaseClient,
+  apiKey: string,
+  videoId: string,
+  generationId: string,
+  variant: ContentVariant
+): Promise<string> {
+  const query = variant === 'video' ? '' : `?variant=${variant}`;
+  const response = await fetch(`${OPENAI_API_BASE}/videos/${videoId}/content${query}`, {
+    headers: { Authorization: `Bearer ${apiKey}` },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to download ${variant}: ${response.status}`);
+  }
+
+  const { suffix, contentType } = CONTENT_VARIANT_FILES[variant];
+  const path = `${generationId}/${videoId}${suffix}`;
+  const { error } = await supabase.storage
+    .from('video_files')
+    .upload(path, await response.blob(), { contentType, upsert: true });
+
+  if (error) {
+    throw new Error(`Failed to upload ${variant} to Supabase Storage: ${error.message}`);
+  }
+
+  return supabase.storage.from('video_files').getPublicUrl(path).data.publicUrl;
+}
+
+async function openAIRequest<T>(apiKey: string, path: string): Promise<T> {
+  const response = await fetch(`${OPENAI_API_BASE}${path}`, {
+    headers: { Authorization: `Bearer ${apiKey}` },
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body?.error?.message || `OpenAI request failed: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+// Job errors have no HTTP status, so only the type/code rules of
+// createSoraError in src/lib/sora-errors.ts apply
+function categorizeJobError(error: OpenAIVideo['error']): string {
+  const type = error?.type || '';
+  const code = error?.code || '';
+
+  if (/moderation|content_policy|safety/i.test(`${type} ${code}`)) return 'moderation';
+  if (type === 'authentication_error' || code === 'invalid_api_key') return 'authentication';
+  if (type === 'permission_error') return 'permission';
+  if (code === 'insufficient_quota' || code === 'billing_hard_limit_reached') return 'quota';
+  if (code === 'rate_limit_exceeded') return 'rate_limit';
+  if (type === 'invalid_request_error') return 'invalid_request';
+  if (type === 'server_error') return 'server';
+  return 'unknown';
+}
+
+// Standard Webhooks scheme used by OpenAI: base64 HMAC-SHA256 of
+// "<webhook-id>.<webhook-timestamp>.<body>" keyed with the decoded whsec_ secret
+async function verifySignature(secret: string, headers: Headers, body: string): Promise<void> {
+  const id = headers.get('webhook-id');
+  const timestamp = headers.get('webhook-timestamp');
+  const signatures = headers.get('webhook-signature');
+
+  if (!id || !timestamp || !signatures) {
+    throw new WebhookVerificationError('Missing webhook signature headers');
+  }
+
+  const sentAt = Number(timestamp);
+  if (Number.isNaN(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new WebhookVerificationError('Webhook timestamp is outside the allowed tolerance');
+  }
+
+  const keyBytes = Uint8Array.from(atob(secret.replace(/^whsec_/, '')), (char) => char.charCodeAt(0));
+  const key = await crypto.subtle.importKey('raw', keyBytes, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${id}.${timestamp}.${body}`));
+  const expected = btoa(String.fromCharCode(...new Uint8Array(mac)));
+
+  // The header may carry several space-separated signatures during secret rotation
+  const matches = signatures.split(' ').some((entry) => {
+    const [version, signature] = entry.split(',');
+    return version === 'v1' && signature !== undefined && timingSafeEqual(signature, expected);
+  });
+
+  if (!matches) {
+    throw new WebhookVerificationError('Invalid webhook signature');
+  }
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,338 @@
+// Forwards the Sora `/videos` endpoints to OpenAI with the organization's API
+// key, so browsers in a shared deployment never hold it. Callers authenticate
+// with their Supabase access token. Each user can only reach jobs the proxy
+// created for them and is held to the per-user limits below.
+//
+// Required secret: OPENAI_API_KEY. Optional: SORA_PROXY_MAX_ACTIVE_JOBS
+// (default 3), SORA_PROXY_DAILY_JOB_LIMIT (default 20) and
+// SORA_PROXY_ALLOWED_ORIGIN (default *). SUPABASE_URL and
+// SUPABASE_SERVICE_ROLE_KEY are provided by the runtime.
+
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+interface OpenAIVideo {
+  id: string;
+  status: string;
+  model?: string;
+}
+
+const OPENAI_API_BASE = (Deno.env.get('OPENAI_API_BASE_URL') || 'https://api.openai.com/v1').replace(/\/+$/, '');
+
+const MAX_ACTIVE_JOBS = positiveInteger(Deno.env.get('SORA_PROXY_MAX_ACTIVE_JOBS'), 3);
+const DAILY_JOB_LIMIT = positiveInteger(Deno.env.get('SORA_PROXY_DAILY_JOB_LIMIT'), 20);
+// A job the proxy never saw finish stops counting as active after this long
+const ACTIVE_JOB_WINDOW_MS = 60 * 60 * 1000;
+
+const CORS_HEADERS: Record<string, string> = {
+  'Access-Control-Allow-Origin': Deno.env.get('SORA_PROXY_ALLOWED_ORIGIN') || '*',
+  'Access-Control-Allow-Headers': 'authorization, content-type, apikey, x-client-info',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Expose-Headers': 'retry-after, retry-after-ms, x-request-id',
+};
+
+// RequestScheduler reads the retry hints and SoraAPIError the request id
+const RELAYED_RESPONSE_HEADERS = ['content-type', 'retry-after', 'retry-after-ms', 'x-request-id'];
+
+// Rejections are shaped like OpenAI errors so SoraAPIError categorizes them
+class ProxyError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly code: string,
+    readonly type: string = 'invalid_request_error'
+  ) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') {
+    return new Response(null, { headers: CORS_HEADERS });
+  }
+
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!apiKey || !supabaseUrl || !serviceRoleKey) {
+    console.error('[sora-proxy] Missing OPENAI_API_KEY or Supabase credentials');
+    return errorResponse(new ProxyError(500, 'Sora proxy is not configured', 'proxy_not_configured', 'server_error'));
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  try {
+    const userId = await authenticate(supabase, request);
+    return await route(supabase, apiKey, userId, request);
+  } catch (error) {
+    if (error instanceof ProxyError) {
+      return errorResponse(error);
+    }
+    console.error(`[sora-proxy] ${request.method} ${request.url} failed:`, error);
+    return errorResponse(
+      new ProxyError(502, error instanceof Error ? error.message : 'Unknown error', 'proxy_error', 'server_error')
+    );
+  }
+});
+
+async function authenticate(supabase: SupabaseClient, request: Request): Promise<string> {
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    throw new ProxyError(401, 'Sign in to use the Sora proxy', 'missing_session', 'authentication_error');
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    throw new ProxyError(401, 'Your session has expired. Sign in again.', 'invalid_session', 'authentication_error');
+  }
+
+  return data.user.id;
+}
+
+// Only the endpoints SoraAPI uses are let through
+async function route(
+  supabase: SupabaseClient,
+  apiKey: string,
+  userId: string,
+  request: Request
+): Promise<Response> {
+  const url = new URL(request.url);
+  // The function is mounted at .../sora-proxy; everything after it is the OpenAI path
+  const path = url.pathname.replace(/^.*\/sora-proxy/, '') || '/';
+  const method = request.method;
+
+  if (path === '/models' && method === 'GET') {
+    return relay(await forward(apiKey, request, path));
+  }
+
+  if (path === '/videos') {
+    if (method === 'POST') {
+      return createJob(supabase, apiKey, userId, request, path);
+    }
+    if (method === 'GET') {
+      return listJobs(supabase, apiKey, userId, request, `${path}${url.search}`);
+    }
+  }
+
+  const match = path.match(/^\/videos\/([^/]+)(\/content|\/remix)?$/);
+  if (match) {
+    const [, videoId, action] = match;
+    await assertOwner(supabase, userId, videoId);
+
+    if (!action && method === 'GET') {
+      return getJob(supabase, apiKey, request, videoId, path);
+    }
+    if (!action && method === 'DELETE') {
+      const response = await forward(apiKey, request, path);
+      if (response.ok || response.status === 404) {
+        await markFinished(supabase, [videoId]);
+      }
+      return relay(response);
+    }
+    if (action === '/content' && method === 'GET') {
+      return relay(await forward(apiKey, request, `${path}${url.search}`));
+    }
+    if (action === '/remix' && method === 'POST') {
+      return createJob(supabase, apiKey, userId, request, path);
+    }
+  }
+
+  throw new ProxyError(404, `${method} ${path} is not available through the Sora proxy`, 'unsupported_endpoint');
+}
+
+// Creates and remixes both start a new job, so both count against the limits
+async function createJob(
+  supabase: SupabaseClient,
+  apiKey: string,
+  userId: string,
+  request: Request,
+  path: string
+): Promise<Response> {
+  const placeholderId = await reserveJob(supabase, userId);
+
+  let response: Response;
+  let body: string;
+  try {
+    response = await forward(apiKey, request, path, await request.arrayBuffer());
+    body = await response.text();
+  } catch (error) {
+    await releaseJob(supabase, placeholderId);
+    throw error;
+  }
+
+  if (!response.ok) {
+    await releaseJob(supabase, placeholderId);
+    return relay(response, body);
+  }
+
+  const video: OpenAIVideo = JSON.parse(body);
+  const { error } = await supabase
+    .from('sora_proxy_jobs')
+    .update({ openai_job_id: video.id, model: video.model ?? null })
+    .eq('openai_job_id', placeholderId);
+
+  if (error) {
+    // The job exists on OpenAI either way; without the row the user can't reach it
+    console.error(`[sora-proxy] Failed to record job ${video.id} for ${userId}:`, error);
+  } else {
+    console.log(`[sora-proxy] Created job ${video.id} for ${userId}`);
+  }
+
+  return relay(response, body);
+}
+
+async function getJob(
+  supabase: SupabaseClient,
+  apiKey: string,
+  request: Request,
+  videoId: string,
+  path: string
+): Promise<Response> {
+  const response = await forward(apiKey, request, path);
+  const body = await response.text();
+
+  if (response.ok) {
+    const video: OpenAIVideo = JSON.parse(body);
+    if (isFinished(video)) {
+      await markFinished(supabase, [videoId]);
+    }
+  }
+
+  return relay(response, body);
+}
+
+// OpenAI lists every job on the key, so only the caller's are passed back
+async function listJobs(
+  supabase: SupabaseClient,
+  apiKey: string,
+  userId: string,
+  request: Request,
+  path: string
+): Promise<Response> {
+  const response = await forward(apiKey, request, path);
+  if (!response.ok) {
+    return relay(response);
+  }
+
+  const list: { data: OpenAIVideo[] } = await response.json();
+  const ids = list.data.map((video) => video.id);
+  const { data, error } = await supabase
+    .from('sora_proxy_jobs')
+    .select('openai_job_id')
+    .eq('user_id', userId)
+    .in('openai_job_id', ids);
+
+  if (error) {
+    throw new Error(`Failed to look up video owners: ${error.message}`);
+  }
+
+  const owned = new Set((data || []).map((row) => row.openai_job_id));
+  const videos = list.data.filter((video) => owned.has(video.id));
+
+  const finishedIds = videos.filter(isFinished).map((video) => video.id);
+  if (finishedIds.length > 0) {
+    await markFinished(supabase, finishedIds);
+  }
+
+  return relay(response, JSON.stringify({ ...list, data: videos }));
+}
+
+// Counts the user's jobs and takes a slot in one database call, so
+// concurrent requests can't all pass the limits
+async function reserveJob(supabase: SupabaseClient, userId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('reserve_sora_proxy_job', {
+    p_user_id: userId,
+    p_max_active: MAX_ACTIVE_JOBS,
+    p_daily_limit: DAILY_JOB_LIMIT,
+    p_active_window: `${ACTIVE_JOB_WINDOW_MS / 1000} seconds`,
+  });
+
+  if (error) {
+    if (error.hint === 'user_limit_exceeded') {
+      throw new ProxyError(403, error.message, 'user_limit_exceeded');
+    }
+    throw new Error(`Failed to check usage limits: ${error.message}`);
+  }
+
+  return data as string;
+}
+
+// Gives the slot back when OpenAI did not create the job
+async function releaseJob(supabase: SupabaseClient, placeholderId: string): Promise<void> {
+  const { error } = await supabase.from('sora_proxy_jobs').delete().eq('openai_job_id', placeholderId);
+
+  if (error) {
+    console.warn(`[sora-proxy] Failed to release job slot ${placeholderId}:`, error);
+  }
+}
+
+async function assertOwner(supabase: SupabaseClient, userId: string, videoId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('sora_proxy_jobs')
+    .select('openai_job_id')
+    .eq('openai_job_id', videoId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up video owner: ${error.message}`);
+  }
+  if (!data) {
+    // Same answer as for a job that doesn't exist, so ids can't be probed
+    throw new ProxyError(404, `No video found with id '${videoId}'`, 'video_not_found');
+  }
+}
+
+function isFinished(video: OpenAIVideo): boolean {
+  return video.status === 'completed' || video.status === 'failed';
+}
+
+// The openai-webhook function does the same when OpenAI reports the outcome,
+// so jobs nobody polls don't hold a slot for the whole active window
+async function markFinished(supabase: SupabaseClient, videoIds: string[]): Promise<void> {
+  const { error } = await supabase
+    .from('sora_proxy_jobs')
+    .update({ finished_at: new Date().toISOString() })
+    .in('openai_job_id', videoIds)
+    .is('finished_at', null);
+
+  if (error) {
+    console.warn(`[sora-proxy] Failed to mark ${videoIds.join(', ')} finished:`, error);
+  }
+}
+
+function forward(apiKey: string, request: Request, path: string, body?: ArrayBuffer): Promise<Response> {
+  const headers: Record<string, string> = { Authorization: `Bearer ${apiKey}` };
+  const contentType = request.headers.get('content-type');
+  // Multipart uploads carry their boundary in the content type, so it is passed through as is
+  if (contentType && body) {
+    headers['Content-Type'] = contentType;
+  }
+
+  return fetch(`${OPENAI_API_BASE}${path}`, { method: request.method, headers, body });
+}
+
+function relay(response: Response, body?: string): Response {
+  const headers = new Headers(CORS_HEADERS);
+  RELAYED_RESPONSE_HEADERS.forEach((name) => {
+    const value = response.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+
+  return new Response(body ?? response.body, { status: response.status, headers });
+}
+
+function errorResponse(error: ProxyError): Response {
+  return new Response(
+    JSON.stringify({ error: { message: error.message, type: error.type, code: error.code } }),
+    { status: error.status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } }
+  );
+}
+
+function positiveInteger(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
@@ -0,0 +1,156 @@
+/*
+  # Create User Accounts and Transactions
+
+  ## Overview
+  `20251120213717_optimize_rls_policies_and_security.sql` rewrites policies,
+  indexes and the `handle_new_user` trigger function for `user_profiles`,
+  `accounts`, `transactions` and `video_generations.user_id`, but no migration
+  ever created them. This migration creates whatever of that schema is
+  missing and wires up the trigger, so the credit ledger can rely on it.
+
+  ## Changes
+
+  ### New Tables
+
+  #### `user_profiles`
+  - `id` (uuid, primary key) - Same as `auth.users.id`
+  - `email` (text)
+  - `email_verified` (boolean)
+  - `created_at` / `updated_at` (timestamptz)
+
+  #### `accounts`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid, unique) - Owner, references `auth.users`
+  - `balance` (numeric) - Available credits in USD
+  - `created_at` / `updated_at` (timestamptz)
+
+  #### `transactions`
+  - `id` (uuid, primary key)
+  - `account_id` (uuid) - References `accounts`
+  - `user_id` (uuid) - Denormalized owner for RLS
+  - `video_generation_id` (uuid, nullable) - Generation the movement belongs to
+  - `type` (text) - credit, reservation, settlement, refund or adjustment
+  - `amount` (numeric) - Signed change to the balance; negative takes credits away
+  - `balance_after` (numeric) - Balance once this movement was applied
+  - `description` (text, nullable)
+  - `created_at` (timestamptz)
+
+  ### Modified Tables
+
+  #### `video_generations`
+  - `user_id` (uuid, nullable) - Owner of the generation, references `auth.users`
+
+  ### Triggers
+  - `on_auth_user_created` on `auth.users` runs `handle_new_user()`, which
+    creates a profile and a zero-balance account for every new user
+
+  ### Functions
+  - `handle_new_user()` - Same as the hardened version in
+    `20251120213717_optimize_rls_policies_and_security.sql`, so running this
+    migration afterwards does not undo it
+
+  ## Security
+  - RLS enabled on all three tables with the "own rows" read policies from
+    `20251120213717_optimize_rls_policies_and_security.sql`
+
+  ## Notes
+  - Projects that already have these tables (created by hand) are left untouched
+  - This migration is safe to run multiple times
+*/
+
+CREATE TABLE IF NOT EXISTS user_profiles (
+  id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text,
+  email_verified boolean DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  balance numeric(12, 4) NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id uuid NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  video_generation_id uuid REFERENCES video_generations(id) ON DELETE SET NULL,
+  type text NOT NULL CHECK (type IN ('credit', 'reservation', 'settlement', 'refund', 'adjustment')),
+  amount numeric(12, 4) NOT NULL,
+  balance_after numeric(12, 4) NOT NULL,
+  description text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_video_generation_id
+  ON transactions(video_generation_id);
+
+ALTER TABLE video_generations
+  ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE;
+
+ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE transactions ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_user_profiles_updated_at ON user_profiles;
+CREATE TRIGGER update_user_profiles_updated_at
+  BEFORE UPDATE ON user_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_accounts_updated_at ON accounts;
+CREATE TRIGGER update_accounts_updated_at
+  BEFORE UPDATE ON accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP POLICY IF EXISTS "Users can view own profile" ON user_profiles;
+CREATE POLICY "Users can view own profile"
+  ON user_profiles FOR SELECT
+  TO authenticated
+  USING ((SELECT auth.uid()) = id);
+
+DROP POLICY IF EXISTS "Users can view own account" ON accounts;
+CREATE POLICY "Users can view own account"
+  ON accounts FOR SELECT
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can view own transactions" ON transactions;
+CREATE POLICY "Users can view own transactions"
+  ON transactions FOR SELECT
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  INSERT INTO user_profiles (id, email, email_verified)
+  VALUES (NEW.id, NEW.email, COALESCE(NEW.email_confirmed_at IS NOT NULL, false))
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO accounts (user_id, balance)
+  VALUES (NEW.id, 0.00)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Error in handle_new_user for user %: %', NEW.id, SQLERRM;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
@@ -0,0 +1,39 @@
+/*
+  # Add Remix Lineage
+
+  ## Overview
+  Adds support for remixing completed generations through OpenAI's
+  `POST /videos/{video_id}/remix` endpoint. Each remix is stored as its own
+  generation row that points back at the generation it was derived from, so the
+  history can render a lineage tree per video.
+
+  ## Changes
+
+  ### Modified Tables
+
+  #### `video_generations`
+  - `parent_generation_id` (uuid, nullable) - The generation this row remixes.
+    References `video_generations(id)` and is cleared when the parent is deleted
+    so children survive their parent.
+
+  ## Indexes
+  - Index on `parent_generation_id` for looking up the children of a generation
+
+  ## Notes
+  - Remixes inherit model, resolution and duration from the parent job
+  - This migration is safe to run multiple times
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'video_generations' AND column_name = 'parent_generation_id'
+  ) THEN
+    ALTER TABLE video_generations
+      ADD COLUMN parent_generation_id uuid REFERENCES video_generations(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_video_generations_parent_generation_id
+  ON video_generations(parent_generation_id);
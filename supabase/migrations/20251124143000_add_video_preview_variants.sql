@@ -0,0 +1,54 @@
+/*
+  # Add Video Preview Variants
+
+  ## Overview
+  OpenAI exposes three variants of each finished video through
+  `GET /videos/{video_id}/content?variant=...`: the mp4 itself, a still thumbnail
+  and a spritesheet of frames. This migration records the stored URLs of the
+  thumbnail and spritesheet so the history grid can show posters and
+  hover-scrub previews instead of empty players.
+
+  ## Changes
+
+  ### Modified Tables
+
+  #### `video_generations`
+  - `thumbnail_url` (text, nullable) - Public URL of the stored thumbnail image
+  - `spritesheet_url` (text, nullable) - Public URL of the stored spritesheet image
+
+  ### Storage
+
+  #### Bucket: `video_files`
+  - Allowed MIME types now include `image/webp`, `image/jpeg` and `image/png`
+    so previews can live next to their video
+
+  ## Notes
+  - Previews are stored under the same `{generation_id}/` prefix as the video:
+    `{generation_id}/{video_id}_thumbnail.webp` and
+    `{generation_id}/{video_id}_spritesheet.jpg`
+  - This migration is safe to run multiple times
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'video_generations' AND column_name = 'thumbnail_url'
+  ) THEN
+    ALTER TABLE video_generations ADD COLUMN thumbnail_url text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'video_generations' AND column_name = 'spritesheet_url'
+  ) THEN
+    ALTER TABLE video_generations ADD COLUMN spritesheet_url text;
+  END IF;
+END $$;
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'video/mp4', 'video/webm', 'video/quicktime',
+  'image/webp', 'image/jpeg', 'image/png'
+]::text[]
+WHERE id = 'video_files';
@@ -0,0 +1,33 @@
+/*
+  # Add Structured Error Fields
+
+  ## Overview
+  `error_message` alone can't tell an invalid key from a moderation rejection,
+  a rate limit or a network failure. This migration stores the structured
+  details carried by `SoraAPIError` so the UI can show guidance per category
+  and failures can be grouped when debugging.
+
+  ## Changes
+
+  ### Modified Tables
+
+  #### `video_generations`
+  - `error_status` (integer, nullable) - HTTP status of the failing OpenAI response
+  - `error_type` (text, nullable) - OpenAI `error.type`
+  - `error_code` (text, nullable) - OpenAI `error.code`
+  - `error_category` (text, nullable) - Client-side category, e.g. authentication,
+    moderation, rate_limit, quota, invalid_request, server, network
+  - `error_retryable` (boolean, nullable) - Whether retrying the same request may succeed
+  - `error_request_id` (text, nullable) - OpenAI `x-request-id` for support tickets
+
+  ## Notes
+  - All columns stay null for successful generations
+  - This migration is safe to run multiple times
+*/
+
+ALTER TABLE video_generations ADD COLUMN IF NOT EXISTS error_status integer;
+ALTER TABLE video_generations ADD COLUMN IF NOT EXISTS error_type text;
+ALTER TABLE video_generations ADD COLUMN IF NOT EXISTS error_code text;
+ALTER TABLE video_generations ADD COLUMN IF NOT EXISTS error_category text;
+ALTER TABLE video_generations ADD COLUMN IF NOT EXISTS error_retryable boolean;
+ALTER TABLE video_generations ADD COLUMN IF NOT EXISTS error_request_id text;
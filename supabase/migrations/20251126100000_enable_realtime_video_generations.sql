@@ -0,0 +1,41 @@
+/*
+  # Enable Realtime for Video Generations
+
+  ## Overview
+  The generator page used to poll every open tab for status changes. It now
+  subscribes to Postgres changes on `video_generations`, so rows updated by
+  any tab or worker show up immediately. Supabase Realtime only broadcasts
+  tables that belong to the `supabase_realtime` publication.
+
+  ## Changes
+
+  ### Publications
+
+  #### `supabase_realtime`
+  - Adds `video_generations` so INSERT, UPDATE and DELETE events are streamed
+
+  ### Modified Tables
+
+  #### `video_generations`
+  - `REPLICA IDENTITY FULL` so DELETE events carry the full old row instead of
+    only the primary key, and UPDATE events can be checked against RLS
+
+  ## Notes
+  - Clients refetch the history after reconnecting, so events missed while
+    offline are still picked up
+  - This migration is safe to run multiple times
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'video_generations'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE video_generations;
+  END IF;
+END $$;
+
+ALTER TABLE video_generations REPLICA IDENTITY FULL;
@@ -0,0 +1,83 @@
+/*
+  # Create Pricing Config and Track Generation Cost
+
+  ## Overview
+  Adds the `pricing_config` table referenced by the RLS optimization migration
+  and seeds it with OpenAI's per-second list prices for Sora. The app reads it
+  to show a cost estimate before a render is submitted, and records the
+  estimated and actual cost on every generation so spend can be summarized.
+
+  ## Changes
+
+  ### New Tables
+
+  #### `pricing_config`
+  - `id` (uuid, primary key)
+  - `model` (text) - Sora model, e.g. sora-2 or sora-2-pro
+  - `resolution` (text) - Output size, e.g. 1280x720
+  - `price_per_second` (numeric) - USD per second of generated video
+  - `currency` (text) - Always USD for now
+  - `created_at` / `updated_at` (timestamptz)
+  - Unique on (model, resolution)
+
+  ### Modified Tables
+
+  #### `video_generations`
+  - `estimated_cost` (numeric, nullable) - Price quoted when the job was submitted
+  - `cost` (numeric, nullable) - What the job actually cost once OpenAI finished it;
+    0 for jobs that failed on OpenAI's side since those aren't billed
+
+  ## Security
+  - RLS enabled on `pricing_config`; anyone can read prices
+  - No write policies: prices are edited from the dashboard or with the service role
+
+  ## Notes
+  - Seed rows use ON CONFLICT DO NOTHING so edited prices are not overwritten
+  - This migration is safe to run multiple times
+*/
+
+CREATE TABLE IF NOT EXISTS pricing_config (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  model text NOT NULL,
+  resolution text NOT NULL,
+  price_per_second numeric(10, 4) NOT NULL CHECK (price_per_second >= 0),
+  currency text NOT NULL DEFAULT 'USD',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (model, resolution)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_config_model ON pricing_config(model);
+
+ALTER TABLE pricing_config ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'pricing_config' AND policyname = 'Anyone can read pricing'
+  ) THEN
+    CREATE POLICY "Anyone can read pricing"
+      ON pricing_config FOR SELECT
+      TO anon, authenticated
+      USING (true);
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS update_pricing_config_updated_at ON pricing_config;
+CREATE TRIGGER update_pricing_config_updated_at
+  BEFORE UPDATE ON pricing_config
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO pricing_config (model, resolution, price_per_second) VALUES
+  ('sora-2', '1280x720', 0.10),
+  ('sora-2', '720x1280', 0.10),
+  ('sora-2-pro', '1280x720', 0.30),
+  ('sora-2-pro', '720x1280', 0.30),
+  ('sora-2-pro', '1792x1024', 0.50),
+  ('sora-2-pro', '1024x1792', 0.50)
+ON CONFLICT (model, resolution) DO NOTHING;
+
+ALTER TABLE video_generations ADD COLUMN IF NOT EXISTS estimated_cost numeric(10, 4);
+ALTER TABLE video_generations ADD COLUMN IF NOT EXISTS cost numeric(10, 4);
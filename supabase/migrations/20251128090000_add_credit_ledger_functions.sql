@@ -0,0 +1,353 @@
+/*
+  # Add Credit Ledger Functions
+
+  ## Overview
+  Generations now pay for themselves out of the user's `accounts.balance`.
+  Credits are reserved when a generation is submitted. The reservation is
+  settled against the actual cost when it completes, or refunded when it
+  fails. Every movement is a row in `transactions` linked to the generation.
+
+  All balance changes go through the SECURITY DEFINER functions below. The
+  row lock on `accounts` keeps concurrent submissions from overdrawing the
+  balance, and each function is idempotent per generation, so the browser
+  poller and the webhook can both call them safely. Amounts are priced from
+  `pricing_config` on the server; nothing the browser sends decides what is
+  charged.
+
+  ## Changes
+
+  ### Modified Tables
+
+  #### `video_generations`
+  - `estimated_cost` and `cost` may not be negative
+  - The `protect_generation_billing` trigger stops signed-in users from
+    writing the billing columns of their own rows (see Security)
+
+  ### Functions
+  - `generation_price(p_model, p_resolution, p_seconds)` - Price of a render
+    from `pricing_config`; null when no price is configured
+  - `reserve_generation_credits(p_generation_id)` - Takes the generation's
+    price from the caller's balance. Raises `Insufficient credits` (hint
+    `insufficient_credits`) when the balance is too low.
+  - `settle_generation_credits(p_generation_id)` - Closes the reservation at
+    the generation's cost and returns or charges the difference. The cost is
+    the one the webhook recorded, or else the price of the row's model,
+    resolution and duration, which is then stored in `cost`.
+  - `refund_generation_credits(p_generation_id)` - Returns the full reservation
+    for a generation that did not complete and records a cost of 0
+  - `grant_credits(p_user_id, p_amount, p_description)` - Top-ups and manual
+    adjustments; service role only
+
+  ### Security
+  - Drops "Users can update own account" and "Users can insert own
+    transactions" so balances can only change through the functions above
+  - Settle and refund may be called by the generation's owner or the service
+    role (used by the openai-webhook edge function). Owners can refund a
+    generation that never reached OpenAI, or one whose row is `failed`. The
+    database can't check what OpenAI said about a job, so it relies on the
+    status instead: `protect_generation_billing` only lets it move forward,
+    so a row marked failed can never be completed or settled afterwards.
+  - For `anon` and `authenticated`, `protect_generation_billing` prices new
+    rows itself and clears `cost`, rejects changes to `cost`,
+    `estimated_cost`, `model`, `resolution`, `duration` and a recorded
+    `openai_job_id`, and only lets `status` move forward
+    (pending → processing → completed or failed)
+
+  ## Notes
+  - Amounts are USD, matching `pricing_config.price_per_second`
+  - Generations whose owner has no account are not charged
+  - The trade-off is that an owner can mark a job failed while OpenAI still
+    renders it and get back credits for a job that may be billed. They lose
+    the video in exchange, since the row can't complete any more
+  - Failed jobs are refunded by the browser that sees the failure, or by the
+    webhook when no tab is open; neither depends on the other
+  - This migration is safe to run multiple times
+*/
+
+DROP POLICY IF EXISTS "Users can update own account" ON accounts;
+DROP POLICY IF EXISTS "Users can insert own transactions" ON transactions;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'video_generations_cost_check'
+  ) THEN
+    ALTER TABLE video_generations
+      ADD CONSTRAINT video_generations_cost_check
+      CHECK (cost >= 0 AND estimated_cost >= 0);
+  END IF;
+END $$;
+
+-- Same calculation as PricingModel.estimate
+CREATE OR REPLACE FUNCTION generation_price(p_model text, p_resolution text, p_seconds numeric)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT round(price_per_second * p_seconds, 4)
+  FROM pricing_config
+  WHERE model = p_model AND resolution = p_resolution;
+$$;
+
+-- The ledger trusts cost, the settings it is priced from and the status, so
+-- signed-in users may not set them on their own rows. The ledger functions
+-- and the service role run as other roles and are not affected.
+CREATE OR REPLACE FUNCTION protect_generation_billing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending';
+    NEW.cost := NULL;
+    NEW.estimated_cost := generation_price(NEW.model, NEW.resolution, NEW.duration);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.cost IS DISTINCT FROM OLD.cost
+    OR NEW.estimated_cost IS DISTINCT FROM OLD.estimated_cost
+    OR NEW.model IS DISTINCT FROM OLD.model
+    OR NEW.resolution IS DISTINCT FROM OLD.resolution
+    OR NEW.duration IS DISTINCT FROM OLD.duration
+  THEN
+    RAISE EXCEPTION 'The cost and settings of a generation cannot be changed';
+  END IF;
+
+  IF OLD.openai_job_id IS NOT NULL AND NEW.openai_job_id IS DISTINCT FROM OLD.openai_job_id THEN
+    RAISE EXCEPTION 'The OpenAI job of a generation cannot be changed';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('processing', 'failed'))
+    OR (OLD.status = 'processing' AND NEW.status IN ('completed', 'failed'))
+  ) THEN
+    RAISE EXCEPTION 'A generation cannot go from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_generation_billing ON video_generations;
+CREATE TRIGGER protect_generation_billing
+  BEFORE INSERT OR UPDATE ON video_generations
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_generation_billing();
+
+DROP FUNCTION IF EXISTS reserve_generation_credits(uuid, numeric);
+
+CREATE OR REPLACE FUNCTION reserve_generation_credits(p_generation_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_user_id uuid := (SELECT auth.uid());
+  v_account accounts%ROWTYPE;
+  v_generation video_generations%ROWTYPE;
+  v_amount numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_generation FROM video_generations WHERE id = p_generation_id;
+  IF NOT FOUND OR (v_generation.user_id IS NOT NULL AND v_generation.user_id <> v_user_id) THEN
+    RAISE EXCEPTION 'Generation % not found', p_generation_id;
+  END IF;
+
+  v_amount := generation_price(v_generation.model, v_generation.resolution, v_generation.duration);
+  IF v_amount IS NULL THEN
+    RAISE EXCEPTION 'No price configured for % at %', v_generation.model, v_generation.resolution;
+  END IF;
+
+  SELECT * INTO v_account FROM accounts WHERE user_id = v_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No credit account for this user';
+  END IF;
+
+  -- Already reserved, e.g. a retried request
+  IF EXISTS (
+    SELECT 1 FROM transactions
+    WHERE video_generation_id = p_generation_id AND type = 'reservation'
+  ) THEN
+    RETURN v_account.balance;
+  END IF;
+
+  IF v_account.balance < v_amount THEN
+    RAISE EXCEPTION 'Insufficient credits: balance % is less than the % required', v_account.balance, v_amount
+      USING HINT = 'insufficient_credits';
+  END IF;
+
+  UPDATE accounts SET balance = balance - v_amount WHERE id = v_account.id
+  RETURNING * INTO v_account;
+
+  INSERT INTO transactions (account_id, user_id, video_generation_id, type, amount, balance_after, description)
+  VALUES (v_account.id, v_user_id, p_generation_id, 'reservation', -v_amount, v_account.balance, 'Reserved for video generation');
+
+  RETURN v_account.balance;
+END;
+$$;
+
+-- Shared by settle and refund: locks the account behind an open reservation
+-- and checks the caller may close it. Returns null when there is nothing to do.
+CREATE OR REPLACE FUNCTION open_generation_reservation(p_generation_id uuid)
+RETURNS transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_reservation transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_reservation FROM transactions
+  WHERE video_generation_id = p_generation_id AND type = 'reservation';
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF COALESCE((SELECT auth.role()), '') <> 'service_role' AND v_reservation.user_id IS DISTINCT FROM (SELECT auth.uid()) THEN
+    RAISE EXCEPTION 'Generation % not found', p_generation_id;
+  END IF;
+
+  PERFORM 1 FROM accounts WHERE id = v_reservation.account_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM transactions
+    WHERE video_generation_id = p_generation_id AND type IN ('settlement', 'refund')
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_reservation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION settle_generation_credits(p_generation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_reservation transactions%ROWTYPE;
+  v_generation video_generations%ROWTYPE;
+  v_cost numeric;
+  v_difference numeric;
+  v_balance numeric;
+BEGIN
+  v_reservation := open_generation_reservation(p_generation_id);
+  IF v_reservation.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Only the webhook and this function write cost, so a recorded one can be
+  -- trusted. Without a price the reservation stands as the charge.
+  SELECT * INTO v_generation FROM video_generations WHERE id = p_generation_id;
+  v_cost := COALESCE(
+    v_generation.cost,
+    generation_price(v_generation.model, v_generation.resolution, v_generation.duration),
+    -v_reservation.amount
+  );
+
+  UPDATE video_generations SET cost = v_cost WHERE id = p_generation_id AND cost IS NULL;
+
+  -- The reservation amount is negative, so this is what we owe back (or, if
+  -- negative, what is still to be charged)
+  v_difference := -v_reservation.amount - v_cost;
+
+  UPDATE accounts SET balance = balance + v_difference WHERE id = v_reservation.account_id
+  RETURNING balance INTO v_balance;
+
+  INSERT INTO transactions (account_id, user_id, video_generation_id, type, amount, balance_after, description)
+  VALUES (
+    v_reservation.account_id, v_reservation.user_id, p_generation_id, 'settlement', v_difference, v_balance,
+    format('Settled at actual cost of %s', v_cost)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refund_generation_credits(p_generation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_reservation transactions%ROWTYPE;
+  v_generation video_generations%ROWTYPE;
+  v_balance numeric;
+BEGIN
+  v_reservation := open_generation_reservation(p_generation_id);
+  IF v_reservation.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_generation FROM video_generations WHERE id = p_generation_id;
+
+  IF v_generation.status = 'completed' THEN
+    RAISE EXCEPTION 'Completed generations are settled, not refunded';
+  END IF;
+
+  -- A failed row can't move to completed any more, so it will never be billed
+  IF COALESCE((SELECT auth.role()), '') <> 'service_role'
+    AND v_generation.openai_job_id IS NOT NULL
+    AND v_generation.status <> 'failed' THEN
+    RAISE EXCEPTION 'Generations submitted to OpenAI are only refunded once they failed';
+  END IF;
+
+  -- Failed jobs aren't billed
+  UPDATE video_generations SET cost = 0 WHERE id = p_generation_id AND cost IS NULL;
+
+  UPDATE accounts SET balance = balance - v_reservation.amount WHERE id = v_reservation.account_id
+  RETURNING balance INTO v_balance;
+
+  INSERT INTO transactions (account_id, user_id, video_generation_id, type, amount, balance_after, description)
+  VALUES (
+    v_reservation.account_id, v_reservation.user_id, p_generation_id, 'refund', -v_reservation.amount, v_balance,
+    'Refunded, generation did not complete'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION grant_credits(p_user_id uuid, p_amount numeric, p_description text DEFAULT NULL)
+RETURNS numeric
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_account accounts%ROWTYPE;
+BEGIN
+  INSERT INTO accounts (user_id, balance) VALUES (p_user_id, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  UPDATE accounts SET balance = balance + p_amount WHERE user_id = p_user_id
+  RETURNING * INTO v_account;
+
+  INSERT INTO transactions (account_id, user_id, type, amount, balance_after, description)
+  VALUES (
+    v_account.id, p_user_id, CASE WHEN p_amount >= 0 THEN 'credit' ELSE 'adjustment' END,
+    p_amount, v_account.balance, COALESCE(p_description, 'Credits added')
+  );
+
+  RETURN v_account.balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION open_generation_reservation(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION grant_credits(uuid, numeric, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reserve_generation_credits(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION settle_generation_credits(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION refund_generation_credits(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reserve_generation_credits(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION settle_generation_credits(uuid) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION refund_generation_credits(uuid) TO authenticated, service_role;
@@ -0,0 +1,41 @@
+/*
+  # Restrict Video Generations to Their Owner
+
+  ## Overview
+  `20251120213717_optimize_rls_policies_and_security.sql` added "Users can ...
+  own video generations" policies, but the development policies from
+  `20251021163127_create_video_generations_table.sql` were never removed.
+  Permissive policies are OR'ed together, so anyone could still read and edit
+  every row. The app now signs users in with Supabase Auth and stamps
+  `user_id` on every generation, so the open policies can go.
+
+  ## Changes
+
+  ### Modified Tables
+
+  #### `video_generations`
+  - `user_id` defaults to `auth.uid()`, so rows inserted by a signed-in client
+    are owned even if the client leaves the column out
+
+  ### Security
+  - Drops "Anyone can view/create/update/delete video generations"; access is
+    now limited to `authenticated` users on their own rows
+  - The service role (used by the openai-webhook edge function) bypasses RLS
+    and is unaffected
+
+  ## Notes
+  - Rows created before sign-in existed have no `user_id` and are no longer
+    visible to anyone but the service role. Claim them for a user with
+    `UPDATE video_generations SET user_id = '<user id>' WHERE user_id IS NULL;`
+  - The storage bucket policies are unchanged; files stay publicly readable
+    by URL
+  - This migration is safe to run multiple times
+*/
+
+DROP POLICY IF EXISTS "Anyone can view video generations" ON video_generations;
+DROP POLICY IF EXISTS "Anyone can create video generations" ON video_generations;
+DROP POLICY IF EXISTS "Anyone can update video generations" ON video_generations;
+DROP POLICY IF EXISTS "Anyone can delete video generations" ON video_generations;
+
+ALTER TABLE video_generations
+  ALTER COLUMN user_id SET DEFAULT auth.uid();
@@ -0,0 +1,108 @@
+/*
+  # Create Sora Proxy Jobs
+
+  ## Overview
+  The `sora-proxy` edge function forwards `/videos` requests to OpenAI with the
+  organization's API key, so browsers never hold it. It records every job it
+  creates here. The table tells the proxy which user owns a job, so users can
+  only read, download or delete their own jobs. It is also what per-user
+  limits are counted against, so calling the proxy directly doesn't get
+  around them.
+
+  ## Changes
+
+  ### New Tables
+
+  #### `sora_proxy_jobs`
+  - `openai_job_id` (text, primary key) - OpenAI video id returned on creation
+  - `user_id` (uuid) - User the job was created for, references `auth.users`
+  - `model` (text) - Model requested
+  - `created_at` (timestamptz) - When the proxy created the job
+  - `finished_at` (timestamptz, nullable) - Set once the proxy sees the job
+    complete, fail or get deleted, or the openai-webhook function hears it
+    finished; unfinished jobs count as active
+
+  ### Indexes
+  - `(user_id, created_at DESC)` for the per-user limit queries
+
+  ### Functions
+  - `reserve_sora_proxy_job(p_user_id, p_max_active, p_daily_limit, p_active_window)`
+    - Counts the user's jobs and, if they are under both limits, inserts a
+      placeholder row (`pending:<uuid>`) in the same transaction. A per-user
+      advisory lock makes concurrent requests wait for each other, so they
+      can't all pass the limit. Raises with hint `user_limit_exceeded`
+      otherwise. The proxy renames the row to the OpenAI id once the job is
+      created, or deletes it if creation fails.
+
+  ## Security
+  - RLS enabled; users can read their own rows. Only the service role used by
+    the proxy writes to the table or calls `reserve_sora_proxy_job`.
+
+  ## Notes
+  - This migration is safe to run multiple times
+*/
+
+CREATE TABLE IF NOT EXISTS sora_proxy_jobs (
+  openai_job_id text PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  model text,
+  created_at timestamptz DEFAULT now(),
+  finished_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_sora_proxy_jobs_user_id_created
+  ON sora_proxy_jobs(user_id, created_at DESC);
+
+ALTER TABLE sora_proxy_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own proxy jobs" ON sora_proxy_jobs;
+CREATE POLICY "Users can view own proxy jobs"
+  ON sora_proxy_jobs FOR SELECT
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+CREATE OR REPLACE FUNCTION reserve_sora_proxy_job(
+  p_user_id uuid,
+  p_max_active integer,
+  p_daily_limit integer,
+  p_active_window interval
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_daily integer;
+  v_active integer;
+  v_job_id text := 'pending:' || gen_random_uuid();
+BEGIN
+  -- Held until the transaction ends, so the count below includes every
+  -- placeholder a concurrent request inserted
+  PERFORM pg_advisory_xact_lock(hashtextextended(p_user_id::text, 0));
+
+  SELECT
+    count(*),
+    count(*) FILTER (WHERE finished_at IS NULL AND created_at > now() - p_active_window)
+  INTO v_daily, v_active
+  FROM sora_proxy_jobs
+  WHERE user_id = p_user_id AND created_at >= now() - interval '1 day';
+
+  IF v_daily >= p_daily_limit THEN
+    RAISE EXCEPTION 'You have reached the limit of % videos in 24 hours. Try again later.', p_daily_limit
+      USING HINT = 'user_limit_exceeded';
+  END IF;
+
+  IF v_active >= p_max_active THEN
+    RAISE EXCEPTION 'You already have % videos rendering, the limit is %. Wait for one to finish.', v_active, p_max_active
+      USING HINT = 'user_limit_exceeded';
+  END IF;
+
+  INSERT INTO sora_proxy_jobs (openai_job_id, user_id) VALUES (v_job_id, p_user_id);
+
+  RETURN v_job_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_sora_proxy_job(uuid, integer, integer, interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_sora_proxy_job(uuid, integer, integer, interval) TO service_role;
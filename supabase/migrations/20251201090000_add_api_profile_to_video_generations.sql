@@ -0,0 +1,29 @@
+/*
+  # Add API Profile to Video Generations
+
+  ## Overview
+  Users can keep several named OpenAI key profiles (for example a personal key
+  and per-project keys) and switch between them in the generator. Each
+  generation now records which profile submitted it, so history can be
+  filtered by profile.
+
+  ## Changes
+
+  ### Modified Tables
+
+  #### `video_generations`
+  - `api_profile` (text, nullable) - Name of the key profile that created the
+    job. Null for rows created before profiles existed and in proxy mode.
+
+  ### Indexes
+  - `(user_id, api_profile, created_at DESC)` for the profile filter
+
+  ## Notes
+  - Only the profile name is stored, never the key or its organization/project
+  - This migration is safe to run multiple times
+*/
+
+ALTER TABLE video_generations ADD COLUMN IF NOT EXISTS api_profile text;
+
+CREATE INDEX IF NOT EXISTS idx_video_generations_user_id_api_profile_created
+  ON video_generations(user_id, api_profile, created_at DESC);
@@ -0,0 +1,79 @@
+/*
+  # Create Prompt Templates
+
+  ## Overview
+  Stores reusable prompt skeletons such as
+  "{subject} walking through {location} at golden hour, 35mm". Placeholders in
+  braces are filled in from the generator form, or from a table of values to
+  queue one generation per row. Each template also remembers the model,
+  resolution and duration it was saved with.
+
+  ## Changes
+
+  ### New Tables
+
+  #### `prompt_templates`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Owner, references `auth.users`; defaults to `auth.uid()`
+  - `name` (text) - Shown in the template picker, unique per user
+  - `prompt` (text) - Prompt text with `{variable}` placeholders
+  - `model` (text) - Default Sora model
+  - `resolution` (text) - Default output size
+  - `duration` (integer) - Default length in seconds
+  - `created_at` / `updated_at` (timestamptz)
+
+  ### Indexes
+  - Unique `(user_id, name)`, which also serves the per-user listing
+
+  ## Security
+  - RLS enabled; users can only see and change their own templates
+
+  ## Notes
+  - This migration is safe to run multiple times
+*/
+
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  prompt text NOT NULL,
+  model text NOT NULL DEFAULT 'sora-2' CHECK (model IN ('sora-2', 'sora-2-pro')),
+  resolution text NOT NULL DEFAULT '1280x720',
+  duration integer NOT NULL DEFAULT 4 CHECK (duration > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own prompt templates" ON prompt_templates;
+CREATE POLICY "Users can view own prompt templates"
+  ON prompt_templates FOR SELECT
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can create own prompt templates" ON prompt_templates;
+CREATE POLICY "Users can create own prompt templates"
+  ON prompt_templates FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can update own prompt templates" ON prompt_templates;
+CREATE POLICY "Users can update own prompt templates"
+  ON prompt_templates FOR UPDATE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can delete own prompt templates" ON prompt_templates;
+CREATE POLICY "Users can delete own prompt templates"
+  ON prompt_templates FOR DELETE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+DROP TRIGGER IF EXISTS update_prompt_templates_updated_at ON prompt_templates;
+CREATE TRIGGER update_prompt_templates_updated_at
+  BEFORE UPDATE ON prompt_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
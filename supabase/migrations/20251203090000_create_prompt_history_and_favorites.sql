@@ -0,0 +1,95 @@
+/*
+  # Create Prompt History and Favorite Prompts
+
+  ## Overview
+  Every prompt ever submitted is already stored on `video_generations`. This
+  migration groups those rows into a per-user prompt history, with how often
+  each prompt was used and how its renders turned out, so the generator form
+  can offer past prompts again. Users can also star prompts they want to keep
+  at the top of the list.
+
+  ## Changes
+
+  ### New Tables
+
+  #### `favorite_prompts`
+  - `user_id` (uuid) - Owner, references `auth.users`; defaults to `auth.uid()`
+  - `prompt` (text) - Prompt text exactly as submitted
+  - `created_at` (timestamptz) - When it was starred
+  - Primary key `(user_id, prompt)`
+
+  ### New Views
+
+  #### `prompt_history`
+  One row per user and distinct prompt, including starred prompts whose
+  generations have since been deleted:
+  - `user_id`, `prompt`
+  - `uses` - Number of generations with this prompt
+  - `completed` / `failed` - How many of them finished either way
+  - `last_used_at` - Newest generation with this prompt, null if none are left
+  - `favorite` - Whether the prompt is starred
+
+  ## Security
+  - RLS enabled on `favorite_prompts`; users can only see and change their own
+  - `prompt_history` uses `security_invoker`, so the `video_generations` and
+    `favorite_prompts` policies decide which rows a caller sees
+
+  ## Notes
+  - This migration is safe to run multiple times
+*/
+
+CREATE TABLE IF NOT EXISTS favorite_prompts (
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  prompt text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, prompt)
+);
+
+ALTER TABLE favorite_prompts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own favorite prompts" ON favorite_prompts;
+CREATE POLICY "Users can view own favorite prompts"
+  ON favorite_prompts FOR SELECT
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can create own favorite prompts" ON favorite_prompts;
+CREATE POLICY "Users can create own favorite prompts"
+  ON favorite_prompts FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can delete own favorite prompts" ON favorite_prompts;
+CREATE POLICY "Users can delete own favorite prompts"
+  ON favorite_prompts FOR DELETE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+CREATE OR REPLACE VIEW prompt_history
+WITH (security_invoker = true) AS
+WITH usage AS (
+  SELECT
+    user_id,
+    prompt,
+    count(*) AS uses,
+    count(*) FILTER (WHERE status = 'completed') AS completed,
+    count(*) FILTER (WHERE status = 'failed') AS failed,
+    max(created_at) AS last_used_at
+  FROM video_generations
+  WHERE user_id IS NOT NULL
+  GROUP BY user_id, prompt
+)
+SELECT
+  COALESCE(usage.user_id, favorite_prompts.user_id) AS user_id,
+  COALESCE(usage.prompt, favorite_prompts.prompt) AS prompt,
+  COALESCE(usage.uses, 0) AS uses,
+  COALESCE(usage.completed, 0) AS completed,
+  COALESCE(usage.failed, 0) AS failed,
+  usage.last_used_at,
+  favorite_prompts.prompt IS NOT NULL AS favorite
+FROM usage
+FULL JOIN favorite_prompts
+  ON favorite_prompts.user_id = usage.user_id
+  AND favorite_prompts.prompt = usage.prompt;
+
+GRANT SELECT ON prompt_history TO authenticated;
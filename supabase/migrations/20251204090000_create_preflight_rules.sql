@@ -0,0 +1,100 @@
+/*
+  # Create Preflight Rules and Admin Users
+
+  ## Overview
+  The generator checks prompts locally before submitting them (length limits,
+  a blocklist of terms our policy rejects, and warnings for real-person names,
+  orientation and shot-count mismatches). The rules for those checks are
+  shared by everyone and live in a single `preflight_rules` row, which only
+  admins can change. Admins are listed in the new `admin_users` table.
+
+  ## Changes
+
+  ### New Tables
+
+  #### `admin_users`
+  - `user_id` (uuid, primary key) - References `auth.users`
+  - `created_at` (timestamptz)
+
+  #### `preflight_rules`
+  - `id` (smallint, primary key) - Always 1; the table holds a single row
+  - `rules` (jsonb) - Overrides for the app's default rules; keys that are
+    missing fall back to `DEFAULT_PREFLIGHT_RULES` in the app
+  - `updated_at` (timestamptz)
+  - `updated_by` (uuid, nullable) - Admin who last saved the rules
+
+  ### Functions
+  - `is_admin()` - True when the caller is listed in `admin_users`
+
+  ## Security
+  - RLS enabled on both tables
+  - Users can see whether they themselves are an admin; rows are added from
+    the dashboard or with the service role
+  - Anyone can read the preflight rules; only admins can insert or update them
+
+  ## Notes
+  - Make someone an admin with
+    `INSERT INTO admin_users (user_id) VALUES ('<user id>');`
+  - This migration is safe to run multiple times
+*/
+
+CREATE TABLE IF NOT EXISTS admin_users (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE admin_users ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can see own admin status" ON admin_users;
+CREATE POLICY "Users can see own admin status"
+  ON admin_users FOR SELECT
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (SELECT 1 FROM admin_users WHERE user_id = (SELECT auth.uid()));
+$$;
+
+GRANT EXECUTE ON FUNCTION is_admin() TO authenticated;
+
+CREATE TABLE IF NOT EXISTS preflight_rules (
+  id smallint PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  rules jsonb NOT NULL DEFAULT '{}'::jsonb,
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+INSERT INTO preflight_rules (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE preflight_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read preflight rules" ON preflight_rules;
+CREATE POLICY "Anyone can read preflight rules"
+  ON preflight_rules FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can insert preflight rules" ON preflight_rules;
+CREATE POLICY "Admins can insert preflight rules"
+  ON preflight_rules FOR INSERT
+  TO authenticated
+  WITH CHECK ((SELECT is_admin()));
+
+DROP POLICY IF EXISTS "Admins can update preflight rules" ON preflight_rules;
+CREATE POLICY "Admins can update preflight rules"
+  ON preflight_rules FOR UPDATE
+  TO authenticated
+  USING ((SELECT is_admin()))
+  WITH CHECK ((SELECT is_admin()));
+
+DROP TRIGGER IF EXISTS update_preflight_rules_updated_at ON preflight_rules;
+CREATE TRIGGER update_preflight_rules_updated_at
+  BEFORE UPDATE ON preflight_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
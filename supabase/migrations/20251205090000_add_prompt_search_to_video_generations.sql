@@ -0,0 +1,35 @@
+/*
+  # Add Prompt Search to Video Generations
+
+  ## Overview
+  The history view now pages through all of a user's generations instead of
+  showing the latest 50, with full-text search over prompts and filters for
+  status, model, resolution, duration, reference image and creation date.
+
+  ## Changes
+
+  ### Modified Tables
+
+  #### `video_generations`
+  - `prompt_tsv` (tsvector, generated) - English full-text vector of `prompt`,
+    kept up to date by Postgres. Queried with websearch syntax, so quoted
+    phrases, `or` and `-excluded` words work as users expect.
+
+  ### Indexes
+  - GIN index on `prompt_tsv` for the search box
+  - `(user_id, status, created_at DESC)` for the status filter
+
+  ## Notes
+  - Rows are still read through the existing RLS policies; nothing new is exposed
+  - This migration is safe to run multiple times
+*/
+
+ALTER TABLE video_generations
+  ADD COLUMN IF NOT EXISTS prompt_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(prompt, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_video_generations_prompt_tsv
+  ON video_generations USING gin(prompt_tsv);
+
+CREATE INDEX IF NOT EXISTS idx_video_generations_user_id_status_created
+  ON video_generations(user_id, status, created_at DESC);
@@ -0,0 +1,223 @@
+/*
+  # Create Projects, Tags and Collections
+
+  ## Overview
+  Lets users organize their history instead of scrolling one flat list:
+  - Projects group generations, e.g. one per client. A generation belongs to
+    at most one project, picked in the generator form.
+  - Tags are free-form labels edited on each history card.
+  - Collections are ordered sets of generations, such as "final picks for
+    client X". A generation can be in any number of collections.
+
+  ## Changes
+
+  ### New Tables
+
+  #### `projects`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Owner, references `auth.users`; defaults to `auth.uid()`
+  - `name` (text) - Unique per user
+  - `created_at` / `updated_at` (timestamptz)
+
+  #### `collections`
+  - Same columns as `projects`
+
+  #### `collection_items`
+  - `collection_id` (uuid) - The collection
+  - `generation_id` (uuid) - The generation in it
+  - `user_id` (uuid) - Owner of both; defaults to `auth.uid()`
+  - `position` (integer) - Order within the collection, lowest first
+  - `added_at` (timestamptz)
+  - Primary key `(collection_id, generation_id)`
+
+  ### Modified Tables
+
+  #### `video_generations`
+  - `project_id` (uuid, nullable) - The generation's project. Set back to null
+    when the project is deleted.
+  - `tags` (text[]) - Free-form tags, empty by default
+
+  ### Indexes
+  - `(user_id, project_id, created_at DESC)` for the project filter
+  - GIN index on `tags` for the tag filter
+  - `(generation_id)` on `collection_items` for the cascade on delete
+
+  ## Security
+  - RLS enabled on the new tables with the same "own rows" policies as
+    `video_generations`
+  - Foreign keys include `user_id`, so a generation can only be put in the
+    owner's projects and collections, even by someone who knows another
+    user's ids
+
+  ## Notes
+  - Deleting a collection or a generation removes its `collection_items`;
+    deleting a project keeps its generations
+  - This migration is safe to run multiple times
+*/
+
+-- Targets for the (id, user_id) foreign keys below
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'video_generations_id_user_id_key'
+  ) THEN
+    ALTER TABLE video_generations ADD CONSTRAINT video_generations_id_user_id_key UNIQUE (id, user_id);
+  END IF;
+END $$;
+
+-- ==============================================================================
+-- Projects
+-- ==============================================================================
+
+CREATE TABLE IF NOT EXISTS projects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name),
+  UNIQUE (id, user_id)
+);
+
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own projects" ON projects;
+CREATE POLICY "Users can view own projects"
+  ON projects FOR SELECT
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can create own projects" ON projects;
+CREATE POLICY "Users can create own projects"
+  ON projects FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can update own projects" ON projects;
+CREATE POLICY "Users can update own projects"
+  ON projects FOR UPDATE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can delete own projects" ON projects;
+CREATE POLICY "Users can delete own projects"
+  ON projects FOR DELETE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+DROP TRIGGER IF EXISTS update_projects_updated_at ON projects;
+CREATE TRIGGER update_projects_updated_at
+  BEFORE UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE video_generations ADD COLUMN IF NOT EXISTS project_id uuid;
+ALTER TABLE video_generations ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}';
+
+-- Only project_id is cleared when the project goes; user_id stays
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'video_generations_project_fkey'
+  ) THEN
+    ALTER TABLE video_generations
+      ADD CONSTRAINT video_generations_project_fkey
+      FOREIGN KEY (project_id, user_id) REFERENCES projects(id, user_id)
+      ON DELETE SET NULL (project_id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_video_generations_user_id_project_created
+  ON video_generations(user_id, project_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_video_generations_tags
+  ON video_generations USING gin(tags);
+
+-- ==============================================================================
+-- Collections
+-- ==============================================================================
+
+CREATE TABLE IF NOT EXISTS collections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, name),
+  UNIQUE (id, user_id)
+);
+
+ALTER TABLE collections ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own collections" ON collections;
+CREATE POLICY "Users can view own collections"
+  ON collections FOR SELECT
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can create own collections" ON collections;
+CREATE POLICY "Users can create own collections"
+  ON collections FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can update own collections" ON collections;
+CREATE POLICY "Users can update own collections"
+  ON collections FOR UPDATE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can delete own collections" ON collections;
+CREATE POLICY "Users can delete own collections"
+  ON collections FOR DELETE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+DROP TRIGGER IF EXISTS update_collections_updated_at ON collections;
+CREATE TRIGGER update_collections_updated_at
+  BEFORE UPDATE ON collections
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS collection_items (
+  collection_id uuid NOT NULL,
+  generation_id uuid NOT NULL,
+  user_id uuid NOT NULL DEFAULT auth.uid(),
+  position integer NOT NULL DEFAULT 0,
+  added_at timestamptz DEFAULT now(),
+  PRIMARY KEY (collection_id, generation_id),
+  FOREIGN KEY (collection_id, user_id) REFERENCES collections(id, user_id) ON DELETE CASCADE,
+  FOREIGN KEY (generation_id, user_id) REFERENCES video_generations(id, user_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_collection_items_generation_id
+  ON collection_items(generation_id);
+
+ALTER TABLE collection_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own collection items" ON collection_items;
+CREATE POLICY "Users can view own collection items"
+  ON collection_items FOR SELECT
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can create own collection items" ON collection_items;
+CREATE POLICY "Users can create own collection items"
+  ON collection_items FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can update own collection items" ON collection_items;
+CREATE POLICY "Users can update own collection items"
+  ON collection_items FOR UPDATE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can delete own collection items" ON collection_items;
+CREATE POLICY "Users can delete own collection items"
+  ON collection_items FOR DELETE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
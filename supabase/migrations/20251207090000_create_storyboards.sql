@@ -0,0 +1,147 @@
+/*
+  # Create Storyboards
+
+  ## Overview
+  OpenAI caps a clip at 12 seconds, so longer scenes are built from several
+  shots. A storyboard is an ordered list of shots, each with its own prompt
+  and duration, sharing one model and resolution. When a shot finishes, the
+  app takes its last frame and submits the next shot with that frame as the
+  starting image, so the shots continue from one another.
+
+  ## Changes
+
+  ### New Tables
+
+  #### `storyboards`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Owner, references `auth.users`; defaults to `auth.uid()`
+  - `name` (text)
+  - `model` (text) - Sora model used for every shot
+  - `resolution` (text) - Resolution used for every shot
+  - `project_id` (uuid, nullable) - Project the shots' generations go into.
+    Set back to null when the project is deleted.
+  - `created_at` / `updated_at` (timestamptz)
+
+  #### `storyboard_shots`
+  - `id` (uuid, primary key)
+  - `storyboard_id` (uuid) - The storyboard
+  - `user_id` (uuid) - Owner of the storyboard; defaults to `auth.uid()`
+  - `position` (integer) - Order within the storyboard, lowest first
+  - `prompt` (text)
+  - `duration` (integer) - Length in seconds
+  - `generation_id` (uuid, nullable) - The generation rendering this shot.
+    Set back to null when that generation is deleted.
+  - `submitted_at` (timestamptz, nullable) - Set when a tab claims the shot
+    for submission, so two open tabs never submit it twice
+  - `created_at` (timestamptz)
+
+  ### Indexes
+  - `(user_id, created_at DESC)` on `storyboards` for the list
+  - `(generation_id)` on `storyboard_shots` for the set null on delete
+
+  ## Security
+  - RLS enabled on both tables with the same "own rows" policies as
+    `projects` and `collections`
+  - Foreign keys include `user_id`, so a shot can only point at the owner's
+    storyboards, projects and generations
+
+  ## Notes
+  - Deleting a storyboard removes its shots but keeps their generations
+  - This migration is safe to run multiple times
+*/
+
+CREATE TABLE IF NOT EXISTS storyboards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  model text NOT NULL DEFAULT 'sora-2' CHECK (model IN ('sora-2', 'sora-2-pro')),
+  resolution text NOT NULL DEFAULT '1280x720',
+  project_id uuid,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (id, user_id),
+  FOREIGN KEY (project_id, user_id) REFERENCES projects(id, user_id) ON DELETE SET NULL (project_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_storyboards_user_id_created
+  ON storyboards(user_id, created_at DESC);
+
+ALTER TABLE storyboards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own storyboards" ON storyboards;
+CREATE POLICY "Users can view own storyboards"
+  ON storyboards FOR SELECT
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can create own storyboards" ON storyboards;
+CREATE POLICY "Users can create own storyboards"
+  ON storyboards FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can update own storyboards" ON storyboards;
+CREATE POLICY "Users can update own storyboards"
+  ON storyboards FOR UPDATE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can delete own storyboards" ON storyboards;
+CREATE POLICY "Users can delete own storyboards"
+  ON storyboards FOR DELETE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+DROP TRIGGER IF EXISTS update_storyboards_updated_at ON storyboards;
+CREATE TRIGGER update_storyboards_updated_at
+  BEFORE UPDATE ON storyboards
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS storyboard_shots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  storyboard_id uuid NOT NULL,
+  user_id uuid NOT NULL DEFAULT auth.uid(),
+  position integer NOT NULL DEFAULT 0,
+  prompt text NOT NULL,
+  duration integer NOT NULL DEFAULT 4 CHECK (duration > 0),
+  generation_id uuid,
+  submitted_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  FOREIGN KEY (storyboard_id, user_id) REFERENCES storyboards(id, user_id) ON DELETE CASCADE,
+  FOREIGN KEY (generation_id, user_id) REFERENCES video_generations(id, user_id) ON DELETE SET NULL (generation_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_storyboard_shots_storyboard_id
+  ON storyboard_shots(storyboard_id, position);
+
+CREATE INDEX IF NOT EXISTS idx_storyboard_shots_generation_id
+  ON storyboard_shots(generation_id);
+
+ALTER TABLE storyboard_shots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own storyboard shots" ON storyboard_shots;
+CREATE POLICY "Users can view own storyboard shots"
+  ON storyboard_shots FOR SELECT
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can create own storyboard shots" ON storyboard_shots;
+CREATE POLICY "Users can create own storyboard shots"
+  ON storyboard_shots FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can update own storyboard shots" ON storyboard_shots;
+CREATE POLICY "Users can update own storyboard shots"
+  ON storyboard_shots FOR UPDATE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can delete own storyboard shots" ON storyboard_shots;
+CREATE POLICY "Users can delete own storyboard shots"
+  ON storyboard_shots FOR DELETE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
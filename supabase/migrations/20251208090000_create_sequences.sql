@@ -0,0 +1,138 @@
+/*
+  # Create Sequences
+
+  ## Overview
+  The sequence builder joins trimmed clips of completed generations into one
+  video, rendered in the browser. A saved sequence keeps the rendered file in
+  the `video_files` bucket under `sequences/` and remembers which clips it
+  was cut from.
+
+  ## Changes
+
+  ### New Tables
+
+  #### `sequences`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Owner, references `auth.users`; defaults to `auth.uid()`
+  - `name` (text)
+  - `video_url` (text) - Public URL of the rendered file
+  - `content_type` (text) - MIME type the browser recorded, e.g. `video/webm`
+  - `duration` (numeric) - Length of the rendered file in seconds
+  - `resolution` (text) - Frame size of the rendered file
+  - `created_at` / `updated_at` (timestamptz)
+
+  #### `sequence_clips`
+  - `sequence_id` (uuid) - The sequence
+  - `position` (integer) - Order within the sequence, lowest first
+  - `user_id` (uuid) - Owner of the sequence; defaults to `auth.uid()`
+  - `generation_id` (uuid, nullable) - The source generation. Set back to null
+    when it is deleted, so the sequence keeps its cut list.
+  - `in_point` / `out_point` (numeric) - The part of the source that was used,
+    in seconds
+  - Primary key `(sequence_id, position)`
+
+  ### Indexes
+  - `(user_id, created_at DESC)` on `sequences` for the list
+  - `(generation_id)` on `sequence_clips` for the set null on delete
+
+  ## Security
+  - RLS enabled on both tables with the same "own rows" policies as
+    `projects` and `collections`
+  - Foreign keys include `user_id`, so a clip can only point at the owner's
+    sequences and generations
+
+  ## Notes
+  - Deleting a sequence removes its clips; the app removes the rendered file
+  - This migration is safe to run multiple times
+*/
+
+CREATE TABLE IF NOT EXISTS sequences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  video_url text NOT NULL,
+  content_type text NOT NULL DEFAULT 'video/webm',
+  duration numeric NOT NULL DEFAULT 0 CHECK (duration >= 0),
+  resolution text NOT NULL DEFAULT '1280x720',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sequences_user_id_created
+  ON sequences(user_id, created_at DESC);
+
+ALTER TABLE sequences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own sequences" ON sequences;
+CREATE POLICY "Users can view own sequences"
+  ON sequences FOR SELECT
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can create own sequences" ON sequences;
+CREATE POLICY "Users can create own sequences"
+  ON sequences FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can update own sequences" ON sequences;
+CREATE POLICY "Users can update own sequences"
+  ON sequences FOR UPDATE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can delete own sequences" ON sequences;
+CREATE POLICY "Users can delete own sequences"
+  ON sequences FOR DELETE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+DROP TRIGGER IF EXISTS update_sequences_updated_at ON sequences;
+CREATE TRIGGER update_sequences_updated_at
+  BEFORE UPDATE ON sequences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS sequence_clips (
+  sequence_id uuid NOT NULL,
+  position integer NOT NULL,
+  user_id uuid NOT NULL DEFAULT auth.uid(),
+  generation_id uuid,
+  in_point numeric NOT NULL DEFAULT 0 CHECK (in_point >= 0),
+  out_point numeric NOT NULL CHECK (out_point > in_point),
+  PRIMARY KEY (sequence_id, position),
+  FOREIGN KEY (sequence_id, user_id) REFERENCES sequences(id, user_id) ON DELETE CASCADE,
+  FOREIGN KEY (generation_id, user_id) REFERENCES video_generations(id, user_id) ON DELETE SET NULL (generation_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sequence_clips_generation_id
+  ON sequence_clips(generation_id);
+
+ALTER TABLE sequence_clips ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own sequence clips" ON sequence_clips;
+CREATE POLICY "Users can view own sequence clips"
+  ON sequence_clips FOR SELECT
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can create own sequence clips" ON sequence_clips;
+CREATE POLICY "Users can create own sequence clips"
+  ON sequence_clips FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can update own sequence clips" ON sequence_clips;
+CREATE POLICY "Users can update own sequence clips"
+  ON sequence_clips FOR UPDATE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()))
+  WITH CHECK (user_id = (SELECT auth.uid()));
+
+DROP POLICY IF EXISTS "Users can delete own sequence clips" ON sequence_clips;
+CREATE POLICY "Users can delete own sequence clips"
+  ON sequence_clips FOR DELETE
+  TO authenticated
+  USING (user_id = (SELECT auth.uid()));
@@ -0,0 +1,49 @@
+/*
+  # Add Frame Source to Video Generations
+
+  ## Overview
+  Any frame of a completed video can be used as the starting image of a new
+  generation. The new generation records which video and which moment the
+  frame was taken from, so the history can link back to it.
+
+  ## Changes
+
+  ### Modified Tables
+
+  #### `video_generations`
+  - `source_generation_id` (uuid, nullable) - The generation whose frame was
+    used as the starting image. Set back to null when it is deleted.
+  - `source_timestamp` (numeric, nullable) - Seconds into the source video
+    where the frame was taken
+
+  ### Indexes
+  - `(source_generation_id)` for the set null on delete
+
+  ## Security
+  - The foreign key includes `user_id`, so a generation can only point at a
+    frame of the owner's own videos
+
+  ## Notes
+  - Storyboard shots record the frame of the previous shot they start from
+  - This migration is safe to run multiple times
+*/
+
+ALTER TABLE video_generations ADD COLUMN IF NOT EXISTS source_generation_id uuid;
+ALTER TABLE video_generations ADD COLUMN IF NOT EXISTS source_timestamp numeric
+  CHECK (source_timestamp >= 0);
+
+-- Only source_generation_id is cleared when the source goes; user_id stays
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'video_generations_source_fkey'
+  ) THEN
+    ALTER TABLE video_generations
+      ADD CONSTRAINT video_generations_source_fkey
+      FOREIGN KEY (source_generation_id, user_id) REFERENCES video_generations(id, user_id)
+      ON DELETE SET NULL (source_generation_id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_video_generations_source_generation_id
+  ON video_generations(source_generation_id);
@@ -0,0 +1,122 @@
+/*
+  # Restrict Storage Objects to Their Owner
+
+  ## Overview
+  The `video_files` and `image_files` buckets were created with "Anyone can
+  update/delete ..." policies, so any client could overwrite or remove every
+  user's files. The orphan cleanup on the Test page made this worse: it could
+  only see the caller's own rows, so everyone else's files looked unreferenced
+  and were purged. Changes to stored files are now limited to their owner, and
+  orphans are found server-side against every row.
+
+  ## Changes
+
+  ### Functions
+  - `list_orphaned_storage_objects()` - The caller's own files in both buckets
+    that no generation or sequence points at, checked against all rows
+
+  ## Security
+  - Drops "Anyone can update/delete video files" and "Anyone can update/delete
+    image files"
+  - A file can be updated or deleted by the user who uploaded it. Files under
+    `video_files/<generation id>/` can also be changed by the generation's
+    owner, since the openai-webhook edge function stores them with the
+    service role and they have no uploader
+  - Reading files by URL is unchanged; both buckets stay public
+
+  ## Notes
+  - Files uploaded before sign-in existed, or stored by the webhook for a
+    generation that is gone, have no owner. They are never reported as
+    orphans; remove them with the service role
+  - This migration is safe to run multiple times
+*/
+
+DROP POLICY IF EXISTS "Anyone can update video files" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can delete video files" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can update image files" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can delete image files" ON storage.objects;
+
+DROP POLICY IF EXISTS "Owners can update video files" ON storage.objects;
+CREATE POLICY "Owners can update video files"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'video_files' AND (
+      owner_id = (SELECT auth.uid())::text
+      OR EXISTS (
+        SELECT 1 FROM public.video_generations g
+        WHERE g.id::text = (storage.foldername(name))[1]
+          AND g.user_id = (SELECT auth.uid())
+      )
+    )
+  )
+  WITH CHECK (
+    bucket_id = 'video_files' AND (
+      owner_id = (SELECT auth.uid())::text
+      OR EXISTS (
+        SELECT 1 FROM public.video_generations g
+        WHERE g.id::text = (storage.foldername(name))[1]
+          AND g.user_id = (SELECT auth.uid())
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Owners can delete video files" ON storage.objects;
+CREATE POLICY "Owners can delete video files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'video_files' AND (
+      owner_id = (SELECT auth.uid())::text
+      OR EXISTS (
+        SELECT 1 FROM public.video_generations g
+        WHERE g.id::text = (storage.foldername(name))[1]
+          AND g.user_id = (SELECT auth.uid())
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Owners can update image files" ON storage.objects;
+CREATE POLICY "Owners can update image files"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'image_files' AND owner_id = (SELECT auth.uid())::text)
+  WITH CHECK (bucket_id = 'image_files' AND owner_id = (SELECT auth.uid())::text);
+
+DROP POLICY IF EXISTS "Owners can delete image files" ON storage.objects;
+CREATE POLICY "Owners can delete image files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'image_files' AND owner_id = (SELECT auth.uid())::text);
+
+-- Runs as the owner so the reference check sees every user's rows, while the
+-- candidates are limited to files the caller uploaded
+CREATE OR REPLACE FUNCTION list_orphaned_storage_objects()
+RETURNS TABLE (bucket_id text, name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT o.bucket_id, o.name
+  FROM storage.objects o
+  WHERE o.bucket_id IN ('video_files', 'image_files')
+    AND o.owner_id = (SELECT auth.uid())::text
+    AND NOT EXISTS (
+      SELECT 1 FROM video_generations g
+      WHERE (o.bucket_id = 'video_files' AND g.id::text = split_part(o.name, '/', 1))
+        OR right(g.image_url, length(o.name) + length(o.bucket_id) + 2) = '/' || o.bucket_id || '/' || o.name
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM sequences s
+      WHERE right(s.video_url, length(o.name) + length(o.bucket_id) + 2) = '/' || o.bucket_id || '/' || o.name
+    )
+  ORDER BY o.bucket_id, o.name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION list_orphaned_storage_objects() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION list_orphaned_storage_objects() TO authenticated;